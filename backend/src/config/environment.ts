@@ -83,6 +83,154 @@ export class EnvironmentConfig {
     return process.env.MEMORY_DIR || path.join(process.cwd(), 'memory');
   }
 
+  // Ticket Storage Configuration (defaults to the memory storage backend)
+  get ticketStorageType(): 'file' | 'cosmos' {
+    const type = process.env.TICKET_STORAGE_TYPE?.toLowerCase();
+    if (!type) return this.memoryStorageType;
+    return type === 'cosmos' ? 'cosmos' : 'file';
+  }
+
+  get ticketDir(): string {
+    return process.env.TICKET_DIR || path.join(process.cwd(), 'tickets');
+  }
+
+  // Change Request Storage Configuration (defaults to the memory storage backend)
+  get changeRequestStorageType(): 'file' | 'cosmos' {
+    const type = process.env.CHANGE_REQUEST_STORAGE_TYPE?.toLowerCase();
+    if (!type) return this.memoryStorageType;
+    return type === 'cosmos' ? 'cosmos' : 'file';
+  }
+
+  get changeRequestDir(): string {
+    return process.env.CHANGE_REQUEST_DIR || path.join(process.cwd(), 'change-requests');
+  }
+
+  // Team Directory Storage Configuration (defaults to the memory storage backend)
+  get teamStorageType(): 'file' | 'cosmos' {
+    const type = process.env.TEAM_STORAGE_TYPE?.toLowerCase();
+    if (!type) return this.memoryStorageType;
+    return type === 'cosmos' ? 'cosmos' : 'file';
+  }
+
+  get teamDir(): string {
+    return process.env.TEAM_DIR || path.join(process.cwd(), 'team');
+  }
+
+  // Ingestion Job Storage Configuration (defaults to the memory storage backend)
+  get jobStorageType(): 'file' | 'cosmos' {
+    const type = process.env.JOB_STORAGE_TYPE?.toLowerCase();
+    if (!type) return this.memoryStorageType;
+    return type === 'cosmos' ? 'cosmos' : 'file';
+  }
+
+  get jobDir(): string {
+    return process.env.JOB_DIR || path.join(process.cwd(), 'jobs');
+  }
+
+  // Embedding Provider Configuration
+  get embeddingProvider(): 'openai' | 'openai-compatible' | 'hashing' {
+    const provider = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+    if (provider === 'openai-compatible' || provider === 'hashing') return provider;
+    return 'openai';
+  }
+
+  get embeddingModel(): string {
+    return process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+  }
+
+  // Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  get embeddingBaseUrl(): string | undefined {
+    return process.env.EMBEDDING_BASE_URL;
+  }
+
+  get embeddingApiKey(): string | undefined {
+    return process.env.EMBEDDING_API_KEY;
+  }
+
+  // Requested output size; the hashing embedder defaults to 384, other providers to the model's native size
+  get embeddingDimensions(): number | undefined {
+    const dimensions = parseInt(process.env.EMBEDDING_DIMENSIONS || '', 10);
+    return Number.isFinite(dimensions) && dimensions > 0 ? dimensions : undefined;
+  }
+
+  // Embedding Generation Configuration
+  get embeddingBatchSize(): number {
+    return Math.max(1, parseInt(process.env.EMBEDDING_BATCH_SIZE || '96', 10) || 96);
+  }
+
+  get embeddingConcurrency(): number {
+    return Math.max(1, parseInt(process.env.EMBEDDING_CONCURRENCY || '4', 10) || 4);
+  }
+
+  // 0 disables retries
+  get embeddingMaxRetries(): number {
+    const retries = parseInt(process.env.EMBEDDING_MAX_RETRIES || '', 10);
+    return Number.isFinite(retries) && retries >= 0 ? retries : 5;
+  }
+
+  // Reuse embeddings of unchanged chunk text (stored next to the vector index)
+  get embeddingCacheEnabled(): boolean {
+    return process.env.EMBEDDING_CACHE_ENABLED?.toLowerCase() !== 'false';
+  }
+
+  // Embeddings kept per model in the local cache; the least recently used are evicted
+  get embeddingCacheMaxEntries(): number {
+    return Math.max(1, parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '10000', 10) || 10000);
+  }
+
+  // Reranking Configuration
+  get rerankProvider(): 'llm' | 'local' | 'none' {
+    const provider = process.env.RERANK_PROVIDER?.toLowerCase();
+    if (provider === 'llm' || provider === 'none') return provider;
+    return 'local';
+  }
+
+  get rerankModel(): string {
+    return process.env.RERANK_MODEL || 'gpt-4o-mini';
+  }
+
+  // Retrieved chunks handed to the reranker; the top results of the reordered set are returned
+  get rerankCandidates(): number {
+    return Math.max(1, parseInt(process.env.RERANK_CANDIDATES || '20', 10) || 20);
+  }
+
+  get rerankConcurrency(): number {
+    return Math.max(1, parseInt(process.env.RERANK_CONCURRENCY || '5', 10) || 5);
+  }
+
+  // Query Rewriting Configuration
+  get queryRewriteProvider(): 'rules' | 'llm' | 'none' {
+    const provider = process.env.QUERY_REWRITE_PROVIDER?.toLowerCase();
+    if (provider === 'llm' || provider === 'none') return provider;
+    return 'rules';
+  }
+
+  get queryRewriteModel(): string {
+    return process.env.QUERY_REWRITE_MODEL || 'gpt-4o-mini';
+  }
+
+  // Queries searched per question, counting the original
+  get queryRewriteMax(): number {
+    return Math.max(1, parseInt(process.env.QUERY_REWRITE_MAX || '3', 10) || 3);
+  }
+
+  // Query Condensing Configuration
+  // Defaults to the LLM only when a key is configured, so offline setups don't fail a call per follow-up
+  get queryCondenseProvider(): 'llm' | 'rules' | 'none' {
+    const provider = process.env.QUERY_CONDENSE_PROVIDER?.toLowerCase();
+    if (provider === 'llm' || provider === 'rules' || provider === 'none') return provider;
+    return process.env.OPENAI_API_KEY ? 'llm' : 'rules';
+  }
+
+  get queryCondenseModel(): string {
+    return process.env.QUERY_CONDENSE_MODEL || 'gpt-4o-mini';
+  }
+
+  // Recent thread messages read when condensing a follow-up, including the current question
+  get queryCondenseHistory(): number {
+    return Math.max(2, parseInt(process.env.QUERY_CONDENSE_HISTORY || '6', 10) || 6);
+  }
+
   get storageType(): 'local' | 'cosmos' {
     const type = process.env.VECTOR_STORAGE_TYPE?.toLowerCase();
     return type === 'cosmos' ? 'cosmos' : 'local';
@@ -118,6 +266,22 @@ export class EnvironmentConfig {
     return process.env.COSMOS_DB_CONTAINER || 'Conversations';
   }
 
+  get cosmosTicketContainer(): string {
+    return process.env.COSMOS_DB_TICKET_CONTAINER || 'Tickets';
+  }
+
+  get cosmosChangeRequestContainer(): string {
+    return process.env.COSMOS_DB_CHANGE_REQUEST_CONTAINER || 'ChangeRequests';
+  }
+
+  get cosmosTeamContainer(): string {
+    return process.env.COSMOS_DB_TEAM_CONTAINER || 'Team';
+  }
+
+  get cosmosJobContainer(): string {
+    return process.env.COSMOS_DB_JOB_CONTAINER || 'Jobs';
+  }
+
   get cosmosConnectionString(): string | undefined {
     // Support both connection string and endpoint+key
     const connStr = process.env.COSMOS_CONNECTION_STRING;
@@ -140,6 +304,14 @@ export class EnvironmentConfig {
     return process.env.COSMOS_VECTOR_CONTAINER || 'embeddings';
   }
 
+  get cosmosKeywordContainerName(): string {
+    return process.env.COSMOS_KEYWORD_CONTAINER || 'keyword-index';
+  }
+
+  get cosmosEmbeddingCacheContainerName(): string {
+    return process.env.COSMOS_EMBEDDING_CACHE_CONTAINER || 'embedding-cache';
+  }
+
   isProduction(): boolean {
     return process.env.NODE_ENV === 'production';
   }
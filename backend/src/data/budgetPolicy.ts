@@ -0,0 +1,92 @@
+export interface BudgetTier {
+  tier: 1 | 2 | 3 | 4;
+  label: string;
+  minAmount: number;
+  maxAmount?: number;
+  minExclusive?: boolean; // tier starts above minAmount ("Over $500,000")
+  maxInclusive?: boolean; // tier includes maxAmount ("$50,000 - $500,000")
+  approvalAuthority: string;
+  timeline: string;
+  documentation: string[];
+  reviewFrequency: string;
+  additionalRequirements: string[];
+}
+
+export const BUDGET_POLICY_SECTION = '2.1';
+export const BUDGET_POLICY_TITLE = 'Budget Approval Guidelines';
+
+// Read as the handbook words it: Tier 1 is "Under $10,000", so $10,000 starts Tier 2 and
+// $50,000 starts Tier 3; Tier 3 runs "$50,000 - $500,000" and Tier 4 is "Over $500,000",
+// so $500,000 itself is still Tier 3.
+export const BUDGET_BOUNDARY_RULE = '$10,000 and $50,000 start Tiers 2 and 3, while Tier 3 includes $500,000 and only amounts over $500,000 are Tier 4';
+
+// Approval tiers from handbook §2.1, in ascending order
+export const BUDGET_TIERS: readonly BudgetTier[] = [
+  {
+    tier: 1,
+    label: 'Micro Projects',
+    minAmount: 0,
+    maxAmount: 10_000,
+    approvalAuthority: 'Team Lead',
+    timeline: '24-48 hours',
+    documentation: ['Brief project justification', 'Cost breakdown'],
+    reviewFrequency: 'Monthly spend review',
+    additionalRequirements: ['No formal business case required']
+  },
+  {
+    tier: 2,
+    label: 'Small Projects',
+    minAmount: 10_000,
+    maxAmount: 50_000,
+    approvalAuthority: 'Department Manager',
+    timeline: '3-5 business days',
+    documentation: ['Project charter', 'Detailed budget', 'ROI analysis'],
+    reviewFrequency: 'Bi-weekly financial review',
+    additionalRequirements: ['Cost-benefit analysis']
+  },
+  {
+    tier: 3,
+    label: 'Medium Projects',
+    minAmount: 50_000,
+    maxAmount: 500_000,
+    maxInclusive: true,
+    approvalAuthority: 'Vice President',
+    timeline: '1-2 weeks',
+    documentation: ['Comprehensive business case', 'Risk assessment', 'Resource plan'],
+    reviewFrequency: 'Weekly financial tracking',
+    additionalRequirements: [
+      'Competitive vendor evaluation (if applicable)',
+      'Capital expenditure committee review'
+    ]
+  },
+  {
+    tier: 4,
+    label: 'Large Projects',
+    minAmount: 500_000,
+    minExclusive: true,
+    approvalAuthority: 'Executive Board',
+    timeline: '3-4 weeks',
+    documentation: ['Full investment proposal', 'Multi-year financial projections'],
+    reviewFrequency: 'Executive steering committee oversight',
+    additionalRequirements: [
+      'External audit readiness',
+      'Board presentation and Q&A session',
+      'Phased funding approval gates'
+    ]
+  },
+];
+
+export function findBudgetTier(amount: number): BudgetTier {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new RangeError(`Budget amount must be a non-negative number, received ${amount}`);
+  }
+
+  return BUDGET_TIERS.find(tier =>
+    (tier.minExclusive ? amount > tier.minAmount : amount >= tier.minAmount) &&
+    (tier.maxAmount === undefined || amount < tier.maxAmount || (tier.maxInclusive === true && amount === tier.maxAmount))
+  )!;
+}
+
+export function isBudgetThreshold(amount: number): boolean {
+  return BUDGET_TIERS.some(tier => tier.minAmount > 0 && tier.minAmount === amount);
+}
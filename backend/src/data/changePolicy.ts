@@ -0,0 +1,79 @@
+import type { ChangeImpactLevel } from '../types/changeRequest.types';
+
+export interface ChangeImpactTier {
+  level: ChangeImpactLevel;
+  changeClass: string;
+  minPercent: number;
+  maxPercent?: number;
+  minExclusive?: boolean; // level starts above minPercent ("Critical: >30%")
+  maxInclusive?: boolean; // level includes maxPercent ("High: 15-30%")
+  guidance: string;
+  approver: string;
+  timeline: string;
+  documentation: string[];
+}
+
+export const CHANGE_IMPACT_SECTION = '9.2';
+export const CHANGE_APPROVAL_SECTION = '9.3';
+export const CHANGE_LOG_SECTION = '9.4';
+
+// Read as §9.2 words it: Low is "<5%", so 5% starts Medium and 15% starts High; High runs
+// "15-30%" and Critical is ">30%", so a change of exactly 30% is still High.
+export const CHANGE_BOUNDARY_RULE = '5% and 15% start the Medium and High levels, while High includes 30% and only impacts over 30% are Critical';
+
+// Impact levels (§9.2) paired with their approval authority (§9.3), in ascending order
+export const CHANGE_IMPACT_TIERS: readonly ChangeImpactTier[] = [
+  {
+    level: 'Low',
+    changeClass: 'Minor Changes',
+    minPercent: 0,
+    maxPercent: 5,
+    guidance: 'Handled within the project team',
+    approver: 'Project Manager',
+    timeline: '1-2 business days',
+    documentation: ['Update project plan and log']
+  },
+  {
+    level: 'Medium',
+    changeClass: 'Moderate Changes',
+    minPercent: 5,
+    maxPercent: 15,
+    guidance: 'Requires sponsor awareness',
+    approver: 'Project Sponsor',
+    timeline: '3-5 business days',
+    documentation: ['Formal change request', 'Updated business case']
+  },
+  {
+    level: 'High',
+    changeClass: 'Major Changes',
+    minPercent: 15,
+    maxPercent: 30,
+    maxInclusive: true,
+    guidance: 'Requires formal approval',
+    approver: 'Steering Committee',
+    timeline: '1-2 weeks',
+    documentation: ['Comprehensive impact analysis', 'Revised plans']
+  },
+  {
+    level: 'Critical',
+    changeClass: 'Critical Changes',
+    minPercent: 30,
+    minExclusive: true,
+    guidance: 'May require re-baselining',
+    approver: 'Executive Board',
+    timeline: '2-4 weeks',
+    documentation: ['Full re-justification', 'Project re-charter']
+  },
+];
+
+export function findImpactTier(percent: number): ChangeImpactTier {
+  const magnitude = Math.abs(percent);
+  return CHANGE_IMPACT_TIERS.find(tier =>
+    (tier.minExclusive ? magnitude > tier.minPercent : magnitude >= tier.minPercent) &&
+    (tier.maxPercent === undefined || magnitude < tier.maxPercent || (tier.maxInclusive === true && magnitude === tier.maxPercent))
+  )!;
+}
+
+export function getImpactTier(level: ChangeImpactLevel): ChangeImpactTier {
+  return CHANGE_IMPACT_TIERS.find(tier => tier.level === level)!;
+}
@@ -0,0 +1,32 @@
+import type { Seniority } from '../types/team.types';
+
+export interface RoleHourExpectation {
+  label: string;
+  rolePattern: RegExp;
+  seniority?: Seniority[];
+  minHours: number;
+  maxHours?: number;
+}
+
+export const RESOURCING_POLICY_SECTION = '3.1';
+
+// Weekly hour expectations from handbook §3.1, most specific first
+export const ROLE_HOUR_EXPECTATIONS: readonly RoleHourExpectation[] = [
+  { label: 'Engineering Leads', rolePattern: /engineering lead|tech(nical)? lead/i, minHours: 40 },
+  { label: 'Senior Engineers', rolePattern: /engineer|architect|developer/i, seniority: ['Senior', 'Lead', 'Principal'], minHours: 30, maxHours: 40 },
+  { label: 'Mid-level Engineers', rolePattern: /engineer|architect|developer|data scientist/i, seniority: ['Mid'], minHours: 20, maxHours: 30 },
+  { label: 'Junior Engineers', rolePattern: /engineer|developer/i, seniority: ['Junior'], minHours: 10, maxHours: 20 },
+  { label: 'UX Designers', rolePattern: /ux/i, minHours: 20 },
+  { label: 'UI Designers', rolePattern: /\bui\b|designer/i, minHours: 15, maxHours: 25 },
+  { label: 'Product Owners', rolePattern: /product owner/i, minHours: 40 },
+  { label: 'Product Analysts', rolePattern: /product analyst/i, minHours: 20, maxHours: 30 },
+  { label: 'QA Leads', rolePattern: /qa lead|quality lead|test lead/i, minHours: 30, maxHours: 40 },
+  { label: 'QA Engineers', rolePattern: /qa|quality|test/i, minHours: 20, maxHours: 30 },
+];
+
+export function findHourExpectation(role: string, seniority?: Seniority): RoleHourExpectation | undefined {
+  return ROLE_HOUR_EXPECTATIONS.find(expectation =>
+    expectation.rolePattern.test(role) &&
+    (!expectation.seniority || !seniority || expectation.seniority.includes(seniority))
+  );
+}
@@ -1,21 +1,65 @@
-export interface Employee {
-  name: string;
-  role: string;
-  status: 'Available' | 'On-Project';
-  hoursAvailable: number;
-}
+import type { EmployeeInput } from '../types/team.types';
 
-export const TEAM_DIRECTORY: readonly Employee[] = [
-  { name: "Arjun Sharma", role: "Engineering Lead", status: "Available", hoursAvailable: 40 },
-  { name: "Priya Patel", role: "Machine Learning Engineer", status: "On-Project", hoursAvailable: 10 },
-  { name: "Ravi Kumar", role: "UI/UX Designer", status: "Available", hoursAvailable: 35 },
-  { name: "Sneha Gupta", role: "Data Scientist", status: "On-Project", hoursAvailable: 5 },
-  { name: "Vikram Singh", role: "Solutions Architect", status: "Available", hoursAvailable: 30 },
-  { name: "Amit Desai", role: "AI Engineer", status: "Available", hoursAvailable: 40 },
-  { name: "Rohit Mehta", role: "AI Engineer", status: "On-Project", hoursAvailable: 15 },
-  { name: "Neha Kapoor", role: "Senior AI Engineer", status: "Available", hoursAvailable: 40 },
-  { name: "Ananya Iyer", role: "Full Stack Engineer", status: "Available", hoursAvailable: 40 },
-  { name: "Karthik Nair", role: "Full Stack Engineer", status: "Available", hoursAvailable: 35 },
-  { name: "Divya Sharma", role: "Senior Backend Engineer", status: "On-Project", hoursAvailable: 12 },
-  { name: "Rajesh Pillai", role: "Backend Engineer", status: "Available", hoursAvailable: 40 },
-] as const;
+// Seed data loaded into an empty team store on first use
+export const TEAM_DIRECTORY: readonly EmployeeInput[] = [
+  {
+    name: "Arjun Sharma", role: "Engineering Lead", seniority: "Lead", status: "Available", hoursAvailable: 40,
+    location: "Bengaluru", timezone: "Asia/Kolkata",
+    skills: [{ name: "TypeScript", proficiency: 5 }, { name: "Node.js", proficiency: 5 }, { name: "Azure", proficiency: 4 }, { name: "System Design", proficiency: 5 }]
+  },
+  {
+    name: "Priya Patel", role: "Machine Learning Engineer", seniority: "Mid", status: "On-Project", hoursAvailable: 10,
+    location: "Pune", timezone: "Asia/Kolkata",
+    skills: [{ name: "Python", proficiency: 5 }, { name: "PyTorch", proficiency: 4 }, { name: "MLOps", proficiency: 3 }]
+  },
+  {
+    name: "Ravi Kumar", role: "UI/UX Designer", seniority: "Mid", status: "Available", hoursAvailable: 35,
+    location: "Hyderabad", timezone: "Asia/Kolkata",
+    skills: [{ name: "Figma", proficiency: 5 }, { name: "User Research", proficiency: 4 }, { name: "Accessibility", proficiency: 3 }]
+  },
+  {
+    name: "Sneha Gupta", role: "Data Scientist", seniority: "Senior", status: "On-Project", hoursAvailable: 5,
+    location: "London", timezone: "Europe/London",
+    skills: [{ name: "Python", proficiency: 5 }, { name: "Statistics", proficiency: 5 }, { name: "SQL", proficiency: 4 }, { name: "LLM", proficiency: 3 }]
+  },
+  {
+    name: "Vikram Singh", role: "Solutions Architect", seniority: "Principal", status: "Available", hoursAvailable: 30,
+    location: "Singapore", timezone: "Asia/Singapore",
+    skills: [{ name: "Azure", proficiency: 5 }, { name: "System Design", proficiency: 5 }, { name: "Security", proficiency: 4 }]
+  },
+  {
+    name: "Amit Desai", role: "AI Engineer", seniority: "Mid", status: "Available", hoursAvailable: 40,
+    location: "Mumbai", timezone: "Asia/Kolkata",
+    skills: [{ name: "Python", proficiency: 4 }, { name: "LLM", proficiency: 4 }, { name: "RAG", proficiency: 4 }, { name: "TypeScript", proficiency: 3 }]
+  },
+  {
+    name: "Rohit Mehta", role: "AI Engineer", seniority: "Mid", status: "On-Project", hoursAvailable: 15,
+    location: "Bengaluru", timezone: "Asia/Kolkata",
+    skills: [{ name: "Python", proficiency: 4 }, { name: "LLM", proficiency: 3 }, { name: "Computer Vision", proficiency: 4 }]
+  },
+  {
+    name: "Neha Kapoor", role: "Senior AI Engineer", seniority: "Senior", status: "Available", hoursAvailable: 40,
+    location: "Toronto", timezone: "America/Toronto",
+    skills: [{ name: "Python", proficiency: 5 }, { name: "LLM", proficiency: 5 }, { name: "RAG", proficiency: 5 }, { name: "MLOps", proficiency: 4 }]
+  },
+  {
+    name: "Ananya Iyer", role: "Full Stack Engineer", seniority: "Mid", status: "Available", hoursAvailable: 40,
+    location: "Chennai", timezone: "Asia/Kolkata",
+    skills: [{ name: "TypeScript", proficiency: 4 }, { name: "React", proficiency: 5 }, { name: "Node.js", proficiency: 4 }]
+  },
+  {
+    name: "Karthik Nair", role: "Full Stack Engineer", seniority: "Junior", status: "Available", hoursAvailable: 35,
+    location: "Kochi", timezone: "Asia/Kolkata",
+    skills: [{ name: "TypeScript", proficiency: 3 }, { name: "React", proficiency: 3 }, { name: "Python", proficiency: 2 }]
+  },
+  {
+    name: "Divya Sharma", role: "Senior Backend Engineer", seniority: "Senior", status: "On-Project", hoursAvailable: 12,
+    location: "Berlin", timezone: "Europe/Berlin",
+    skills: [{ name: "Java", proficiency: 5 }, { name: "Python", proficiency: 4 }, { name: "SQL", proficiency: 5 }, { name: "Azure", proficiency: 3 }]
+  },
+  {
+    name: "Rajesh Pillai", role: "Backend Engineer", seniority: "Mid", status: "Available", hoursAvailable: 40,
+    location: "Bengaluru", timezone: "Asia/Kolkata",
+    skills: [{ name: "Node.js", proficiency: 4 }, { name: "Python", proficiency: 3 }, { name: "SQL", proficiency: 4 }]
+  },
+];
@@ -1,7 +1,10 @@
 import { Agent } from '@mastra/core/agent';
 import { createOpenAI } from '@ai-sdk/openai';
-import { getTeamDirectory, createProjectTicket } from '../tools/directory-tool';
+import { getTeamDirectory } from '../tools/directory-tool';
+import { createProjectTicket, listTickets, updateTicket } from '../tools/ticket-tool';
 import { queryHandbookSmart } from '../tools/rag-tool';
+import { classifyBudgetApproval } from '../tools/budget-tool';
+import { assessChangeImpact, submitChangeRequest, updateChangeRequest, getChangeLog } from '../tools/change-request-tool';
 import { envConfig } from '../../config/environment';
 
 const openaiClient = createOpenAI({
@@ -40,7 +43,7 @@ You help Project Managers with planning, resource allocation, and ensuring compl
 1. **Think Before Acting**: Plan your tool usage before executing
 2. **Verify Before Committing**: Gather information before taking actions (like creating tickets)
 3. **Be Specific**: Use actual names, numbers, and IDs - not placeholders
-4. **Cite Sources**: When quoting policies, reference where they came from
+4. **Cite Sources**: When quoting policies, reference where they came from - use the section number from queryHandbookSmart sources, e.g. "(§2.1 Budget Approval Guidelines)"
 5. **Ask When Unsure**: If critical information is missing, ask the user
 6. **Provide Next Steps**: Always end with clear, actionable guidance
 
@@ -64,9 +67,9 @@ Adapt this structure based on the request - not every response needs all section
 User: "What approval do I need for a $25,000 project?"
 
 Your approach:
-- This is about policy → use queryHandbook
-- Search for budget approval information
-- Provide the specific threshold and requirement
+- This is a budget approval question with a known amount → use classifyBudgetApproval
+- Report the tier, approval authority, timeline and documentation it returns
+- Cite the handbook section from the tool's source
 
 **Example 2 - Resource Question:**
 User: "Do we have any available data scientists?"
@@ -80,7 +83,7 @@ Your approach:
 User: "I need to start a project with $15K budget, need an engineer"
 
 Your approach:
-- First check policy (queryHandbook for budget approval)
+- First check policy (classifyBudgetApproval for the $15K budget)
 - Then check resources (getTeamDirectory for engineer)
 - Finally take action (createProjectTicket if both check out)
 - Logical sequence: verify before acting
@@ -122,7 +125,14 @@ export const projectAssistant = new Agent({
   model: openaiClient('gpt-4o-mini'),
   tools: {
     queryHandbookSmart,
+    classifyBudgetApproval,
     getTeamDirectory,
-    createProjectTicket
+    createProjectTicket,
+    listTickets,
+    updateTicket,
+    assessChangeImpact,
+    submitChangeRequest,
+    updateChangeRequest,
+    getChangeLog
   }
 });
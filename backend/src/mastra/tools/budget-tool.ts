@@ -0,0 +1,102 @@
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import {
+  findBudgetTier,
+  isBudgetThreshold,
+  BUDGET_BOUNDARY_RULE,
+  BUDGET_POLICY_SECTION,
+  BUDGET_POLICY_TITLE
+} from '../../data/budgetPolicy';
+
+export interface BudgetApprovalResult {
+  amount: number;
+  tier: number;
+  tierLabel: string;
+  range: string;
+  approvalAuthority: string;
+  timeline: string;
+  documentation: string[];
+  reviewFrequency: string;
+  additionalRequirements: string[];
+  boundaryNote?: string;
+  source: string;
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toLocaleString('en-US')}`;
+}
+
+export const classifyBudgetApproval = createTool({
+  id: 'classify-budget-approval',
+  description: `Classifies a project budget into the handbook §${BUDGET_POLICY_SECTION} approval tier and returns the exact approval requirements.
+
+WHEN TO USE THIS TOOL:
+- User asks what approval a budget needs ("What approval do I need for $25,000?")
+- Before creating a project ticket for a project with a known budget
+- Any question mentioning a specific dollar amount and approval, sign-off or authority
+
+WHEN NOT TO USE:
+- Questions about budget planning, estimation or monitoring (use queryHandbookSmart)
+- No amount is known yet (ask the user for the budget first)
+
+HOW TO USE EFFECTIVELY:
+- amount: Total project budget in US dollars as a plain number ("$15K" → 15000, "1.2M" → 1200000)
+- Trust the returned tier: $10,000 and $50,000 start Tiers 2 and 3, and $500,000 is still Tier 3 (Tier 4 is over $500,000)
+
+WHAT YOU'LL GET:
+- tier (1-4), approvalAuthority, timeline, documentation, reviewFrequency, additionalRequirements
+- boundaryNote when the amount sits exactly on a tier threshold
+- source: The handbook section to cite
+
+EXAMPLE SCENARIOS:
+✅ "What approval do I need for a $25,000 project?" → amount=25000
+✅ "Who signs off a $50k budget?" → amount=50000
+✅ "Start a project with $15K budget" → amount=15000, then getTeamDirectory
+❌ "How should I estimate my budget?" → Wrong tool, use queryHandbookSmart`,
+
+  inputSchema: z.object({
+    amount: z.number().min(0).describe('Total project budget in US dollars, e.g. 50000')
+  }),
+
+  outputSchema: z.object({
+    amount: z.number(),
+    tier: z.number(),
+    tierLabel: z.string(),
+    range: z.string(),
+    approvalAuthority: z.string(),
+    timeline: z.string(),
+    documentation: z.array(z.string()),
+    reviewFrequency: z.string(),
+    additionalRequirements: z.array(z.string()),
+    boundaryNote: z.string().optional(),
+    source: z.string()
+  }),
+
+  execute: async (context): Promise<BudgetApprovalResult> => {
+    const amount = Number((context as any)?.context?.amount);
+    const tier = findBudgetTier(amount);
+
+    const from = tier.minExclusive ? `Over ${formatAmount(tier.minAmount)}` : formatAmount(tier.minAmount);
+    const range = tier.maxAmount === undefined
+      ? tier.minExclusive ? from : `${from} and above`
+      : `${from} up to ${tier.maxInclusive ? 'and including' : '(not including)'} ${formatAmount(tier.maxAmount)}`;
+
+    console.log(`[BudgetTool] ${formatAmount(amount)} → Tier ${tier.tier} (${tier.approvalAuthority})`);
+
+    return {
+      amount,
+      tier: tier.tier,
+      tierLabel: tier.label,
+      range,
+      approvalAuthority: tier.approvalAuthority,
+      timeline: tier.timeline,
+      documentation: tier.documentation,
+      reviewFrequency: tier.reviewFrequency,
+      additionalRequirements: tier.additionalRequirements,
+      ...(isBudgetThreshold(amount) && {
+        boundaryNote: `${formatAmount(amount)} is a tier threshold. ${BUDGET_BOUNDARY_RULE}, so this is Tier ${tier.tier}.`
+      }),
+      source: `PM Handbook §${BUDGET_POLICY_SECTION} ${BUDGET_POLICY_TITLE}`
+    };
+  }
+});
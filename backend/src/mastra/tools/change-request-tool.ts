@@ -0,0 +1,315 @@
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { getChangeRequestStore } from '../../storage/ChangeRequestStoreFactory';
+import {
+  assessImpact,
+  routeChangeRequest,
+  toChangeLogEntry,
+  ChangeRequestStateError
+} from '../../utils/changeRequestHelpers';
+import { CHANGE_APPROVAL_SECTION, CHANGE_IMPACT_SECTION, CHANGE_LOG_SECTION } from '../../data/changePolicy';
+import type { ChangeLogEntry, ChangeRequest, ImpactDeltas } from '../../types/changeRequest.types';
+
+const changeRequestStore = getChangeRequestStore();
+
+const impactLevelSchema = z.enum(['Low', 'Medium', 'High', 'Critical']);
+
+const impactInputShape = {
+  scopePercent: z.number().optional().describe('OPTIONAL: Change to deliverables as a percentage of the original scope, e.g. 10 for +10%'),
+  scheduleDays: z.number().optional().describe('OPTIONAL: Days of delay (positive) or acceleration (negative)'),
+  plannedDurationDays: z.number().positive().optional().describe('OPTIONAL: Baseline project duration in days (required with scheduleDays)'),
+  budgetDelta: z.number().optional().describe('OPTIONAL: Cost increase (positive) or savings (negative) in dollars'),
+  baselineBudget: z.number().positive().optional().describe('OPTIONAL: Approved project budget in dollars (required with budgetDelta)')
+};
+
+const assessmentSchema = z.object({
+  level: impactLevelSchema,
+  scopePercent: z.number().optional(),
+  schedulePercent: z.number().optional(),
+  budgetPercent: z.number().optional(),
+  drivenBy: z.array(z.enum(['scope', 'schedule', 'budget'])),
+  summary: z.string()
+});
+
+const routingSchema = z.object({
+  approver: z.string(),
+  timeline: z.string(),
+  documentation: z.array(z.string())
+});
+
+const changeRequestSummarySchema = z.object({
+  changeId: z.string(),
+  projectName: z.string(),
+  title: z.string(),
+  status: z.enum(['submitted', 'approved', 'rejected', 'implemented']),
+  impactLevel: impactLevelSchema,
+  impactSummary: z.string(),
+  approver: z.string(),
+  timeline: z.string(),
+  documentation: z.array(z.string())
+});
+
+type ChangeRequestSummary = z.infer<typeof changeRequestSummarySchema>;
+
+function pickDeltas(input: any): ImpactDeltas {
+  return {
+    scopePercent: input.scopePercent,
+    scheduleDays: input.scheduleDays,
+    plannedDurationDays: input.plannedDurationDays,
+    budgetDelta: input.budgetDelta,
+    baselineBudget: input.baselineBudget
+  };
+}
+
+// Returns a message when the deltas cannot be turned into percentages of a baseline
+function checkDeltas(deltas: ImpactDeltas): string | null {
+  if (deltas.scheduleDays !== undefined && !deltas.plannedDurationDays) {
+    return 'plannedDurationDays is required to assess a schedule change. Ask the user for the planned project duration.';
+  }
+  if (deltas.budgetDelta !== undefined && !deltas.baselineBudget) {
+    return 'baselineBudget is required to assess a budget change. Ask the user for the approved budget.';
+  }
+  if (deltas.scopePercent === undefined && deltas.scheduleDays === undefined && deltas.budgetDelta === undefined) {
+    return 'Provide at least one of scopePercent, scheduleDays or budgetDelta.';
+  }
+  return null;
+}
+
+function toSummary(changeRequest: ChangeRequest): ChangeRequestSummary {
+  return {
+    changeId: changeRequest.changeId,
+    projectName: changeRequest.projectName,
+    title: changeRequest.title,
+    status: changeRequest.status,
+    impactLevel: changeRequest.estimatedImpact.level,
+    impactSummary: changeRequest.estimatedImpact.summary,
+    approver: changeRequest.routing.approver,
+    timeline: changeRequest.routing.timeline,
+    documentation: changeRequest.routing.documentation
+  };
+}
+
+export const assessChangeImpact = createTool({
+  id: 'assess-change-impact',
+  description: `Computes the handbook §${CHANGE_IMPACT_SECTION} impact level of a proposed change and who must approve it (§${CHANGE_APPROVAL_SECTION}). Nothing is saved.
+
+WHEN TO USE THIS TOOL:
+- User asks "how big is this change", "who needs to approve a 2-week slip", "is a $20k overrun critical?"
+- Before submitChangeRequest, to tell the user which approver and documentation they will need
+
+WHEN NOT TO USE:
+- User wants the change formally recorded (use submitChangeRequest, which assesses it too)
+- Questions about the change process in general (use queryHandbookSmart)
+
+HOW TO USE EFFECTIVELY:
+- Provide any of scope, schedule or budget deltas; the highest percentage sets the level
+- scheduleDays needs plannedDurationDays, budgetDelta needs baselineBudget
+- Levels: Low <5%, Medium 5-15%, High 15-30%, Critical over 30% (5% and 15% start Medium and High; exactly 30% is still High)
+
+EXAMPLE SCENARIOS:
+✅ "10-day slip on a 60-day project" → scheduleDays=10, plannedDurationDays=60
+✅ "Extra $12k on a $100k budget and 5% more scope" → budgetDelta=12000, baselineBudget=100000, scopePercent=5`,
+
+  inputSchema: z.object(impactInputShape),
+
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string().optional(),
+    assessment: assessmentSchema.optional(),
+    routing: routingSchema.optional()
+  }),
+
+  execute: async (context) => {
+    const input = (context as any)?.context || {};
+    const deltas = pickDeltas(input);
+    const problem = checkDeltas(deltas);
+
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const assessment = assessImpact(deltas);
+    return {
+      success: true,
+      assessment,
+      routing: routeChangeRequest(assessment)
+    };
+  }
+});
+
+export const submitChangeRequest = createTool({
+  id: 'submit-change-request',
+  description: `Submits a formal change request (handbook §9.1), classifies its impact level and routes it to the right approver.
+
+WHEN TO USE THIS TOOL:
+- User asks to "raise", "log" or "submit" a change request
+- A scope, schedule or budget change has been agreed in principle and must go through change control
+
+WHEN NOT TO USE:
+- User is only asking how big a change is (use assessChangeImpact)
+- Missing requestor, justification or impact figures (ask first)
+
+PREREQUISITES BEFORE CALLING:
+1. Project name and a short title for the change
+2. Who is requesting it and the business justification
+3. At least one impact figure: scope %, schedule days (with planned duration) or budget delta (with baseline budget)
+
+WHAT THIS DOES:
+- Saves the request with a sequential ID (e.g. CR-0007) and status "submitted"
+- Returns the impact level, required approver, approval timeline and documentation
+- Adds the request to the project's §${CHANGE_LOG_SECTION} change log
+- This is an ACTION - confirm with the user first`,
+
+  inputSchema: z.object({
+    projectName: z.string().describe('REQUIRED: Project the change applies to'),
+    title: z.string().describe('REQUIRED: Short title, e.g. "Add SSO login"'),
+    description: z.string().describe('REQUIRED: Description of the change'),
+    requestor: z.string().describe('REQUIRED: Person requesting the change'),
+    justification: z.string().describe('REQUIRED: Business justification'),
+    alternatives: z.string().optional().describe('OPTIONAL: Alternative options considered'),
+    ...impactInputShape
+  }),
+
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+    changeRequest: changeRequestSummarySchema.optional()
+  }),
+
+  execute: async (context) => {
+    const input = (context as any)?.context || {};
+    const { projectName, title, description, requestor, justification, alternatives } = input;
+
+    if (!projectName || !title || !description || !requestor || !justification) {
+      return { success: false, message: 'projectName, title, description, requestor and justification are required.' };
+    }
+
+    const deltas = pickDeltas(input);
+    const problem = checkDeltas(deltas);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const changeRequest = await changeRequestStore.createChangeRequest({
+      projectName,
+      title,
+      description,
+      requestor,
+      justification,
+      alternatives,
+      impact: deltas
+    });
+
+    return {
+      success: true,
+      message: `Change request ${changeRequest.changeId} submitted for ${changeRequest.routing.approver} approval`,
+      changeRequest: toSummary(changeRequest)
+    };
+  }
+});
+
+export const updateChangeRequest = createTool({
+  id: 'update-change-request',
+  description: `Records the approval decision or implementation of a change request.
+
+WHEN TO USE THIS TOOL:
+- User reports that a change was approved or rejected, and by whom
+- User reports that an approved change has been implemented, optionally with its actual impact
+
+WHEN NOT TO USE:
+- Change ID is unknown (use getChangeLog first)
+
+HOW TO USE EFFECTIVELY:
+- status "approved" / "rejected": approverName is required; it only applies to submitted requests
+- status "implemented": only for approved requests; pass actual scope/schedule/budget deltas to record actual vs. estimated impact
+- This is an ACTION - confirm with the user first`,
+
+  inputSchema: z.object({
+    changeId: z.string().describe('REQUIRED: Change request ID such as "CR-0007"'),
+    status: z.enum(['approved', 'rejected', 'implemented']).describe('REQUIRED: New status'),
+    approverName: z.string().optional().describe('Name of the approver (required for approved/rejected)'),
+    decisionNotes: z.string().optional().describe('OPTIONAL: Conditions or reasons given with the decision'),
+    implementationDate: z.string().optional().describe('OPTIONAL: ISO date the change was implemented. Defaults to today'),
+    ...impactInputShape
+  }),
+
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+    entry: z.any().optional()
+  }),
+
+  execute: async (context): Promise<{ success: boolean; message: string; entry?: ChangeLogEntry }> => {
+    const input = (context as any)?.context || {};
+    const { changeId, status, approverName, decisionNotes, implementationDate } = input;
+
+    if (!changeId || !status) {
+      return { success: false, message: 'changeId and status are required. Use getChangeLog to find the change ID.' };
+    }
+
+    if (status !== 'implemented' && !approverName) {
+      return { success: false, message: 'approverName is required to record an approval decision.' };
+    }
+
+    const actualImpact = pickDeltas(input);
+    const hasActualImpact = checkDeltas(actualImpact) === null;
+
+    try {
+      const changeRequest = status === 'implemented'
+        ? await changeRequestStore.updateChangeRequest(changeId, {
+            status,
+            ...(implementationDate && { implementationDate: new Date(implementationDate) }),
+            ...(hasActualImpact && { actualImpact })
+          })
+        : await changeRequestStore.updateChangeRequest(changeId, { status, approverName, decisionNotes });
+
+      if (!changeRequest) {
+        return { success: false, message: `Change request ${changeId} not found` };
+      }
+
+      return {
+        success: true,
+        message: `Change request ${changeRequest.changeId} marked ${changeRequest.status}`,
+        entry: toChangeLogEntry(changeRequest)
+      };
+    } catch (error) {
+      if (error instanceof ChangeRequestStateError) {
+        return { success: false, message: error.message };
+      }
+      throw error;
+    }
+  }
+});
+
+export const getChangeLog = createTool({
+  id: 'get-change-log',
+  description: `Returns the handbook §${CHANGE_LOG_SECTION} change log for a project: every change request with its dates, requestor, justification, impact, approval status, approver and actual vs. estimated impact.
+
+WHEN TO USE THIS TOOL:
+- User asks for the change log, change history or pending approvals of a project
+- To find a change ID before calling updateChangeRequest
+
+HOW TO USE EFFECTIVELY:
+- projectName: The full project name, case-insensitive ("CRM" does not include "CRM Migration")
+- status / impactLevel: Optional filters, e.g. status="submitted" for pending approvals`,
+
+  inputSchema: z.object({
+    projectName: z.string().describe('REQUIRED: Full project name (case-insensitive)'),
+    status: z.enum(['submitted', 'approved', 'rejected', 'implemented']).optional().describe('OPTIONAL: Only entries in this status'),
+    impactLevel: impactLevelSchema.optional().describe('OPTIONAL: Only entries at this impact level')
+  }),
+
+  outputSchema: z.object({
+    projectName: z.string(),
+    entries: z.array(z.any()),
+    count: z.number()
+  }),
+
+  execute: async (context): Promise<{ projectName: string; entries: ChangeLogEntry[]; count: number }> => {
+    const input = (context as any)?.context || {};
+    const { projectName, status, impactLevel } = input;
+
+    const entries = (await changeRequestStore.listChangeRequests({ projectName, exactProjectName: true, status, impactLevel })).map(toChangeLogEntry);
+    return { projectName, entries, count: entries.length };
+  }
+});
@@ -1,26 +1,37 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import { TEAM_DIRECTORY, type Employee } from '../../data/teamData';
+import { getTeamStore } from '../../storage/TeamStoreFactory';
+import { TeamMatchingService, type TeamMatchResult } from '../../services/TeamMatchingService';
+import type { Employee } from '../../types/team.types';
 
 export type { Employee };
 
-export interface ProjectTicket {
-  success: boolean;
-  ticketId: string;
-  assignee: string;
-  title: string;
-  projectName?: string;
-}
+const teamStore = getTeamStore();
+
+const teamMatchSchema = z.object({
+  name: z.string(),
+  role: z.string(),
+  seniority: z.enum(['Junior', 'Mid', 'Senior', 'Lead', 'Principal']),
+  status: z.enum(['Available', 'On-Project']),
+  location: z.string().optional(),
+  timezone: z.string().optional(),
+  skills: z.array(z.object({ name: z.string(), proficiency: z.number() })),
+  weeklyAvailability: z.array(z.object({ weekStart: z.string(), freeHours: z.number() })),
+  score: z.number(),
+  reasons: z.array(z.string()),
+  gaps: z.array(z.string()),
+  warnings: z.array(z.string())
+});
 
 export const getTeamDirectory = createTool({
   id: 'get-team-directory',
-  description: `Searches the employee directory to find team members and check their availability.
+  description: `Searches the employee directory and ranks team members by skills, seniority, location and week-by-week availability.
 
 WHEN TO USE THIS TOOL:
 - User asks "who is available" or "find me someone"
 - Need to verify if a specific person exists or is available
-- Looking for team members with specific skills/roles
-- Need to check availability hours before assignment
+- Looking for team members with specific skills/roles ("Python + LLM", "senior designer")
+- Need to check availability hours over upcoming weeks before assignment
 - Before creating project tickets (to verify assignee)
 
 WHEN NOT TO USE:
@@ -29,118 +40,57 @@ WHEN NOT TO USE:
 - User is asking general questions about projects
 
 HOW TO USE EFFECTIVELY:
-- Use 'role' parameter to filter (e.g., "Engineering Lead", "Designer")
-- Partial matches work (searching "Engineer" finds "Engineering Lead", "AI Engineer", etc.)
-- Check 'hoursAvailable' - Engineering Leads typically need 40+, designers 20+
-- Status "Available" is better than "On-Project" for new assignments
+- role: Partial match on role or name ("Engineer" finds "Engineering Lead", "AI Engineer", etc.)
+- skills: Every listed skill is required, e.g. ["Python", "LLM"]; minProficiency defaults to 3/5
+- minHoursPerWeek + weeks: "at least 20h free in the next 3 weeks" → minHoursPerWeek=20, weeks=3
+- If minHoursPerWeek is omitted, the handbook §3.1 minimum for each person's role is applied
+  (Engineering Leads 40h, Senior Engineers 30h, Mid-level 20h, UX Designers 20h, ...)
+- minSeniority: "Junior" | "Mid" | "Senior" | "Lead" | "Principal"
+- location: Matches city or timezone ("Europe", "Bengaluru")
 
 WHAT YOU'LL GET:
-- List of employees matching criteria
-- Their role, availability status, and hours available per week
-- Use this to make informed assignment decisions
+- matches: Ranked people who meet every criterion, with a score and the reasons they match
+- nearMisses: Up to 3 closest people who miss something, with the gaps listed
+- weeklyAvailability: Free hours per week (after project allocations) for the requested window
+- warnings: e.g. when the requested hours are below the handbook minimum for the role
 
 EXAMPLE SCENARIOS:
-✅ "Find me an available AI engineer" → Use with role="AI Engineer"
-✅ "Is Arjun Sharma available?" → Use with role="Arjun" or search all and filter
-✅ "Do we have designers?" → Use with role="Designer"
+✅ "Find me an available AI engineer" → role="AI Engineer"
+✅ "Python + LLM, at least 20h free in the next 3 weeks" → skills=["Python","LLM"], minHoursPerWeek=20, weeks=3
+✅ "Is Arjun Sharma available?" → role="Arjun"
+✅ "Senior engineers in Europe" → role="Engineer", minSeniority="Senior", location="Europe"
 ❌ "What's the budget approval process?" → Wrong tool, use queryHandbook`,
   
   inputSchema: z.object({
-    role: z.string().optional().describe('Employee role to search for (partial matches work). Examples: "Engineering Lead", "Designer", "AI Engineer", or even just "Engineer"')
-  }),
-  
-  outputSchema: z.array(z.object({
-    name: z.string(),
-    role: z.string(),
-    status: z.enum(['Available', 'On-Project']),
-    hoursAvailable: z.number()
-  })),
-  
-  execute: async (context): Promise<Employee[]> => {
-    const role = (context as any)?.role || (context as any)?.input?.role;
-    const directory = [...TEAM_DIRECTORY];
-    
-    if (role) {
-      const roleFilter = role.toLowerCase();
-      return directory.filter(emp => 
-        emp.role.toLowerCase().includes(roleFilter) ||
-        emp.name.toLowerCase().includes(roleFilter)
-      );
-    }
-    
-    return directory;
-  }
-});
-
-export const createProjectTicket = createTool({
-  id: 'create-project-ticket',
-  description: `Creates a project ticket in the system to track project kick-offs and assignments.
-
-WHEN TO USE THIS TOOL:
-- User explicitly asks to "create a ticket" or "start a project"
-- After verifying budget approval requirements (via queryHandbook)
-- After confirming resource availability (via getTeamDirectory)
-- Ready to formalize a project assignment
-
-WHEN NOT TO USE (CRITICAL):
-- User is just exploring options or asking questions
-- Haven't verified budget approval yet
-- Haven't confirmed team member is available
-- User hasn't committed to starting the project
-- Missing required information (assignee name, project title)
-
-PREREQUISITES BEFORE CALLING:
-1. Know the assignee's full name (verify via getTeamDirectory first)
-2. Have a clear project title or description
-3. If budget involved, should have checked policies (queryHandbook)
-4. User has confirmed they want to proceed
-
-HOW TO USE EFFECTIVELY:
-- assignee: Use exact full name from team directory
-- title: Be descriptive "Mobile App Project Kick-off - $15K" not just "Project"
-- projectName: Optional but helpful for tracking
-
-WHAT THIS DOES:
-- Creates a permanent ticket with unique ID
-- Assigns it to the specified team member
-- Returns ticket ID for tracking
-- This is an ACTION, not information gathering
-
-EXAMPLE SCENARIOS:
-✅ After checking handbook + finding engineer → Create ticket
-✅ User says "go ahead and create it" → Create ticket
-✅ Have all info (budget approved, person available) → Create ticket
-❌ User asks "what would I need to start?" → Just provide info, don't create
-❌ No one is available yet → Don't create, suggest alternatives
-❌ Just exploring budget options → Don't create yet`,
-  
-  inputSchema: z.object({
-    assignee: z.string().describe('REQUIRED: Full name of team member to assign (must match name from team directory exactly)'),
-    title: z.string().describe('REQUIRED: Descriptive project title. Be specific - include project type and key details like "Mobile App Development - Budget $15K"'),
-    projectName: z.string().optional().describe('OPTIONAL: Official project name if different from title')
+    role: z.string().optional().describe('Employee role or name to search for (partial matches work). Examples: "Engineering Lead", "Designer", "AI Engineer", or even just "Engineer"'),
+    skills: z.array(z.string()).optional().describe('Skills every candidate must have, e.g. ["Python", "LLM"]'),
+    minProficiency: z.number().min(1).max(5).optional().describe('Minimum proficiency (1-5) for each required skill. Default 3'),
+    minSeniority: z.enum(['Junior', 'Mid', 'Senior', 'Lead', 'Principal']).optional().describe('Minimum seniority level'),
+    location: z.string().optional().describe('City or timezone fragment, e.g. "Bengaluru" or "Europe"'),
+    minHoursPerWeek: z.number().min(0).max(80).optional().describe('Free hours needed in every week of the window. Defaults to the handbook §3.1 minimum for the role'),
+    weeks: z.number().int().min(1).max(12).optional().describe('Number of weeks to check, starting this week (or startDate). Default 1'),
+    startDate: z.string().optional().describe('ISO date the engagement starts, e.g. "2025-11-03". Defaults to today')
   }),
   
   outputSchema: z.object({
-    success: z.boolean(),
-    ticketId: z.string(),
-    assignee: z.string(),
-    title: z.string(),
-    projectName: z.string().optional()
+    weeks: z.array(z.string()),
+    matches: z.array(teamMatchSchema),
+    nearMisses: z.array(teamMatchSchema)
   }),
   
-  execute: async (context): Promise<ProjectTicket> => {
-    const assignee = (context as any)?.assignee || (context as any)?.input?.assignee;
-    const title = (context as any)?.title || (context as any)?.input?.title;
-    const projectName = (context as any)?.projectName || (context as any)?.input?.projectName;
-
-    const ticketId = `PROJ-${Date.now().toString().slice(-4)}-${Math.floor(Math.random() * 100).toString().padStart(2, '0')}`;
-    
-    return {
-      success: true,
-      ticketId,
-      assignee,
-      title,
-      ...(projectName && { projectName })
-    };
+  execute: async (context): Promise<TeamMatchResult> => {
+    const input = (context as any)?.context || {};
+    const employees = await teamStore.listEmployees();
+
+    return TeamMatchingService.findMatches(employees, {
+      role: input.role,
+      skills: input.skills,
+      minProficiency: input.minProficiency,
+      minSeniority: input.minSeniority,
+      location: input.location,
+      minHoursPerWeek: input.minHoursPerWeek,
+      weeks: input.weeks,
+      startDate: input.startDate
+    });
   }
 });
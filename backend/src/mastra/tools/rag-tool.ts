@@ -1,18 +1,52 @@
 import { createTool } from '@mastra/core';
 import { z } from 'zod';
-import { RAGService, type SearchResult } from '../../services/RAGService';
+import { RAGService, DEFAULT_COLLECTION, type SearchResult, type SearchMethod } from '../../services/RAGService';
+import { DocumentTrackingService } from '../../services/DocumentTrackingService';
+import { EmbeddingService } from '../../services/EmbeddingService';
+import { QueryRewriteService } from '../../services/QueryRewriteService';
+import { QueryCondenseService } from '../../services/QueryCondenseService';
+import type { QueryRewrite } from '../../utils/queryRewriter';
 
 export interface EnhancedHandbookQueryResult {
   answer: string;
   sources: Array<{
     text: string;
     score: number;
+    rerankScore?: number;
+    documentId?: string;
+    filename?: string;
     chunkIndex: number;
+    pageNumber?: number;
+    headingPath?: string[];
+    sectionNumber?: string;
+    sectionTitle?: string;
+    chapterTitle?: string;
+    startOffset?: number;
+    endOffset?: number;
+    collection: string;
+    version?: number;
+    searchMethod: SearchMethod;
+    matchedQueries?: string[];
   }>;
-  searchMethod: 'vector' | 'keyword' | 'hybrid';
+  searchMethod: SearchMethod;
+  condensedQuery?: string;
+  rewrites: QueryRewrite[];
+  collections: string[];
+  filter?: Record<string, any>;
   totalChunks: number;
 }
 
+interface MetadataFilterInput {
+  document?: string;
+  tags?: string[];
+  section?: string;
+  uploadedAfter?: string;
+  uploadedBefore?: string;
+  filter?: Record<string, any>;
+}
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO date, e.g. 2025-07-01');
+
 export const queryHandbookSmart = createTool({
   id: 'query-handbook-smart',
   description: `You are an intelligent retrieval assistant designed to search through all available internal documents 
@@ -50,79 +84,179 @@ EXAMPLE QUERIES:
 - "List the steps for creating a project ticket and assigning team members."
 - "What are the compliance requirements for financial reporting?"
 - "How do we integrate AI-based RAG with project management workflows?"
-- "Describe the Azure deployment best practices mentioned in the architecture guide.`,
+- "Describe the Azure deployment best practices mentioned in the architecture guide.
+
+NARROWING THE SEARCH:
+- "Only the security policy" → document: "security policy"
+- "Documents updated this quarter" → uploadedAfter: first day of the quarter (ISO date)
+- "Section 2.1" → section: "2.1"; "documents tagged finance" → tags: ["finance"]`,
   
   inputSchema: z.object({
     query: z.string()
       .min(5, "Query too short - be specific about what you're looking for")
-      .describe('Search query for policy information. Include specific details like dollar amounts, role names, or technical terms for better results.')
+      .describe('Search query for policy information. Include specific details like dollar amounts, role names, or technical terms for better results.'),
+    collections: z.array(z.string()).optional()
+      .describe(`Document collections to search, e.g. ["${DEFAULT_COLLECTION}"] or ["hr-policies", "architecture"]. Omit to search every collection.`),
+    document: z.string().optional()
+      .describe('Only search documents whose file name or ID contains these words, e.g. "security policy"'),
+    tags: z.array(z.string()).optional()
+      .describe('Only search documents carrying any of these upload tags, e.g. ["finance"]'),
+    section: z.string().optional()
+      .describe('Only search a section: a number such as "2.1" (includes 2.1.x) or words from its title'),
+    uploadedAfter: isoDate.optional()
+      .describe('Only search documents uploaded on or after this ISO date, e.g. the first day of this quarter'),
+    uploadedBefore: isoDate.optional()
+      .describe('Only search documents uploaded before this ISO date'),
+    filter: z.record(z.string(), z.any()).optional()
+      .describe('Advanced: raw filter over chunk metadata (documentId, filename, collection, tags, sectionNumber, sectionTitle, uploadedAt) using $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $all, $exists, $regex, $and, $or, $nor, $not. Combined with the fields above')
   }),
   
   outputSchema: z.object({
     answer: z.string().describe('Relevant policy content with citations'),
     sources: z.array(z.object({
       text: z.string().describe('Exact text from policy documents'),
-      score: z.number().describe('Relevance score (0-1, higher is better)'),
-      chunkIndex: z.number().describe('Section number in document')
+      score: z.number().describe('Retrieval score (0-1, higher is better)'),
+      rerankScore: z.number().optional().describe('Second-stage relevance score (0-1) the results are ordered by, when reranking is enabled'),
+      documentId: z.string().optional().describe('ID of the document the text was taken from'),
+      filename: z.string().optional().describe('Original file name of that document - mention it when citing'),
+      chunkIndex: z.number().describe('Section number in document'),
+      pageNumber: z.number().optional().describe('Page the text was taken from (PDF documents only)'),
+      headingPath: z.array(z.string()).optional().describe('Heading hierarchy the text sits under (Word documents only)'),
+      sectionNumber: z.string().optional().describe('Numbered section the text belongs to, e.g. "2.1" - cite it as §2.1'),
+      sectionTitle: z.string().optional().describe('Title of that section, e.g. "Budget Approval Guidelines"'),
+      chapterTitle: z.string().optional().describe('Chapter containing the section, e.g. "Budget Management and Financial Controls"'),
+      startOffset: z.number().optional().describe('Character offset where the text starts in the extracted document text'),
+      endOffset: z.number().optional().describe('Character offset where the text ends in the extracted document text'),
+      collection: z.string().describe('Collection the document belongs to'),
+      version: z.number().optional().describe('Version of the document the text was taken from (always the current one)'),
+      searchMethod: z.enum(['vector', 'keyword', 'hybrid']).describe('Retriever that found this text: vector (semantic), keyword (exact terms) or hybrid (both)'),
+      matchedQueries: z.array(z.string()).optional().describe('Which of the searched queries (original or rewrites) retrieved this text')
     })),
     searchMethod: z.enum(['vector', 'keyword', 'hybrid']).describe('Search method used'),
+    condensedQuery: z.string().optional().describe('Standalone form of a follow-up query, resolved from the conversation and searched instead of it'),
+    rewrites: z.array(z.object({
+      query: z.string().describe('Query that was searched'),
+      strategy: z.enum(['original', 'normalized', 'vocabulary', 'llm']).describe('How it was derived: the original query, normalized amounts and acronyms, handbook vocabulary, or an LLM rewrite'),
+      changes: z.array(z.string()).describe('Substitutions made, e.g. "60k → $60,000"')
+    })).describe('The query and its rewrites, all searched in parallel and fused'),
+    collections: z.array(z.string()).describe('Collections that were searched'),
+    filter: z.record(z.string(), z.any()).optional().describe('Metadata filter the search was restricted to'),
     totalChunks: z.number().describe('Total sections searched')
   }),
   
   execute: async (context): Promise<EnhancedHandbookQueryResult> => {
     try {
       const query = (context as any)?.context?.query || (context as any)?.query || (context as any)?.input?.query;
+      const threadId: string | undefined = (context as any)?.runtimeContext?.get?.('threadId');
+      const requested: string[] | undefined = (context as any)?.context?.collections;
+      const filter = buildMetadataFilter({
+        document: (context as any)?.context?.document,
+        tags: (context as any)?.context?.tags,
+        section: (context as any)?.context?.section,
+        uploadedAfter: (context as any)?.context?.uploadedAfter,
+        uploadedBefore: (context as any)?.context?.uploadedBefore,
+        filter: (context as any)?.context?.filter,
+      });
       
       if (!query) {
         return {
           answer: 'No query provided. Please specify what information you need to search for.',
           sources: [],
-          searchMethod: 'vector',
+          searchMethod: 'hybrid',
+          rewrites: [],
+          collections: [],
           totalChunks: 0
         };
       }
+
+      const known = (await DocumentTrackingService.getCollections()).map(collection => collection.name);
+      const collections = requested?.length
+        ? requested.map(name => name.trim().toLowerCase())
+        : known.length > 0 ? known : [DEFAULT_COLLECTION];
       
-      console.log('[Policy Search Tool] Query:', query);
+      console.log('[Policy Search Tool] Query:', query, 'Collections:', collections.join(', '), ...(filter ? ['Filter:', JSON.stringify(filter)] : []));
+
+      // "and what about Tier 4?" after a question on budget approval tiers is searched with that topic
+      const condensed = await QueryCondenseService.condense(query, threadId);
+      const searchQuery = condensed.query;
+      const condensedQuery = searchQuery !== condensed.original ? searchQuery : undefined;
+
+      // "who signs off a 60k thing" is also searched as "who has approval authority for a $60,000 project"
+      const rewrites = await QueryRewriteService.rewrite(searchQuery);
 
-      const searchResults = await RAGService.search(query, {
-        indexName: 'pm-handbook',
+      // Chunks of a version being swapped in (or out) are excluded before ranking so they
+      // don't take result slots; the final check covers a commit landing mid-search
+      const currentVersions = await DocumentTrackingService.getCurrentVersionFilter(collections);
+      const searchFilter = filter && currentVersions ? { $and: [filter, currentVersions] } : filter ?? currentVersions;
+      const searchResults = (await RAGService.searchMany(rewrites.map(rewrite => rewrite.query), {
+        collections,
         topK: 5,
-        threshold: 0.4,
-      });
+        threshold: EmbeddingService.calibrateThreshold(0.4),
+        mode: 'hybrid',
+        filter: searchFilter,
+      })).filter(result => DocumentTrackingService.isCurrentChunk(result.metadata));
       
       console.log(`[Policy Search Tool] Found ${searchResults.length} relevant chunks`);
 
       if (searchResults.length === 0) {
         return {
-          answer: `No information found for "${query}". 
+          answer: `No information found for "${searchQuery}". 
 
 Try:
 - Rephrasing with more specific terms
 - Including relevant details (amounts, roles, metrics)
-- Using different keywords
+- Using different keywords${filter ? `
+- Loosening the document, tag, section or date restrictions (documents ingested before tags and upload dates were recorded only match document and section restrictions)` : ''}
+
+Common topics: budget policies, resource allocation, project procedures, quality standards, risk management, compliance requirements.${known.length > 0 ? `
 
-Common topics: budget policies, resource allocation, project procedures, quality standards, risk management, compliance requirements.`,
+Available collections: ${known.join(', ')}` : ''}`,
           sources: [],
-          searchMethod: 'vector',
+          searchMethod: 'hybrid',
+          ...(condensedQuery && { condensedQuery }),
+          rewrites,
+          collections,
+          ...(filter && { filter }),
           totalChunks: 0
         };
       }
       
-      const sources = searchResults.map((result, idx) => ({
+      const sources = await Promise.all(searchResults.map(async (result, idx) => ({
         text: result.text,
         score: Math.round(result.score * 100) / 100,
-        chunkIndex: (result.metadata?.chunkIndex as number) || idx
-      }));
+        ...(result.rerankScore !== undefined && { rerankScore: Math.round(result.rerankScore * 100) / 100 }),
+        ...await describeDocument(result.metadata),
+        chunkIndex: (result.metadata?.chunkIndex as number) || idx,
+        ...(typeof result.metadata?.pageNumber === 'number' && { pageNumber: result.metadata.pageNumber }),
+        ...(Array.isArray(result.metadata?.headingPath) && result.metadata.headingPath.length > 0 && {
+          headingPath: result.metadata.headingPath as string[]
+        }),
+        ...(typeof result.metadata?.sectionNumber === 'string' && { sectionNumber: result.metadata.sectionNumber }),
+        ...(typeof result.metadata?.sectionTitle === 'string' && { sectionTitle: result.metadata.sectionTitle }),
+        ...(typeof result.metadata?.chapterTitle === 'string' && { chapterTitle: result.metadata.chapterTitle }),
+        ...(typeof result.metadata?.startOffset === 'number' && typeof result.metadata?.endOffset === 'number' && {
+          startOffset: result.metadata.startOffset,
+          endOffset: result.metadata.endOffset
+        }),
+        collection: result.collection,
+        ...(typeof result.metadata?.version === 'number' && { version: result.metadata.version }),
+        searchMethod: result.searchMethod,
+        ...(rewrites.length > 1 && result.matchedQueries && { matchedQueries: result.matchedQueries })
+      })));
 
-      const answer = synthesizeAnswer(query, searchResults);
+      const answer = synthesizeAnswer(searchQuery, searchResults, rewrites);
       
-      const stats = await RAGService.getStats('pm-handbook');
+      const stats = await Promise.all(collections.map(collection => RAGService.getStats(collection)));
       
       return {
         answer,
         sources,
-        searchMethod: 'vector',
-        totalChunks: stats.totalDocuments
+        searchMethod: 'hybrid',
+        ...(condensedQuery && { condensedQuery }),
+        rewrites,
+        collections,
+        ...(filter && { filter }),
+        totalChunks: stats.reduce((total, stat) => total + stat.totalDocuments, 0)
       };
       
     } catch (error) {
@@ -131,14 +265,72 @@ Common topics: budget policies, resource allocation, project procedures, quality
       return {
         answer: `Error searching policy documents: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
         sources: [],
-        searchMethod: 'vector',
+        searchMethod: 'hybrid',
+        rewrites: [],
+        collections: [],
         totalChunks: 0
       };
     }
   }
 });
 
-function synthesizeAnswer(query: string, results: SearchResult[]): string {
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Combines the tool's narrowing fields into one metadata filter; undefined means unfiltered
+function buildMetadataFilter(input: MetadataFilterInput): Record<string, any> | undefined {
+  const conditions: Record<string, any>[] = [];
+
+  // Words match across separators, so "security policy" finds Security_Policy.pdf and hr-security-policy-pdf
+  const words = input.document?.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean) ?? [];
+  if (words.length > 0) {
+    const pattern = words.map(escapeRegex).join('[^a-z0-9]*');
+    conditions.push({ $or: [
+      { filename: { $regex: pattern, $options: 'i' } },
+      { documentId: { $regex: pattern, $options: 'i' } },
+    ] });
+  }
+
+  const tags = input.tags?.map(tag => tag.trim().toLowerCase()).filter(Boolean) ?? [];
+  if (tags.length > 0) {
+    conditions.push({ tags: { $in: tags } });
+  }
+
+  const section = input.section?.trim().replace(/^§/, '');
+  if (section) {
+    conditions.push(/^\d+(\.\d+)*$/.test(section)
+      ? { $or: [{ sectionNumber: section }, { sectionNumber: { $regex: `^${escapeRegex(section)}\\.` } }] }
+      : { sectionTitle: { $regex: escapeRegex(section), $options: 'i' } });
+  }
+
+  if (input.uploadedAfter || input.uploadedBefore) {
+    conditions.push({ uploadedAt: {
+      ...(input.uploadedAfter && { $gte: new Date(input.uploadedAfter).toISOString() }),
+      ...(input.uploadedBefore && { $lt: new Date(input.uploadedBefore).toISOString() }),
+    } });
+  }
+
+  if (input.filter && Object.keys(input.filter).length > 0) {
+    conditions.push(input.filter);
+  }
+
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+// File name of the version a chunk was taken from, for citations
+async function describeDocument(metadata?: Record<string, any>): Promise<{ documentId?: string; filename?: string }> {
+  if (typeof metadata?.documentId !== 'string') return {};
+
+  const info = await DocumentTrackingService.getDocumentInfo(metadata.documentId);
+  const version = info?.versions.find(entry => entry.version === metadata.version);
+  const filename = version?.originalName || info?.originalName;
+
+  return { documentId: metadata.documentId, ...(filename && { filename }) };
+}
+
+function synthesizeAnswer(query: string, results: SearchResult[], rewrites: QueryRewrite[]): string {
   if (results.length === 0) {
     return 'No relevant information found.';
   }
@@ -146,10 +338,20 @@ function synthesizeAnswer(query: string, results: SearchResult[]): string {
   const topResults = results.slice(0, 5); 
   
   let answer = `**Policy Information** (Query: "${query}"):\n\n`;
+  if (rewrites.length > 1) {
+    answer += `_Also searched as: ${rewrites.slice(1).map(rewrite => `"${rewrite.query}"`).join(', ')}_\n\n`;
+  }
   
   topResults.forEach((result, idx) => {
-    const relevance = Math.round(result.score * 100);
-    answer += `**[${relevance}% match]**\n${result.text}\n\n`;
+    const relevance = Math.round((result.rerankScore ?? result.score) * 100);
+    const page = typeof result.metadata?.pageNumber === 'number' ? ` (page ${result.metadata.pageNumber})` : '';
+    const headingPath = Array.isArray(result.metadata?.headingPath) && result.metadata.headingPath.length > 0
+      ? ` (${result.metadata.headingPath.join(' > ')})`
+      : '';
+    const section = result.metadata?.sectionNumber
+      ? ` §${result.metadata.sectionNumber}${result.metadata.sectionTitle ? ` ${result.metadata.sectionTitle}` : ''}`
+      : result.metadata?.sectionTitle ? ` (${result.metadata.sectionTitle})` : '';
+    answer += `**[${relevance}% match, ${result.searchMethod}, ${result.collection}]${section}${page}${headingPath}**\n${result.text}\n\n`;
     if (idx < topResults.length - 1) answer += `---\n\n`;
   });
   
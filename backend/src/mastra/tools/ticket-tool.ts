@@ -0,0 +1,235 @@
+import { createTool } from '@mastra/core';
+import { z } from 'zod';
+import { getTicketStore } from '../../storage/TicketStoreFactory';
+import type { ProjectTicket, TicketStatus } from '../../types/ticket.types';
+
+export interface TicketToolResult {
+  success: boolean;
+  ticketId: string;
+  assignee: string;
+  title: string;
+  projectName?: string;
+  status: TicketStatus;
+}
+
+const ticketStore = getTicketStore();
+
+const ticketSummarySchema = z.object({
+  ticketId: z.string(),
+  title: z.string(),
+  assignee: z.string(),
+  projectName: z.string().optional(),
+  status: z.enum(['open', 'in-progress', 'blocked', 'closed']),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  resolution: z.string().optional(),
+  notes: z.array(z.string())
+});
+
+type TicketSummary = z.infer<typeof ticketSummarySchema>;
+
+function toToolTicket(ticket: ProjectTicket) {
+  return {
+    ticketId: ticket.ticketId,
+    assignee: ticket.assignee,
+    title: ticket.title,
+    status: ticket.status,
+    ...(ticket.projectName && { projectName: ticket.projectName })
+  };
+}
+
+function toTicketSummary(ticket: ProjectTicket): TicketSummary {
+  return {
+    ...toToolTicket(ticket),
+    createdAt: ticket.createdAt.toISOString(),
+    updatedAt: ticket.updatedAt.toISOString(),
+    ...(ticket.resolution && { resolution: ticket.resolution }),
+    notes: ticket.notes.map(note => `${note.createdAt.toISOString()}: ${note.text}`)
+  };
+}
+
+export const createProjectTicket = createTool({
+  id: 'create-project-ticket',
+  description: `Creates a project ticket in the system to track project kick-offs and assignments.
+
+WHEN TO USE THIS TOOL:
+- User explicitly asks to "create a ticket" or "start a project"
+- After verifying budget approval requirements (via queryHandbook)
+- After confirming resource availability (via getTeamDirectory)
+- Ready to formalize a project assignment
+
+WHEN NOT TO USE (CRITICAL):
+- User is just exploring options or asking questions
+- Haven't verified budget approval yet
+- Haven't confirmed team member is available
+- User hasn't committed to starting the project
+- Missing required information (assignee name, project title)
+
+PREREQUISITES BEFORE CALLING:
+1. Know the assignee's full name (verify via getTeamDirectory first)
+2. Have a clear project title or description
+3. If budget involved, should have checked policies (queryHandbook)
+4. User has confirmed they want to proceed
+
+HOW TO USE EFFECTIVELY:
+- assignee: Use exact full name from team directory
+- title: Be descriptive "Mobile App Project Kick-off - $15K" not just "Project"
+- projectName: Optional but helpful for tracking
+
+WHAT THIS DOES:
+- Creates a permanent ticket with a unique, sequential ID (e.g. PROJ-0042)
+- Assigns it to the specified team member
+- Returns ticket ID for tracking (use listTickets/updateTicket to follow up later)
+- This is an ACTION, not information gathering
+
+EXAMPLE SCENARIOS:
+✅ After checking handbook + finding engineer → Create ticket
+✅ User says "go ahead and create it" → Create ticket
+✅ Have all info (budget approved, person available) → Create ticket
+❌ User asks "what would I need to start?" → Just provide info, don't create
+❌ No one is available yet → Don't create, suggest alternatives
+❌ Just exploring budget options → Don't create yet`,
+  
+  inputSchema: z.object({
+    assignee: z.string().describe('REQUIRED: Full name of team member to assign (must match name from team directory exactly)'),
+    title: z.string().describe('REQUIRED: Descriptive project title. Be specific - include project type and key details like "Mobile App Development - Budget $15K"'),
+    projectName: z.string().optional().describe('OPTIONAL: Official project name if different from title'),
+    description: z.string().optional().describe('OPTIONAL: Context for the assignee - budget tier, approvals obtained, key dates')
+  }),
+  
+  outputSchema: z.object({
+    success: z.boolean(),
+    ticketId: z.string(),
+    assignee: z.string(),
+    title: z.string(),
+    projectName: z.string().optional(),
+    status: z.enum(['open', 'in-progress', 'blocked', 'closed'])
+  }),
+  
+  execute: async (context): Promise<TicketToolResult> => {
+    const { assignee, title, projectName, description } = (context as any)?.context || {};
+
+    const ticket = await ticketStore.createTicket({ assignee, title, projectName, description });
+    
+    return {
+      success: true,
+      ...toToolTicket(ticket)
+    };
+  }
+});
+
+export const listTickets = createTool({
+  id: 'list-tickets',
+  description: `Lists project tickets that were created earlier, optionally filtered by status, assignee or project.
+
+WHEN TO USE THIS TOOL:
+- User asks "what tickets are open", "what is Priya working on", "status of the mobile app project"
+- Following up on a ticket created in an earlier conversation
+- Before creating a ticket, to check a similar one doesn't already exist
+- To find a ticket ID before calling updateTicket
+
+WHEN NOT TO USE:
+- User wants a brand new ticket (use createProjectTicket)
+- User is asking about policies (use queryHandbook instead)
+
+HOW TO USE EFFECTIVELY:
+- ticketId: Fetch a single ticket directly when the ID is known
+- status: "open", "in-progress", "blocked" or "closed"
+- assignee / projectName: Partial, case-insensitive matches work
+
+WHAT YOU'LL GET:
+- Matching tickets, newest first, with status, assignee, dates and follow-up notes`,
+
+  inputSchema: z.object({
+    ticketId: z.string().optional().describe('OPTIONAL: Exact ticket ID such as "PROJ-0042"'),
+    status: z.enum(['open', 'in-progress', 'blocked', 'closed']).optional().describe('OPTIONAL: Only return tickets in this status'),
+    assignee: z.string().optional().describe('OPTIONAL: Filter by assignee name (partial matches work)'),
+    projectName: z.string().optional().describe('OPTIONAL: Filter by project name (partial matches work)')
+  }),
+
+  outputSchema: z.object({
+    tickets: z.array(ticketSummarySchema),
+    count: z.number()
+  }),
+
+  execute: async (context): Promise<{ tickets: TicketSummary[]; count: number }> => {
+    const input = (context as any)?.context || {};
+    const { ticketId, status, assignee, projectName } = input;
+
+    if (ticketId) {
+      const ticket = await ticketStore.getTicket(ticketId);
+      const tickets = ticket ? [toTicketSummary(ticket)] : [];
+      return { tickets, count: tickets.length };
+    }
+
+    const tickets = (await ticketStore.listTickets({ status, assignee, projectName })).map(toTicketSummary);
+    return { tickets, count: tickets.length };
+  }
+});
+
+export const updateTicket = createTool({
+  id: 'update-ticket',
+  description: `Updates an existing project ticket: change its status, reassign it, add a follow-up note, or close it.
+
+WHEN TO USE THIS TOOL:
+- User reports progress ("the kick-off happened", "we're blocked on approval")
+- User asks to reassign, rename or close a ticket
+- Recording a decision or follow-up against a ticket created earlier
+
+WHEN NOT TO USE:
+- Ticket ID is unknown (use listTickets first)
+- User wants a new ticket (use createProjectTicket)
+
+HOW TO USE EFFECTIVELY:
+- ticketId: Exact ID from createProjectTicket or listTickets
+- status: "closed" closes the ticket; include a resolution explaining why
+- note: Short factual follow-up, it is appended to the ticket history
+- assignee: Verify the new assignee via getTeamDirectory first
+
+This is an ACTION - confirm with the user before closing or reassigning.`,
+
+  inputSchema: z.object({
+    ticketId: z.string().describe('REQUIRED: Ticket ID such as "PROJ-0042"'),
+    status: z.enum(['open', 'in-progress', 'blocked', 'closed']).optional().describe('OPTIONAL: New status'),
+    assignee: z.string().optional().describe('OPTIONAL: New assignee full name'),
+    title: z.string().optional().describe('OPTIONAL: New title'),
+    note: z.string().optional().describe('OPTIONAL: Follow-up note to append'),
+    resolution: z.string().optional().describe('OPTIONAL: Resolution summary when closing')
+  }),
+
+  outputSchema: z.object({
+    success: z.boolean(),
+    message: z.string(),
+    ticket: ticketSummarySchema.optional()
+  }),
+
+  execute: async (context): Promise<{ success: boolean; message: string; ticket?: TicketSummary }> => {
+    const input = (context as any)?.context || {};
+    const { ticketId, status, assignee, title, note, resolution } = input;
+
+    if (!ticketId) {
+      return { success: false, message: 'A ticketId is required. Use listTickets to find it.' };
+    }
+
+    let ticket = await ticketStore.updateTicket(ticketId, {
+      assignee,
+      title,
+      note,
+      ...(status && status !== 'closed' && { status })
+    });
+
+    if (ticket && status === 'closed') {
+      ticket = await ticketStore.closeTicket(ticketId, resolution);
+    }
+
+    if (!ticket) {
+      return { success: false, message: `Ticket ${ticketId} not found` };
+    }
+
+    return {
+      success: true,
+      message: `Ticket ${ticket.ticketId} updated`,
+      ticket: toTicketSummary(ticket)
+    };
+  }
+});
@@ -0,0 +1,180 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { getChangeRequestStore } from '../storage/ChangeRequestStoreFactory';
+import { ChangeRequestStateError, toChangeLogEntry } from '../utils/changeRequestHelpers';
+
+const router = Router();
+
+const ChangeRequestStatusSchema = z.enum(['submitted', 'approved', 'rejected', 'implemented']);
+const ImpactLevelSchema = z.enum(['Low', 'Medium', 'High', 'Critical']);
+
+// Schedule and budget deltas are only meaningful as a share of their baseline
+const ImpactDeltasSchema = z.object({
+  scopePercent: z.number().min(-100).max(1000).optional(),
+  scheduleDays: z.number().optional(),
+  plannedDurationDays: z.number().positive().optional(),
+  budgetDelta: z.number().optional(),
+  baselineBudget: z.number().positive().optional()
+})
+  .refine(impact => impact.scheduleDays === undefined || impact.plannedDurationDays !== undefined, {
+    message: 'plannedDurationDays is required with scheduleDays',
+    path: ['plannedDurationDays']
+  })
+  .refine(impact => impact.budgetDelta === undefined || impact.baselineBudget !== undefined, {
+    message: 'baselineBudget is required with budgetDelta',
+    path: ['baselineBudget']
+  })
+  .refine(impact => impact.scopePercent !== undefined || impact.scheduleDays !== undefined || impact.budgetDelta !== undefined, {
+    message: 'Provide at least one of scopePercent, scheduleDays or budgetDelta'
+  });
+
+const ListChangeRequestsQuerySchema = z.object({
+  projectName: z.string().optional(),
+  status: ChangeRequestStatusSchema.optional(),
+  impactLevel: ImpactLevelSchema.optional()
+});
+
+const CreateChangeRequestSchema = z.object({
+  projectName: z.string().trim().min(1, 'Project name is required').max(200),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().trim().min(1, 'Description is required').max(5000),
+  requestor: z.string().trim().min(1, 'Requestor is required').max(200),
+  justification: z.string().trim().min(1, 'Business justification is required').max(5000),
+  alternatives: z.string().max(5000).optional(),
+  impact: ImpactDeltasSchema
+});
+
+const UpdateChangeRequestSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.enum(['approved', 'rejected']),
+    approverName: z.string().trim().min(1, 'Approver name is required').max(200),
+    decisionNotes: z.string().max(2000).optional()
+  }),
+  z.object({
+    status: z.literal('implemented'),
+    implementationDate: z.coerce.date().optional(),
+    actualImpact: ImpactDeltasSchema.optional()
+  })
+]);
+
+const changeRequestStore = getChangeRequestStore();
+
+function validationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: 'Invalid request',
+    details: error.issues.map((issue: z.ZodIssue) => ({
+      field: issue.path.join('.'),
+      message: issue.message
+    }))
+  });
+}
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = ListChangeRequestsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const changeRequests = await changeRequestStore.listChangeRequests(validationResult.data);
+
+    res.json({
+      success: true,
+      changeRequests,
+      count: changeRequests.length
+    });
+  } catch (error) {
+    console.error('[ChangeRequestAPI] Error listing change requests:', error);
+    res.status(500).json({
+      error: 'Failed to list change requests',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = CreateChangeRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const changeRequest = await changeRequestStore.createChangeRequest(validationResult.data);
+    res.status(201).json({ success: true, changeRequest });
+  } catch (error) {
+    console.error('[ChangeRequestAPI] Error creating change request:', error);
+    res.status(500).json({
+      error: 'Failed to create change request',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/log/:projectName', async (req: Request<{ projectName: string }>, res: Response) => {
+  try {
+    // The §9.4 log belongs to one project: "CRM" must not pull in "CRM Migration"
+    const changeRequests = await changeRequestStore.listChangeRequests({ projectName: req.params.projectName, exactProjectName: true });
+    const entries = changeRequests.map(toChangeLogEntry);
+
+    res.json({
+      success: true,
+      projectName: req.params.projectName,
+      entries,
+      count: entries.length
+    });
+  } catch (error) {
+    console.error('[ChangeRequestAPI] Error reading change log:', error);
+    res.status(500).json({
+      error: 'Failed to read change log',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:changeId', async (req: Request<{ changeId: string }>, res: Response) => {
+  try {
+    const changeRequest = await changeRequestStore.getChangeRequest(req.params.changeId);
+
+    if (!changeRequest) {
+      return res.status(404).json({ error: 'Change request not found' });
+    }
+
+    res.json({ success: true, changeRequest });
+  } catch (error) {
+    console.error('[ChangeRequestAPI] Error reading change request:', error);
+    res.status(500).json({
+      error: 'Failed to read change request',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.patch('/:changeId', async (req: Request<{ changeId: string }>, res: Response) => {
+  try {
+    const validationResult = UpdateChangeRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const changeRequest = await changeRequestStore.updateChangeRequest(req.params.changeId, validationResult.data);
+
+    if (!changeRequest) {
+      return res.status(404).json({ error: 'Change request not found' });
+    }
+
+    console.log(`[ChangeRequestAPI] ${changeRequest.changeId} marked ${changeRequest.status}`);
+    res.json({ success: true, changeRequest });
+  } catch (error) {
+    if (error instanceof ChangeRequestStateError) {
+      return res.status(409).json({ error: error.message, currentStatus: error.currentStatus });
+    }
+
+    console.error('[ChangeRequestAPI] Error updating change request:', error);
+    res.status(500).json({
+      error: 'Failed to update change request',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
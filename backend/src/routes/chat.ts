@@ -1,9 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { RuntimeContext } from '@mastra/core/runtime-context';
 import { projectAssistant } from '../mastra/agents/project-assistant';
 import { getMemoryStore } from '../storage/MemoryStoreFactory';
 import type { Message } from '../types/memory.types';
-import { mapToolCallsForMemory, getToolDisplayName } from '../utils/toolCallMapper';
+import { mapToolCallsForMemory, mapToolResultsToCitations, getToolDisplayName } from '../utils/toolCallMapper';
 
 const router = Router();
 
@@ -76,9 +77,13 @@ router.post('/', async (req: Request, res: Response) => {
         message: '🤔 Analyzing your request...' 
       })}\n\n`);
 
+      // Tools read the thread from the runtime context, e.g. to condense follow-up searches
+      const runtimeContext = new RuntimeContext();
+      runtimeContext.set('threadId', threadId);
+
       const stream = await projectAssistant.stream([
         { role: 'user', content: contextualMessage }
-      ]);
+      ], { runtimeContext });
 
       const toolCalls: any[] = [];
       let fullText = '';
@@ -101,6 +106,7 @@ router.post('/', async (req: Request, res: Response) => {
       const finishReason = await stream.finishReason;
       const usage = await stream.usage;
       const rawToolCalls = await stream.toolCalls;
+      const rawToolResults = await stream.toolResults;
 
       console.log(`[Chat] Stream finished:`, {
         finishReason,
@@ -109,6 +115,7 @@ router.post('/', async (req: Request, res: Response) => {
       });
 
       const memoryToolCalls = mapToolCallsForMemory(rawToolCalls as unknown[]);
+      const citations = mapToolResultsToCitations(rawToolResults as unknown[]);
 
       if (memoryToolCalls.length > 0) {
         console.log('[Chat] Tools used:', memoryToolCalls.map(tc => tc.name).join(', '));
@@ -127,7 +134,8 @@ router.post('/', async (req: Request, res: Response) => {
         role: 'assistant',
         content: fullText,
         timestamp: new Date(),
-        toolCalls: memoryToolCalls
+        toolCalls: memoryToolCalls,
+        ...(citations.length > 0 && { citations })
       };
       await memoryStore.addMessage(threadId, assistantMessage);
 
@@ -135,6 +143,7 @@ router.post('/', async (req: Request, res: Response) => {
         text: fullText,
         threadId,
         toolCalls: memoryToolCalls,
+        citations,
         usage,
         finishReason
       })}\n\n`);
@@ -1,8 +1,13 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { DocumentStorageService } from '../services/DocumentStorageService';
-import { RAGService } from '../services/RAGService';
-import { DocumentTrackingService } from '../services/DocumentTrackingService';
+import fs from 'fs/promises';
+import { DocumentStorageService, hashContent, type DocumentMetadata } from '../services/DocumentStorageService';
+import { RAGService, DEFAULT_COLLECTION, HANDBOOK_DOC_ID, isValidCollectionName } from '../services/RAGService';
+import { DocumentTrackingService, type DocumentChunkInfo } from '../services/DocumentTrackingService';
+import { DocumentParserService } from '../services/DocumentParserService';
+import { IngestionJobService } from '../services/IngestionJobService';
+import { joinSections } from '../utils/sectionChunker';
+import { envConfig } from '../config/environment';
 
 const router = Router();
 
@@ -28,13 +33,136 @@ const upload = multer({
   },
 });
 
+function toDocumentId(collection: string, originalName: string): string {
+  return `${collection}-${originalName}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+const MAX_TAGS = 20;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9 -]{0,39}$/;
+
+// Tags arrive as one comma-separated form field; null means the field is malformed
+function parseTags(value: unknown): string[] | null {
+  if (value === undefined || value === '') return [];
+  if (typeof value !== 'string') return null;
+
+  const tags = Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  return tags.length <= MAX_TAGS && tags.every(tag => TAG_PATTERN.test(tag)) ? tags : null;
+}
+
+// Re-uploading a file name into the same collection (or naming a documentId) adds a version
+async function resolveDocumentId(collection: string, originalName: string): Promise<string> {
+  const existing = await DocumentTrackingService.findByName(originalName, collection);
+  if (existing) return existing.documentId;
+
+  const base = toDocumentId(collection, originalName);
+  let documentId = base;
+  for (let suffix = 2; await DocumentTrackingService.getDocumentInfo(documentId); suffix++) {
+    documentId = `${base}-${suffix}`;
+  }
+  return documentId;
+}
+
+interface DuplicateDocument {
+  file: DocumentMetadata;
+  documentId: string;
+  collection: string;
+  version?: number;
+  info?: DocumentChunkInfo;
+  ingesting: boolean;
+}
+
+// A stored file with the same bytes whose chunks are (or are about to be) searchable.
+// Superseded versions and failed ingestions don't count, so reverting to earlier content still works
+async function findDuplicate(contentHash: string): Promise<DuplicateDocument | null> {
+  const matches = await DocumentStorageService.findByContentHash(contentHash);
+  if (matches.length === 0) return null;
+
+  const pendingJobs = await IngestionJobService.listJobs({ status: ['queued', 'chunking', 'embedding', 'indexing'] });
+
+  for (const file of matches) {
+    const info = await DocumentTrackingService.findDocument(file.id);
+    if (info) {
+      const version = info.versions.find(entry => entry.fileId === file.id);
+      if (version?.version === info.currentVersion) {
+        return { file, documentId: info.documentId, collection: info.collection, version: version.version, info, ingesting: false };
+      }
+      continue;
+    }
+
+    const job = pendingJobs.find(entry => entry.file.fileId === file.id);
+    if (job) {
+      return { file, documentId: job.documentId, collection: job.collection, ingesting: true };
+    }
+  }
+
+  return null;
+}
+
 router.post('/upload', upload.single('document'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    console.log('[DocumentAPI] Uploading document:', req.file.originalname);
+    const collection = typeof req.body?.collection === 'string' && req.body.collection.trim()
+      ? req.body.collection.trim().toLowerCase()
+      : DEFAULT_COLLECTION;
+
+    if (!isValidCollectionName(collection)) {
+      return res.status(400).json({
+        error: 'Invalid collection name',
+        details: 'Use 1-63 lowercase letters, digits or hyphens, starting with a letter or digit',
+      });
+    }
+
+    const tags = parseTags(req.body?.tags);
+    if (tags === null) {
+      return res.status(400).json({
+        error: 'Invalid tags',
+        details: `Use up to ${MAX_TAGS} comma-separated tags of letters, digits, spaces or hyphens`,
+      });
+    }
+
+    const requestedId = typeof req.body?.documentId === 'string' ? req.body.documentId.trim() : '';
+    const existing = requestedId ? await DocumentTrackingService.findDocument(requestedId) : null;
+
+    if (requestedId && !existing) {
+      return res.status(404).json({ error: 'Document not found', details: `No document with id ${requestedId}` });
+    }
+
+    // New versions stay in the collection of the document they replace
+    const documentId = existing?.documentId || await resolveDocumentId(collection, req.file.originalname);
+    const targetCollection = existing?.collection || collection;
+
+    // Identical content would add a second set of identical chunks; ?replace=true supersedes the existing copy
+    const replace = req.query.replace === 'true';
+    const duplicate = await findDuplicate(hashContent(req.file.buffer));
+
+    if (duplicate && (!replace || duplicate.ingesting)) {
+      const where = `${duplicate.file.originalName} in ${duplicate.collection}${duplicate.version ? ` (v${duplicate.version})` : ''}`;
+      return res.status(409).json({
+        error: 'Duplicate document',
+        details: duplicate.ingesting
+          ? `Same content as ${where}, which is still being ingested`
+          : `Same content as ${where}. Upload with ?replace=true to replace it`,
+        existingDocument: {
+          ...duplicate.file,
+          documentId: duplicate.documentId,
+          collection: duplicate.collection,
+          ...(duplicate.version && { version: duplicate.version }),
+          ingesting: duplicate.ingesting,
+        },
+      });
+    }
+
+    // Re-uploading into the duplicate's own document just adds a version; another document is
+    // removed by the ingestion job once the upload is committed
+    const replacesDocumentId = duplicate?.info && duplicate.documentId !== documentId ? duplicate.documentId : undefined;
+    if (replacesDocumentId) {
+      console.log(`[DocumentAPI] Duplicate document ${replacesDocumentId} will be replaced after ingestion`);
+    }
+
+    console.log(`[DocumentAPI] Uploading document: ${req.file.originalname} as ${documentId} into collection: ${targetCollection}`);
 
     const documentMetadata = await DocumentStorageService.uploadDocument(
       req.file.buffer,
@@ -44,44 +172,35 @@ router.post('/upload', upload.single('document'), async (req: Request, res: Resp
 
     console.log('[DocumentAPI] Document uploaded:', documentMetadata.id);
 
-    let textContent: string;
-    if (req.file.mimetype === 'text/plain' || req.file.mimetype === 'text/markdown') {
-      textContent = req.file.buffer.toString('utf-8');
-    } else {
-      return res.status(400).json({ 
-        error: 'PDF and DOCX parsing not yet implemented. Please upload .txt or .md files for now.',
-        document: documentMetadata 
-      });
-    }
-
-    console.log('[DocumentAPI] Processing document with Mastra RAG...');
-    const stats = await RAGService.processDocument(textContent, documentMetadata.id, {
-      maxSize: 4000,
-      overlap: 500,
+    // Chunking and embedding run in the background; progress is reported under /api/jobs
+    const job = await IngestionJobService.enqueue({
+      documentId,
+      collection: targetCollection,
+      ...(tags.length > 0 && { tags }),
+      ...(replacesDocumentId && { replacesDocumentId }),
+      file: {
+        fileId: documentMetadata.id,
+        originalName: documentMetadata.originalName,
+        mimeType: documentMetadata.mimeType,
+        size: documentMetadata.size,
+        url: documentMetadata.url,
+        uploadedAt: documentMetadata.uploadedAt,
+      },
     });
 
-    await DocumentTrackingService.addDocument(
-      documentMetadata.id,
-      documentMetadata.originalName,
-      stats.totalChunks,
-      stats.chunkIds
-    );
-
-    console.log('[DocumentAPI] ✅ Document processing complete');
-
-    res.json({
+    res.status(202).json({
       success: true,
-      document: documentMetadata,
-      processing: {
-        chunks: stats.totalChunks,
-        embeddings: stats.totalEmbeddings,
-        processingTime: stats.processingTime,
-      },
+      jobId: job.jobId,
+      job,
+      document: { ...documentMetadata, collection: targetCollection, documentId },
+      ...(duplicate && { replacedDocumentId: duplicate.documentId }),
+      statusUrl: `/api/jobs/${job.jobId}`,
+      eventsUrl: `/api/jobs/${job.jobId}/events`,
     });
   } catch (error) {
-    console.error('[DocumentAPI] Error processing document:', error);
+    console.error('[DocumentAPI] Error uploading document:', error);
     res.status(500).json({
-      error: 'Failed to process document',
+      error: 'Failed to upload document',
       details: error instanceof Error ? error.message : 'Unknown error',
     });
   }
@@ -90,7 +209,37 @@ router.post('/upload', upload.single('document'), async (req: Request, res: Resp
 router.get('/', async (req: Request, res: Response) => {
   try {
     console.log('[DocumentAPI] Listing documents...');
-    const documents = await DocumentStorageService.listDocuments();
+    const versionsByFile = new Map<string, { info: DocumentChunkInfo; version: number }>();
+    for (const info of await DocumentTrackingService.getAllDocuments()) {
+      for (const version of info.versions) {
+        if (version.fileId) versionsByFile.set(version.fileId, { info, version: version.version });
+      }
+    }
+    // Uploads still being ingested (or whose ingestion failed) are not tracked yet
+    const unfinishedJobs = await IngestionJobService.listJobs({ status: ['queued', 'chunking', 'embedding', 'indexing', 'failed'] });
+    const jobsByFile = new Map(unfinishedJobs.map(job => [job.file.fileId, job]));
+    const collectionFilter = typeof req.query.collection === 'string' ? req.query.collection : undefined;
+
+    // One entry per document: its current version. Earlier versions are listed under /:id/versions
+    const documents = (await DocumentStorageService.listDocuments())
+      .flatMap(doc => {
+        const tracked = versionsByFile.get(doc.id);
+        if (tracked && tracked.version !== tracked.info.currentVersion) return [];
+        const job = tracked ? undefined : jobsByFile.get(doc.id);
+        return [{
+          ...doc,
+          collection: tracked?.info.collection || job?.collection || DEFAULT_COLLECTION,
+          ...(tracked && {
+            documentId: tracked.info.documentId,
+            version: tracked.version,
+            versionCount: tracked.info.versions.length,
+          }),
+          ...(job && {
+            ingestion: { jobId: job.jobId, status: job.status, ...(job.error && { error: job.error }) },
+          }),
+        }];
+      })
+      .filter(doc => !collectionFilter || doc.collection === collectionFilter);
     
     res.json({
       success: true,
@@ -107,6 +256,144 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 
+router.get('/collections', async (req: Request, res: Response) => {
+  try {
+    const collections = await DocumentTrackingService.getCollections();
+
+    if (!collections.some(collection => collection.name === DEFAULT_COLLECTION)) {
+      collections.unshift({ name: DEFAULT_COLLECTION, documentCount: 0, chunkCount: 0 });
+    }
+
+    res.json({
+      success: true,
+      collections,
+      defaultCollection: DEFAULT_COLLECTION,
+    });
+  } catch (error) {
+    console.error('[DocumentAPI] Error listing collections:', error);
+    res.status(500).json({
+      error: 'Failed to list collections',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+
+router.get('/:id/versions', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const info = await DocumentTrackingService.findDocument(req.params.id);
+
+    if (!info) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const versions = [...info.versions]
+      .sort((a, b) => b.version - a.version)
+      .map(version => ({
+        ...version,
+        current: version.version === info.currentVersion,
+        ...(version.fileId && { downloadUrl: `/api/documents/${encodeURIComponent(version.fileId)}` }),
+      }));
+
+    res.json({
+      success: true,
+      documentId: info.documentId,
+      originalName: info.originalName,
+      collection: info.collection,
+      currentVersion: info.currentVersion,
+      versions,
+    });
+  } catch (error) {
+    console.error('[DocumentAPI] Error listing document versions:', error);
+    res.status(500).json({
+      error: 'Failed to list document versions',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+
+// Chunks of the current version as they were embedded, for debugging retrieval
+router.get('/:id/chunks', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const info = await DocumentTrackingService.findDocument(req.params.id);
+
+    if (!info) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const chunks = await RAGService.getDocumentChunks(info.chunkIds, info.collection);
+    const found = new Set(chunks.map(chunk => chunk.id));
+
+    res.json({
+      success: true,
+      documentId: info.documentId,
+      originalName: info.originalName,
+      collection: info.collection,
+      version: info.currentVersion,
+      chunkCount: chunks.length,
+      totalTokens: chunks.reduce((total, chunk) => total + chunk.tokenCount, 0),
+      missingChunkIds: info.chunkIds.filter(id => !found.has(id)),
+      chunks,
+    });
+  } catch (error) {
+    console.error('[DocumentAPI] Error listing document chunks:', error);
+    res.status(500).json({
+      error: 'Failed to list document chunks',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+
+// Extracted text of a version, in the form citation offsets (startOffset/endOffset) point into
+router.get('/:id/text', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const info = await DocumentTrackingService.findDocument(req.params.id);
+
+    if (!info) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const requestedVersion = typeof req.query.version === 'string' ? parseInt(req.query.version, 10) : info.currentVersion;
+    const version = info.versions.find(entry => entry.version === requestedVersion);
+
+    if (!version) {
+      return res.status(404).json({ error: `Version ${req.query.version} not found` });
+    }
+
+    let text: string;
+    if (version.fileId && version.mimeType) {
+      const parsed = await DocumentParserService.parse(
+        await DocumentStorageService.getDocument(version.fileId),
+        version.mimeType
+      );
+      text = joinSections(parsed.sections);
+    } else if (info.documentId === HANDBOOK_DOC_ID) {
+      // The seeded handbook is chunked straight from disk, so its offsets point into that file
+      text = await fs.readFile(envConfig.handbookPath, 'utf-8');
+    } else {
+      return res.status(404).json({ error: 'No stored file for this document version' });
+    }
+
+    res.json({
+      success: true,
+      documentId: info.documentId,
+      originalName: version.originalName,
+      collection: info.collection,
+      version: version.version,
+      text,
+    });
+  } catch (error) {
+    console.error('[DocumentAPI] Error extracting document text:', error);
+    res.status(500).json({
+      error: 'Failed to extract document text',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+
 router.get('/:filename', async (req: Request, res: Response) => {
   try {
     const { filename } = req.params;
@@ -132,24 +419,26 @@ router.get('/:filename', async (req: Request, res: Response) => {
 });
 
 
-router.delete('/:filename', async (req: Request, res: Response) => {
+router.delete('/:filename', async (req: Request<{ filename: string }>, res: Response) => {
   try {
     const { filename } = req.params;
     console.log('[DocumentAPI] Deleting document:', filename);
 
-    const chunkIds = await DocumentTrackingService.removeDocument(filename);
-    
-    if (chunkIds.length > 0) {
-      await RAGService.deleteDocumentChunks(chunkIds);
-      console.log(`[DocumentAPI] Deleted ${chunkIds.length} chunks from pm-handbook index`);
+    // Deleting any version (or the document ID) removes the whole document and its history
+    const info = await DocumentTrackingService.findDocument(filename);
+    let deletedChunks = 0;
+
+    if (info) {
+      deletedChunks = await IngestionJobService.removeDocument(info);
+    } else {
+      await DocumentStorageService.deleteDocument(filename);
     }
-    
-    await DocumentStorageService.deleteDocument(filename);
 
     res.json({
       success: true,
       message: 'Document and embeddings deleted successfully',
-      deletedChunks: chunkIds.length,
+      deletedChunks,
+      deletedVersions: info ? info.versions.length : 1,
     });
   } catch (error) {
     console.error('[DocumentAPI] Error deleting document:', error);
@@ -0,0 +1,114 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { IngestionJobService } from '../services/IngestionJobService';
+import { isTerminalJobStatus } from '../utils/jobHelpers';
+import type { IngestionJob } from '../types/job.types';
+
+const router = Router();
+
+const JobStatusSchema = z.enum(['queued', 'chunking', 'embedding', 'indexing', 'completed', 'failed']);
+
+// ?status=queued,embedding
+const ListJobsQuerySchema = z.object({
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()))
+    .pipe(z.array(JobStatusSchema))
+    .optional()
+});
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = ListJobsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        details: validationResult.error.issues.map((issue: z.ZodIssue) => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    const jobs = await IngestionJobService.listJobs(validationResult.data);
+
+    res.json({
+      success: true,
+      jobs,
+      count: jobs.length
+    });
+  } catch (error) {
+    console.error('[JobAPI] Error listing jobs:', error);
+    res.status(500).json({
+      error: 'Failed to list jobs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await IngestionJobService.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({ success: true, job });
+  } catch (error) {
+    console.error('[JobAPI] Error reading job:', error);
+    res.status(500).json({
+      error: 'Failed to read job',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// SSE: `progress` on every change, then `complete` or `failed` and `end`
+router.get('/:id/events', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await IngestionJobService.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    let unsubscribe = () => {};
+    const send = (update: IngestionJob) => {
+      if (!isTerminalJobStatus(update.status)) {
+        res.write(`event: progress\ndata: ${JSON.stringify(update)}\n\n`);
+        return;
+      }
+
+      res.write(`event: ${update.status === 'completed' ? 'complete' : 'failed'}\ndata: ${JSON.stringify(update)}\n\n`);
+      res.write(`event: end\ndata: ${JSON.stringify({ status: 'ended' })}\n\n`);
+      unsubscribe();
+      res.end();
+    };
+
+    unsubscribe = IngestionJobService.subscribe(job.jobId, send);
+    req.on('close', unsubscribe);
+
+    // The job may have finished between reading it and subscribing
+    send((await IngestionJobService.getJob(job.jobId)) || job);
+  } catch (error) {
+    console.error('[JobAPI] Error streaming job events:', error);
+
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Failed to stream job events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,230 @@
+import { Router, Request, Response, text } from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { getTeamStore } from '../storage/TeamStoreFactory';
+import { parseCsv } from '../utils/csv';
+import type { EmployeeInput } from '../types/team.types';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1 * 1024 * 1024,
+  },
+});
+
+const EmployeeStatusSchema = z.enum(['Available', 'On-Project']);
+
+const SkillSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  proficiency: z.coerce.number().int().min(1).max(5)
+});
+
+const AllocationSchema = z.object({
+  projectName: z.string().trim().min(1).max(200),
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'weekStart must be an ISO date (YYYY-MM-DD)'),
+  hours: z.coerce.number().min(0).max(168)
+});
+
+const EmployeeInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  role: z.string().trim().min(1, 'Role is required').max(200),
+  seniority: z.enum(['Junior', 'Mid', 'Senior', 'Lead', 'Principal']).optional(),
+  skills: z.array(SkillSchema).optional(),
+  location: z.string().trim().max(200).optional(),
+  timezone: z.string().trim().max(100).optional(),
+  status: EmployeeStatusSchema,
+  hoursAvailable: z.coerce.number().min(0).max(168),
+  allocations: z.array(AllocationSchema).optional()
+});
+
+const EmployeeUpdateSchema = EmployeeInputSchema.partial();
+
+const ListEmployeesQuerySchema = z.object({
+  search: z.string().optional(),
+  status: EmployeeStatusSchema.optional()
+});
+
+const ImportModeSchema = z.enum(['merge', 'replace']).default('merge');
+
+const CSV_COLUMNS = ['name', 'role', 'status', 'hoursAvailable'] as const;
+
+// Optional CSV columns: seniority, location, timezone and skills as "Python:5;LLM:4"
+function parseSkillsColumn(value: string | undefined) {
+  if (!value) return undefined;
+  return value.split(';').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [name, proficiency = '3'] = entry.split(':').map(part => part.trim());
+    return { name, proficiency };
+  });
+}
+
+const teamStore = getTeamStore();
+
+function formatIssues(issues: z.ZodIssue[]) {
+  return issues.map((issue: z.ZodIssue) => ({
+    field: issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = ListEmployeesQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: 'Invalid query', details: formatIssues(validationResult.error.issues) });
+    }
+
+    const employees = await teamStore.listEmployees(validationResult.data);
+
+    res.json({
+      success: true,
+      employees,
+      count: employees.length
+    });
+  } catch (error) {
+    console.error('[TeamAPI] Error listing employees:', error);
+    res.status(500).json({
+      error: 'Failed to list employees',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/import', text({ type: 'text/csv', limit: '1mb' }), upload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const csvText = req.file
+      ? req.file.buffer.toString('utf-8')
+      : typeof req.body === 'string' ? req.body : '';
+
+    if (!csvText.trim()) {
+      return res.status(400).json({ error: 'No CSV provided. Upload a "file" field or send a text/csv body.' });
+    }
+
+    const modeResult = ImportModeSchema.safeParse(req.query.mode);
+    if (!modeResult.success) {
+      return res.status(400).json({ error: 'Invalid import mode', details: formatIssues(modeResult.error.issues) });
+    }
+
+    const [header, ...rows] = parseCsv(csvText);
+    const columns = header.map(column => column.trim());
+    const missing = CSV_COLUMNS.filter(column => !columns.includes(column));
+
+    if (missing.length > 0) {
+      return res.status(400).json({ error: `CSV is missing required columns: ${missing.join(', ')}` });
+    }
+
+    const employees: EmployeeInput[] = [];
+    const errors: Array<{ row: number; field: string; message: string }> = [];
+
+    rows.forEach((values, idx) => {
+      const record: Record<string, unknown> = Object.fromEntries(
+        columns.map((column, col) => [column, values[col]?.trim() || undefined])
+      );
+      record.skills = parseSkillsColumn(record.skills as string | undefined);
+      const result = EmployeeInputSchema.safeParse(record);
+
+      if (result.success) {
+        employees.push(result.data);
+      } else {
+        // +2: header row and 1-based numbering
+        errors.push(...formatIssues(result.error.issues).map(issue => ({ row: idx + 2, ...issue })));
+      }
+    });
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'CSV contains invalid rows', details: errors });
+    }
+
+    const result = await teamStore.importEmployees(employees, modeResult.data);
+    console.log(`[TeamAPI] Imported ${employees.length} employees (${modeResult.data}):`, result);
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[TeamAPI] Error importing employees:', error);
+    res.status(500).json({
+      error: 'Failed to import employees',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const employee = await teamStore.getEmployee(req.params.id);
+
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    res.json({ success: true, employee });
+  } catch (error) {
+    console.error('[TeamAPI] Error reading employee:', error);
+    res.status(500).json({
+      error: 'Failed to read employee',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = EmployeeInputSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: 'Invalid request body', details: formatIssues(validationResult.error.issues) });
+    }
+
+    const employee = await teamStore.createEmployee(validationResult.data);
+    res.status(201).json({ success: true, employee });
+  } catch (error) {
+    console.error('[TeamAPI] Error creating employee:', error);
+    res.status(500).json({
+      error: 'Failed to create employee',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.patch('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const validationResult = EmployeeUpdateSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: 'Invalid request body', details: formatIssues(validationResult.error.issues) });
+    }
+
+    const employee = await teamStore.updateEmployee(req.params.id, validationResult.data);
+
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    console.log('[TeamAPI] Updated employee:', employee.name);
+    res.json({ success: true, employee });
+  } catch (error) {
+    console.error('[TeamAPI] Error updating employee:', error);
+    res.status(500).json({
+      error: 'Failed to update employee',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const deleted = await teamStore.deleteEmployee(req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    res.json({ success: true, message: 'Employee removed' });
+  } catch (error) {
+    console.error('[TeamAPI] Error deleting employee:', error);
+    res.status(500).json({
+      error: 'Failed to delete employee',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
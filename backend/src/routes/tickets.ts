@@ -0,0 +1,129 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { getTicketStore } from '../storage/TicketStoreFactory';
+
+const router = Router();
+
+const TicketStatusSchema = z.enum(['open', 'in-progress', 'blocked', 'closed']);
+
+const ListTicketsQuerySchema = z.object({
+  status: TicketStatusSchema.optional(),
+  assignee: z.string().optional(),
+  projectName: z.string().optional()
+});
+
+const UpdateTicketSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  assignee: z.string().min(1).optional(),
+  projectName: z.string().optional(),
+  description: z.string().max(5000).optional(),
+  status: z.enum(['open', 'in-progress', 'blocked']).optional(),
+  note: z.string().min(1).max(2000).optional()
+});
+
+const CloseTicketSchema = z.object({
+  resolution: z.string().max(2000).optional()
+});
+
+const ticketStore = getTicketStore();
+
+function validationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: 'Invalid request',
+    details: error.issues.map((issue: z.ZodIssue) => ({
+      field: issue.path.join('.'),
+      message: issue.message
+    }))
+  });
+}
+
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = ListTicketsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const tickets = await ticketStore.listTickets(validationResult.data);
+
+    res.json({
+      success: true,
+      tickets,
+      count: tickets.length
+    });
+  } catch (error) {
+    console.error('[TicketAPI] Error listing tickets:', error);
+    res.status(500).json({
+      error: 'Failed to list tickets',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:ticketId', async (req: Request<{ ticketId: string }>, res: Response) => {
+  try {
+    const ticket = await ticketStore.getTicket(req.params.ticketId);
+
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    res.json({ success: true, ticket });
+  } catch (error) {
+    console.error('[TicketAPI] Error reading ticket:', error);
+    res.status(500).json({
+      error: 'Failed to read ticket',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.patch('/:ticketId', async (req: Request<{ ticketId: string }>, res: Response) => {
+  try {
+    const validationResult = UpdateTicketSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const ticket = await ticketStore.updateTicket(req.params.ticketId, validationResult.data);
+
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    console.log('[TicketAPI] Updated ticket:', ticket.ticketId);
+    res.json({ success: true, ticket });
+  } catch (error) {
+    console.error('[TicketAPI] Error updating ticket:', error);
+    res.status(500).json({
+      error: 'Failed to update ticket',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/:ticketId/close', async (req: Request<{ ticketId: string }>, res: Response) => {
+  try {
+    const validationResult = CloseTicketSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    const ticket = await ticketStore.closeTicket(req.params.ticketId, validationResult.data.resolution);
+
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    console.log('[TicketAPI] Closed ticket:', ticket.ticketId);
+    res.json({ success: true, ticket });
+  } catch (error) {
+    console.error('[TicketAPI] Error closing ticket:', error);
+    res.status(500).json({
+      error: 'Failed to close ticket',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
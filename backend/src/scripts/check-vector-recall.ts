@@ -0,0 +1,65 @@
+/**
+ * Check Vector Recall - HNSW index vs brute-force search
+ *
+ * For every local index (or the ones named on the command line), samples stored
+ * vectors as queries and reports the share of the exact top-k the HNSW graph finds.
+ * Exits non-zero when an index falls below the minimum recall.
+ *
+ * Run: npm run check-recall [-- <index> ...] [--top-k=10] [--samples=100] [--min-recall=0.95]
+ */
+
+import { vectorStore } from '../services/VectorStore';
+import { envConfig } from '../config/environment';
+
+function readOption(name: string, fallback: number): number {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  const parsed = arg ? Number(arg.split('=')[1]) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+async function checkVectorRecall() {
+  if (envConfig.storageType !== 'local') {
+    console.error('❌ Recall checks apply to the local vector store (VECTOR_STORAGE_TYPE=local)');
+    process.exit(1);
+  }
+
+  const topK = readOption('top-k', 10);
+  const sampleSize = readOption('samples', 100);
+  const minRecall = readOption('min-recall', 0.95);
+
+  await vectorStore.initialize();
+
+  const requested = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  const indexes = requested.length > 0 ? requested : await vectorStore.listIndexes();
+
+  if (indexes.length === 0) {
+    console.log('No local indexes found. Run npm run init-embeddings first.');
+    return;
+  }
+
+  console.log(`\n🔍 HNSW recall@${topK} vs brute force (${sampleSize} sample queries per index)\n`);
+
+  let failed = false;
+  for (const indexName of indexes) {
+    const check = await vectorStore.checkRecall({ indexName, sampleSize, topK });
+    const passed = check.recall >= minRecall;
+    failed ||= !passed;
+
+    console.log(`${passed ? '✅' : '❌'} ${indexName.padEnd(24)} ${String(check.count).padStart(7)} vectors   recall ${check.recall.toFixed(3)} (${check.queries} queries)`);
+  }
+
+  console.log(`\nMinimum recall: ${minRecall}\n`);
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+// Run
+checkVectorRecall()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Fatal:', error);
+    process.exit(1);
+  });
+
+export { checkVectorRecall };
@@ -0,0 +1,351 @@
+/**
+ * Evaluate Retrieval - golden questions against the handbook
+ *
+ * Ingests the handbook into a scratch collection per chunking setup (named after the
+ * embedding model and handbook content too, and rebuilt on every run), runs every question
+ * of the golden set (docs/PM_handbook.golden.json) through RAGService.search and scores
+ * the ranked chunks against the sections expected to answer it: recall@k, MRR and nDCG@k.
+ * Works with any embedding provider, including the offline hashing embedder. Local vector
+ * storage only: scratch chunks must never land in the shared Cosmos container.
+ *
+ * Each --config is one column of the report; give two to compare them side by side.
+ * Settings: chunkSize, overlap, threshold (OpenAI scale, calibrated like the RAG tool),
+ * mode (vector|keyword|hybrid), rerank (local|llm|none), rewrite (rules|llm|none).
+ * To compare embedding models, save a report with --out and pass it to the next run
+ * (with another EMBEDDING_PROVIDER / EMBEDDING_MODEL) as --baseline.
+ *
+ * Run: npm run eval-retrieval [-- --config=<name>:<key>=<value>,... ...] [--k=1,3,5]
+ *        [--golden=docs/PM_handbook.golden.json] [--baseline=report.json] [--out=report.json]
+ *        [--verbose]
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { RAGService, type SearchResult } from '../services/RAGService';
+import { EmbeddingService } from '../services/EmbeddingService';
+import { embeddingCache } from '../services/EmbeddingCache';
+import { QueryRewriteService } from '../services/QueryRewriteService';
+import { envConfig } from '../config/environment';
+
+const DEFAULT_GOLDEN_SET = path.join(path.dirname(envConfig.handbookPath), 'PM_handbook.golden.json');
+const SCRATCH_PREFIX = 'eval-';
+
+const GoldenSetSchema = z.object({
+  version: z.number().int().positive(),
+  document: z.string(),
+  description: z.string().optional(),
+  questions: z.array(z.object({
+    id: z.string().min(1),
+    question: z.string().min(1),
+    sections: z.array(z.string().regex(/^\d+(\.\d+)*$/, 'Expected a section number such as "2.1"')).min(1),
+  })).min(1),
+});
+
+const EvalConfigSchema = z.strictObject({
+  name: z.string().min(1),
+  chunkSize: z.coerce.number().int().min(200).default(4000),
+  overlap: z.coerce.number().int().min(0).default(500),
+  threshold: z.coerce.number().min(0).max(1).default(0.4),
+  mode: z.enum(['vector', 'keyword', 'hybrid']).default('hybrid'),
+  rerank: z.enum(['local', 'llm', 'none']).default(envConfig.rerankProvider),
+  rewrite: z.enum(['rules', 'llm', 'none']).default('none'),
+});
+
+type GoldenSet = z.infer<typeof GoldenSetSchema>;
+type EvalConfig = z.infer<typeof EvalConfigSchema>;
+
+interface QuestionResult {
+  id: string;
+  firstRelevantRank: number | null; // 1-based, null when no expected section was retrieved
+  found: string[];
+  missed: string[];
+  retrieved: Array<string | null>; // section number of each ranked chunk
+}
+
+interface ConfigReport {
+  name: string;
+  settings: Omit<EvalConfig, 'name'>;
+  embeddingModel: string;
+  metrics: Record<string, number>;
+  questions: QuestionResult[];
+}
+
+interface EvaluationReport {
+  goldenSet: { path: string; version: number; questions: number };
+  k: number[];
+  createdAt: string;
+  configs: ConfigReport[];
+}
+
+function readOption(name: string): string | undefined {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+function readConfigs(): EvalConfig[] {
+  const specs = process.argv.filter(value => value.startsWith('--config=')).map(value => value.slice('--config='.length));
+  if (specs.length === 0) specs.push('default:');
+
+  return specs.map((spec, idx) => {
+    const [name, settings = ''] = spec.includes(':') ? spec.split(/:(.*)/s) : [`config-${idx + 1}`, spec];
+    const entries = settings.split(',').filter(Boolean).map(setting => setting.split('=').map(part => part.trim()));
+
+    const parsed = EvalConfigSchema.safeParse({ name: name || `config-${idx + 1}`, ...Object.fromEntries(entries) });
+    if (!parsed.success) {
+      throw new Error(`Invalid --config "${spec}": ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'} ${issue.message}`).join('; ')}`);
+    }
+    return parsed.data;
+  });
+}
+
+// A chunk of section 2.1 answers a question expecting "2.1" or its chapter "2"
+function matchSection(chunkSection: string | null, expected: string[]): string | undefined {
+  if (!chunkSection) return undefined;
+  return expected.find(section => chunkSection === section || chunkSection.startsWith(`${section}.`));
+}
+
+function scoreQuestion(id: string, expected: string[], results: SearchResult[]): QuestionResult {
+  const retrieved = results.map(result => typeof result.metadata?.sectionNumber === 'string' ? result.metadata.sectionNumber : null);
+  const found: string[] = [];
+  let firstRelevantRank: number | null = null;
+
+  retrieved.forEach((section, idx) => {
+    const match = matchSection(section, expected);
+    if (!match) return;
+    firstRelevantRank ??= idx + 1;
+    if (!found.includes(match)) found.push(match);
+  });
+
+  return { id, firstRelevantRank, found, missed: expected.filter(section => !found.includes(section)), retrieved };
+}
+
+/**
+ * Binary relevance: each expected section counts once, at the rank of its first chunk,
+ * so several chunks of one long section do not inflate recall or nDCG.
+ */
+function computeMetrics(golden: GoldenSet, questions: QuestionResult[], ks: number[]): Record<string, number> {
+  const metrics: Record<string, number> = {};
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const credited = questions.map((result, idx) => {
+    const expected = golden.questions[idx].sections;
+    const seen = new Set<string>();
+    return result.retrieved.map(section => {
+      const match = matchSection(section, expected);
+      if (!match || seen.has(match)) return 0;
+      seen.add(match);
+      return 1;
+    });
+  });
+
+  for (const k of ks) {
+    metrics[`recall@${k}`] = mean(credited.map((gains, idx) =>
+      gains.slice(0, k).reduce((sum: number, gain) => sum + gain, 0) / golden.questions[idx].sections.length
+    ));
+  }
+
+  metrics.mrr = mean(questions.map(result => result.firstRelevantRank ? 1 / result.firstRelevantRank : 0));
+
+  for (const k of ks) {
+    metrics[`ndcg@${k}`] = mean(credited.map((gains, idx) => {
+      const dcg = gains.slice(0, k).reduce((sum: number, gain, rank) => sum + gain / Math.log2(rank + 2), 0);
+      const ideal = Math.min(k, golden.questions[idx].sections.length);
+      let idcg = 0;
+      for (let rank = 0; rank < ideal; rank++) idcg += 1 / Math.log2(rank + 2);
+      return dcg / idcg;
+    }));
+  }
+
+  for (const key of Object.keys(metrics)) {
+    metrics[key] = Math.round(metrics[key] * 1000) / 1000;
+  }
+  return metrics;
+}
+
+// Slug-safe and unique per embedding model, handbook content and chunking setup
+function scratchCollectionName(content: string, config: EvalConfig): string {
+  const hash = createHash('sha256').update(`${EmbeddingService.modelId}\n${content}`).digest('hex').slice(0, 10);
+  return `${SCRATCH_PREFIX}${config.chunkSize}-${config.overlap}-${hash}`;
+}
+
+async function ingestScratchCollection(content: string, config: EvalConfig, built: Set<string>): Promise<string> {
+  const collection = scratchCollectionName(content, config);
+  if (built.has(collection)) {
+    return collection;
+  }
+
+  // A leftover from an interrupted run may be incomplete, so it is rebuilt rather than reused
+  if ((await RAGService.listIndexes()).includes(collection)) {
+    await RAGService.deleteIndex(collection);
+  }
+  built.add(collection);
+
+  // Chunk embeddings come from the embedding cache after the first run
+  const stats = await RAGService.processDocument(content, 'pm-handbook-eval', {
+    maxSize: config.chunkSize,
+    overlap: config.overlap,
+    collection,
+    documentMetadata: { filename: path.basename(envConfig.handbookPath) },
+  });
+  console.info(`📚 ${collection}: ${stats.totalChunks} chunks (${stats.cachedChunks} from cache)`);
+  return collection;
+}
+
+async function runConfig(golden: GoldenSet, content: string, config: EvalConfig, ks: number[], built: Set<string>): Promise<ConfigReport> {
+  const collection = await ingestScratchCollection(content, config, built);
+  const topK = Math.max(...ks);
+  const options = {
+    indexName: collection,
+    topK,
+    threshold: EmbeddingService.calibrateThreshold(config.threshold),
+    mode: config.mode,
+    rerank: config.rerank,
+  };
+
+  const questions: QuestionResult[] = [];
+  for (const entry of golden.questions) {
+    const results = config.rewrite === 'none'
+      ? await RAGService.search(entry.question, options)
+      : await RAGService.searchMany(
+          (await QueryRewriteService.rewrite(entry.question, { provider: config.rewrite })).map(rewrite => rewrite.query),
+          options
+        );
+    questions.push(scoreQuestion(entry.id, entry.sections, results));
+  }
+
+  const { name, ...settings } = config;
+  return { name, settings, embeddingModel: EmbeddingService.modelId, metrics: computeMetrics(golden, questions, ks), questions };
+}
+
+function printTable(report: EvaluationReport, configs: ConfigReport[]): void {
+  // A baseline may have been run with other k values
+  const metricNames = Array.from(new Set(configs.flatMap(config => Object.keys(config.metrics))));
+  const width = Math.max(12, ...configs.map(config => config.name.length + 2));
+  const compare = configs.length === 2;
+
+  const header = 'metric'.padEnd(12) + configs.map(config => config.name.padStart(width)).join('') + (compare ? 'Δ'.padStart(10) : '');
+  console.info(`\n📊 Golden set v${report.goldenSet.version} (${report.goldenSet.questions} questions)\n`);
+  console.info(header);
+  console.info('-'.repeat(header.length));
+
+  for (const metric of metricNames) {
+    const values = configs.map(config => config.metrics[metric]);
+    const delta = compare && values.every(value => value !== undefined) ? values[1] - values[0] : null;
+    console.info(
+      metric.padEnd(12) +
+      values.map(value => (value === undefined ? '-' : value.toFixed(3)).padStart(width)).join('') +
+      (delta !== null ? `${delta > 0 ? '+' : ''}${delta.toFixed(3)}`.padStart(10) : '')
+    );
+  }
+
+  console.info('');
+  for (const config of configs) {
+    const { chunkSize, overlap, threshold, mode, rerank, rewrite } = config.settings;
+    console.info(`${config.name}: ${config.embeddingModel}, chunkSize=${chunkSize}, overlap=${overlap}, threshold=${threshold}, mode=${mode}, rerank=${rerank}, rewrite=${rewrite}`);
+  }
+
+  const topK = Math.max(...report.k);
+  for (const config of configs) {
+    const misses = config.questions.filter(question => question.firstRelevantRank === null);
+    if (misses.length > 0) {
+      console.info(`\n❌ ${config.name} missed (no expected section in the top ${topK}): ${misses.map(question => question.id).join(', ')}`);
+    }
+  }
+
+  if (compare) {
+    const [before, after] = configs;
+    const rankOf = (config: ConfigReport, id: string) => config.questions.find(question => question.id === id)?.firstRelevantRank ?? null;
+    const changed = before.questions
+      .map(question => ({ id: question.id, from: question.firstRelevantRank, to: rankOf(after, question.id) }))
+      .filter(change => change.from !== change.to);
+
+    if (changed.length > 0) {
+      console.info(`\n🔀 First relevant rank changed (${before.name} → ${after.name}):`);
+      for (const change of changed) {
+        console.info(`   ${change.id.padEnd(32)} ${change.from ?? '-'} → ${change.to ?? '-'}`);
+      }
+    }
+  }
+  console.info('');
+}
+
+async function evaluateRetrieval() {
+  if (envConfig.storageType !== 'local') {
+    throw new Error('Retrieval evaluation needs VECTOR_STORAGE_TYPE=local; it would write scratch collections into the Cosmos container');
+  }
+  const goldenPath = readOption('golden') ?? DEFAULT_GOLDEN_SET;
+  const ks = (readOption('k') ?? '1,3,5').split(',').map(Number).filter(k => Number.isInteger(k) && k > 0);
+  if (ks.length === 0) {
+    throw new Error('--k expects a comma-separated list of positive integers, e.g. --k=1,3,5');
+  }
+  const configs = readConfigs();
+  const baselinePath = readOption('baseline');
+  const outPath = readOption('out');
+  const verbose = process.argv.includes('--verbose');
+
+  const parsed = GoldenSetSchema.safeParse(JSON.parse(await fs.readFile(goldenPath, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid golden set ${goldenPath}: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+  }
+  const golden = parsed.data;
+  const content = await fs.readFile(envConfig.handbookPath, 'utf-8');
+
+  console.info(`\n🧪 Retrieval evaluation: ${golden.questions.length} questions, ${configs.length} configuration(s), embeddings ${EmbeddingService.modelId}\n`);
+
+  // Service logs would bury the report; --verbose keeps them
+  const log = console.log;
+  if (!verbose) console.log = () => {};
+
+  const report: EvaluationReport = {
+    goldenSet: { path: goldenPath, version: golden.version, questions: golden.questions.length },
+    k: ks,
+    createdAt: new Date().toISOString(),
+    configs: [],
+  };
+  const scratchCollections = new Set<string>();
+
+  try {
+    await RAGService.initialize();
+
+    for (const config of configs) {
+      report.configs.push(await runConfig(golden, content, config, ks, scratchCollections));
+    }
+  } finally {
+    for (const collection of scratchCollections) {
+      await RAGService.deleteIndex(collection);
+    }
+    await embeddingCache.flush();
+    console.log = log;
+  }
+
+  const columns = [...report.configs];
+  if (baselinePath) {
+    const baseline: EvaluationReport = JSON.parse(await fs.readFile(baselinePath, 'utf-8'));
+    if (baseline.goldenSet.version !== golden.version) {
+      console.warn(`⚠️  Baseline was run against golden set v${baseline.goldenSet.version}, this run uses v${golden.version}`);
+    }
+    columns.unshift(...baseline.configs.map(config => ({ ...config, name: `baseline:${config.name}` })));
+  }
+
+  printTable(report, columns);
+
+  const json = JSON.stringify(report, null, 2);
+  if (outPath) {
+    await fs.writeFile(outPath, json);
+    console.info(`💾 Report written to ${outPath}\n`);
+  } else {
+    console.info(json);
+  }
+}
+
+// Run
+evaluateRetrieval()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Fatal:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+
+export { evaluateRetrieval };
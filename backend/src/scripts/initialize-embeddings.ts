@@ -1,26 +1,28 @@
 /**
  * Initialize Embeddings - Simplified Mastra RAG approach
  * 
- * Uses direct Mastra APIs:
- * - MDocument.chunk() for intelligent chunking
- * - OpenAI embeddings
- * - Vector store upsert
+ * Pipeline:
+ * - Section-aware chunking (numbered headings, underline rules, TOC)
+ * - Configured embedding provider (OpenAI, OpenAI-compatible or offline hashing)
+ * - Mastra vector store upsert
  * 
  * Run: npm run init-embeddings
  */
 
 import fs from 'fs/promises';
-import { RAGService } from '../services/RAGService';
+import { RAGService, DEFAULT_COLLECTION, HANDBOOK_DOC_ID } from '../services/RAGService';
 import { DocumentTrackingService } from '../services/DocumentTrackingService';
+import { EmbeddingService } from '../services/EmbeddingService';
+import { embeddingCache } from '../services/EmbeddingCache';
+import { vectorStore } from '../services/VectorStore';
 import { envConfig } from '../config/environment';
 
-const COLLECTION_NAME = 'pm-handbook';
-const HANDBOOK_DOC_ID = 'pm-handbook-initial';
+const COLLECTION_NAME = DEFAULT_COLLECTION;
 
 async function initializeEmbeddings() {
   console.log('\n🚀 Mastra RAG Initialization (Simplified)\n');
   console.log(`Environment:`);
-  console.log(`  OpenAI: ${envConfig.openAIKey ? '✅' : '❌'}`);
+  console.log(`  Embeddings: ${EmbeddingService.modelId}`);
   console.log(`  Handbook: ${envConfig.handbookPath}`);
   console.log(`  Storage: ${envConfig.storageType}\n`);
   
@@ -43,17 +45,22 @@ async function initializeEmbeddings() {
     const stats = await RAGService.processDocument(content, HANDBOOK_DOC_ID, {
       maxSize: 4000,
       overlap: 500,
+      collection: COLLECTION_NAME,
+      documentMetadata: { filename: 'PM_handbook.txt', uploadedAt: new Date().toISOString() },
     });
-    console.log(`✅ Complete: ${stats.totalChunks} chunks, ${stats.totalEmbeddings} embeddings (${stats.processingTime}ms)\n`);
+    console.log(`✅ Complete: ${stats.totalChunks} chunks, ${stats.totalEmbeddings} embeddings, ${stats.cachedChunks} from cache (${stats.processingTime}ms)\n`);
     
     // Track the handbook document
     await DocumentTrackingService.addDocument(
       HANDBOOK_DOC_ID,
       'PM_handbook.txt',
       stats.totalChunks,
-      stats.chunkIds
+      stats.chunkIds,
+      COLLECTION_NAME
     );
     console.log(`✅ Tracked handbook document\n`);
+    await embeddingCache.flush();
+    await vectorStore.flush();
     
     // Verify
     console.log('📊 Verifying...');
@@ -3,16 +3,19 @@ import cors from 'cors';
 import fs from 'fs/promises';
 import { envConfig } from './config/environment';
 import { DocumentStorageService } from './services/DocumentStorageService';
-import { RAGService } from './services/RAGService';
+import { RAGService, HANDBOOK_DOC_ID } from './services/RAGService';
 import { DocumentTrackingService } from './services/DocumentTrackingService';
+import { IngestionJobService } from './services/IngestionJobService';
 import documentRoutes from './routes/documents';
 import chatRoutes from './routes/chat';
+import ticketRoutes from './routes/tickets';
+import teamRoutes from './routes/team';
+import changeRequestRoutes from './routes/changeRequests';
+import jobRoutes from './routes/jobs';
 
 const app = express();
 const port = envConfig.port;
 
-const HANDBOOK_DOC_ID = 'pm-handbook-initial';
-
 
 app.use(cors({
   origin: envConfig.allowedOrigins as unknown as string[],
@@ -26,6 +29,7 @@ app.use(express.json());
     await DocumentStorageService.initialize();
     await DocumentTrackingService.initialize();
     await RAGService.initialize();
+    await IngestionJobService.initialize();
     console.log('✅ Services initialized successfully');
 
     await initializePMHandbook();
@@ -37,6 +41,10 @@ app.use(express.json());
 
 app.use('/api/documents', documentRoutes);
 app.use('/api/chat', chatRoutes);
+app.use('/api/tickets', ticketRoutes);
+app.use('/api/team', teamRoutes);
+app.use('/api/change-requests', changeRequestRoutes);
+app.use('/api/jobs', jobRoutes);
 
 app.get('/api/health', (req, res) => {
   res.json({ 
@@ -65,7 +73,7 @@ async function initializePMHandbook() {
     console.log('\n📚 Checking PM Handbook embeddings...');
 
     const trackedDocs = await DocumentTrackingService.getAllDocuments();
-    const handbookExists = trackedDocs.some((doc: any) => doc.id === HANDBOOK_DOC_ID);
+    const handbookExists = trackedDocs.some(doc => doc.documentId === HANDBOOK_DOC_ID);
     
     if (handbookExists) {
       console.log('✅ PM Handbook already initialized\n');
@@ -81,6 +89,7 @@ async function initializePMHandbook() {
     const stats = await RAGService.processDocument(content, HANDBOOK_DOC_ID, {
       maxSize: 4000,
       overlap: 500,
+      documentMetadata: { filename: 'PM_handbook.txt', uploadedAt: new Date().toISOString() },
     });
     
     const duration = Date.now() - startTime;
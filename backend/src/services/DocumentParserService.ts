@@ -0,0 +1,98 @@
+import { extractText } from 'unpdf';
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { wordHtmlToSections } from '../utils/wordHtmlToSections';
+
+export interface DocumentSection {
+  text: string;
+  metadata: Record<string, any>;
+}
+
+export interface ParsedDocument {
+  sections: DocumentSection[];
+  pageCount?: number;
+}
+
+export class UnsupportedDocumentTypeError extends Error {
+  constructor(public readonly mimeType: string) {
+    super(`Parsing is not supported for documents of type ${mimeType}`);
+    this.name = 'UnsupportedDocumentTypeError';
+  }
+}
+
+export class DocumentParserService {
+  static async parse(fileBuffer: Buffer, mimeType: string): Promise<ParsedDocument> {
+    switch (mimeType) {
+      case 'text/plain':
+      case 'text/markdown':
+        return this.parseText(fileBuffer);
+      case 'application/pdf':
+        return await this.parsePdf(fileBuffer);
+      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+        return await this.parseDocx(fileBuffer);
+      case 'application/msword':
+        return await this.parseDoc(fileBuffer);
+      default:
+        throw new UnsupportedDocumentTypeError(mimeType);
+    }
+  }
+
+  private static parseText(fileBuffer: Buffer): ParsedDocument {
+    return {
+      sections: [{ text: fileBuffer.toString('utf-8'), metadata: {} }],
+    };
+  }
+
+  private static async parsePdf(fileBuffer: Buffer): Promise<ParsedDocument> {
+    const { totalPages, text } = await extractText(new Uint8Array(fileBuffer), { mergePages: false });
+
+    // One section per page so every chunk can carry the page it came from
+    const sections = text
+      .map((pageText, idx) => ({
+        text: pageText.trim(),
+        metadata: { pageNumber: idx + 1 },
+      }))
+      .filter(section => section.text.length > 0);
+
+    if (sections.length === 0) {
+      throw new Error('No extractable text found in PDF (scanned documents are not supported)');
+    }
+
+    console.log(`[DocumentParser] Extracted text from ${sections.length}/${totalPages} PDF pages`);
+
+    return { sections, pageCount: totalPages };
+  }
+
+  private static async parseDocx(fileBuffer: Buffer): Promise<ParsedDocument> {
+    const result = await mammoth.convertToHtml({ buffer: fileBuffer });
+
+    if (result.messages.length > 0) {
+      console.warn(`[DocumentParser] DOCX conversion produced ${result.messages.length} warnings`);
+    }
+
+    const sections = wordHtmlToSections(result.value);
+
+    if (sections.length === 0) {
+      throw new Error('No extractable text found in Word document');
+    }
+
+    console.log(`[DocumentParser] Extracted ${sections.length} heading sections from DOCX`);
+
+    return { sections };
+  }
+
+  private static async parseDoc(fileBuffer: Buffer): Promise<ParsedDocument> {
+    // Legacy .doc files expose no style information, so the body is indexed as a single section
+    const extractor = new WordExtractor();
+    const document = await extractor.extract(fileBuffer);
+    const text = document.getBody().replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+    if (!text) {
+      throw new Error('No extractable text found in Word document');
+    }
+
+    return {
+      sections: [{ text, metadata: { headingPath: [] } }],
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { envConfig } from '../config/environment';
@@ -11,6 +12,11 @@ export interface DocumentMetadata {
   mimeType: string;
   uploadedAt: string;
   url: string;
+  contentHash?: string; // sha256 of the file bytes (absent on files stored before hashing)
+}
+
+export function hashContent(fileBuffer: Buffer): string {
+  return crypto.createHash('sha256').update(fileBuffer).digest('hex');
 }
 
 export class DocumentStorageService {
@@ -63,11 +69,49 @@ export class DocumentStorageService {
   ): Promise<DocumentMetadata> {
     const id = `${Date.now()}-${filename}`;
     const uploadedAt = new Date().toISOString();
+    const contentHash = hashContent(fileBuffer);
 
     if (envConfig.storageMode === 'local') {
-      return await this.uploadLocal(fileBuffer, id, filename, mimeType, uploadedAt);
+      return await this.uploadLocal(fileBuffer, id, filename, mimeType, uploadedAt, contentHash);
     } else {
-      return await this.uploadBlob(fileBuffer, id, filename, mimeType, uploadedAt);
+      return await this.uploadBlob(fileBuffer, id, filename, mimeType, uploadedAt, contentHash);
+    }
+  }
+
+  // Stored files with exactly these bytes, newest first. Files stored before hashing are hashed on first lookup
+  static async findByContentHash(contentHash: string): Promise<DocumentMetadata[]> {
+    const matches: DocumentMetadata[] = [];
+
+    for (const document of await this.listDocuments()) {
+      const hash = document.contentHash || await this.backfillContentHash(document);
+      if (hash === contentHash) {
+        matches.push({ ...document, contentHash: hash });
+      }
+    }
+
+    return matches;
+  }
+
+  private static async backfillContentHash(document: DocumentMetadata): Promise<string | undefined> {
+    try {
+      const contentHash = hashContent(await this.getDocument(document.id));
+
+      if (envConfig.storageMode === 'local') {
+        const metadataPath = path.join(this.LOCAL_DOCS_PATH, `${document.id}.meta.json`);
+        await fs.writeFile(metadataPath, JSON.stringify({ ...document, contentHash }, null, 2));
+      } else if (this.blobContainerClient) {
+        await this.blobContainerClient.getBlobClient(document.id).setMetadata({
+          originalName: document.originalName,
+          uploadedAt: document.uploadedAt,
+          size: document.size.toString(),
+          contentHash,
+        });
+      }
+
+      return contentHash;
+    } catch (error) {
+      console.warn('[DocumentStorage] Could not hash stored document:', document.id, error);
+      return undefined;
     }
   }
 
@@ -100,7 +144,8 @@ export class DocumentStorageService {
     id: string,
     originalName: string,
     mimeType: string,
-    uploadedAt: string
+    uploadedAt: string,
+    contentHash: string
   ): Promise<DocumentMetadata> {
     const filePath = path.join(this.LOCAL_DOCS_PATH, id);
     
@@ -114,7 +159,8 @@ export class DocumentStorageService {
         size: fileBuffer.length,
         mimeType,
         uploadedAt,
-        url: `/api/documents/${id}`
+        url: `/api/documents/${id}`,
+        contentHash
       };
 
       const metadataPath = path.join(this.LOCAL_DOCS_PATH, `${id}.meta.json`);
@@ -173,7 +219,8 @@ export class DocumentStorageService {
     id: string,
     originalName: string,
     mimeType: string,
-    uploadedAt: string
+    uploadedAt: string,
+    contentHash: string
   ): Promise<DocumentMetadata> {
     if (!this.blobContainerClient) {
       await this.initializeBlobStorage();
@@ -193,7 +240,8 @@ export class DocumentStorageService {
         metadata: {
           originalName,
           uploadedAt,
-          size: fileBuffer.length.toString()
+          size: fileBuffer.length.toString(),
+          contentHash
         }
       });
 
@@ -204,7 +252,8 @@ export class DocumentStorageService {
         size: fileBuffer.length,
         mimeType,
         uploadedAt,
-        url: blobClient.url
+        url: blobClient.url,
+        contentHash
       };
 
       console.log('[DocumentStorage] Uploaded to blob:', id);
@@ -237,7 +286,8 @@ export class DocumentStorageService {
           size: blob.properties.contentLength || 0,
           mimeType: blob.properties.contentType || 'application/octet-stream',
           uploadedAt: blob.metadata?.uploadedAt || blob.properties.createdOn?.toISOString() || '',
-          url: blobClient.url
+          url: blobClient.url,
+          ...(blob.metadata?.contentHash && { contentHash: blob.metadata.contentHash })
         });
       }
 
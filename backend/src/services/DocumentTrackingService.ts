@@ -2,14 +2,39 @@ import fs from 'fs/promises';
 import path from 'path';
 import { BlobServiceClient } from '@azure/storage-blob';
 import { envConfig } from '../config/environment';
+import { DEFAULT_COLLECTION } from './RAGService';
+import type { MetadataFilter } from '../utils/metadataFilter';
 
-interface DocumentChunkInfo {
+export interface DocumentVersionInfo {
+  version: number;
+  fileId?: string; // stored file of this version (absent for documents ingested from disk)
+  originalName: string;
+  size?: number;
+  mimeType?: string;
+  url?: string;
+  uploadedAt: string;
+  chunkCount: number;
+  embeddingCount: number;
+}
+
+// Top-level fields describe the current version; only its chunks are kept in the index
+export interface DocumentChunkInfo {
   documentId: string;
   originalName: string;
+  collection: string;
   chunkCount: number;
   embeddingCount: number;
   processedAt: string;
   chunkIds: string[];
+  currentVersion: number;
+  versions: DocumentVersionInfo[];
+}
+
+export interface VersionCommitResult {
+  version: number;
+  // Chunks of the replaced version that the new version did not overwrite
+  staleChunkIds: string[];
+  staleCollection?: string;
 }
 
 interface DocumentTrackingData {
@@ -19,11 +44,19 @@ interface DocumentTrackingData {
   lastUpdated: string;
 }
 
+export interface CollectionInfo {
+  name: string;
+  documentCount: number;
+  chunkCount: number;
+}
+
 export class DocumentTrackingService {
   private static readonly LOCAL_TRACKING_FILE = path.join(process.cwd(), 'embeddings', 'document-tracking.json');
   private static readonly BLOB_TRACKING_FILE = 'tracking/document-tracking.json';
   private static trackingData: DocumentTrackingData | null = null;
   private static blobContainerClient: any = null;
+  // Documents whose index may hold chunks of a version other than the current one
+  private static unsettledDocuments = new Set<string>();
 
   static async initialize(): Promise<void> {
     const accountName = process.env.STORAGE_ACCOUNT_NAME;
@@ -60,6 +93,20 @@ export class DocumentTrackingService {
       }
       
       this.trackingData = JSON.parse(content);
+
+      // Documents tracked before collections or versions existed: default index, single version
+      for (const info of Object.values(this.trackingData!.documents)) {
+        info.collection = info.collection || DEFAULT_COLLECTION;
+        info.currentVersion = info.currentVersion || 1;
+        info.versions = info.versions || [{
+          version: 1,
+          fileId: info.documentId,
+          originalName: info.originalName,
+          uploadedAt: info.processedAt,
+          chunkCount: info.chunkCount,
+          embeddingCount: info.embeddingCount,
+        }];
+      }
       console.log('[DocumentTracking] Loaded tracking data:', this.trackingData?.totalDocuments, 'documents');
     } catch (error) {
       this.trackingData = {
@@ -106,32 +153,76 @@ export class DocumentTrackingService {
     }
   }
 
+  /**
+   * Records a new version of documentId and makes it current in a single save, which is
+   * the point where searches switch over. The caller removes the returned stale chunks
+   * afterwards; until then isCurrentChunk() keeps them out of results.
+   */
   static async addDocument(
     documentId: string,
     originalName: string,
     chunkCount: number,
-    chunkIds: string[]
-  ): Promise<void> {
+    chunkIds: string[],
+    collection: string = DEFAULT_COLLECTION,
+    file?: Pick<DocumentVersionInfo, 'fileId' | 'size' | 'mimeType' | 'url' | 'uploadedAt'>
+  ): Promise<VersionCommitResult> {
     if (!this.trackingData) {
       await this.loadTracking();
     }
 
+    const previous = this.trackingData!.documents[documentId];
+    const version = previous ? previous.currentVersion + 1 : 1;
+    const processedAt = new Date().toISOString();
+    const newChunkIds = new Set(chunkIds);
+
     const info: DocumentChunkInfo = {
       documentId,
       originalName,
+      collection,
       chunkCount,
       embeddingCount: chunkIds.length,
-      processedAt: new Date().toISOString(),
+      processedAt,
       chunkIds,
+      currentVersion: version,
+      versions: [
+        ...(previous?.versions || []),
+        {
+          version,
+          originalName,
+          uploadedAt: processedAt,
+          ...file,
+          chunkCount,
+          embeddingCount: chunkIds.length,
+        },
+      ],
     };
 
     this.trackingData!.documents[documentId] = info;
-    this.trackingData!.totalChunks += chunkCount;
+    this.trackingData!.totalChunks += chunkCount - (previous?.chunkCount || 0);
     this.trackingData!.totalDocuments = Object.keys(this.trackingData!.documents).length;
 
     await this.saveTracking();
     
-    console.log(`[DocumentTracking] Added document: ${originalName} (${chunkCount} chunks)`);
+    console.log(`[DocumentTracking] Added document: ${originalName} v${version} to ${collection} (${chunkCount} chunks)`);
+
+    return {
+      version,
+      staleChunkIds: previous ? previous.chunkIds.filter(id => !newChunkIds.has(id) || previous.collection !== collection) : [],
+      ...(previous && { staleCollection: previous.collection }),
+    };
+  }
+
+  static async getNextVersion(documentId: string): Promise<number> {
+    return ((await this.getDocumentInfo(documentId))?.currentVersion || 0) + 1;
+  }
+
+  // Called before chunks of a new version are written, and again once only current chunks remain
+  static markVersionUnsettled(documentId: string): void {
+    this.unsettledDocuments.add(documentId);
+  }
+
+  static markVersionSettled(documentId: string): void {
+    this.unsettledDocuments.delete(documentId);
   }
 
   static async removeDocument(documentId: string): Promise<string[]> {
@@ -167,6 +258,59 @@ export class DocumentTrackingService {
     return this.trackingData!.documents[documentId] || null;
   }
 
+  // Resolves a logical document ID or the stored file ID of any of its versions
+  static async findDocument(idOrFileId: string): Promise<DocumentChunkInfo | null> {
+    if (!this.trackingData) {
+      await this.loadTracking();
+    }
+
+    return this.trackingData!.documents[idOrFileId]
+      || Object.values(this.trackingData!.documents).find(info =>
+        info.versions.some(version => version.fileId === idOrFileId)
+      )
+      || null;
+  }
+
+  // Finds the document a new upload should version: same file name in the same collection
+  static async findByName(originalName: string, collection: string): Promise<DocumentChunkInfo | null> {
+    if (!this.trackingData) {
+      await this.loadTracking();
+    }
+
+    const name = originalName.toLowerCase();
+    return Object.values(this.trackingData!.documents).find(info =>
+      info.collection === collection && info.originalName.toLowerCase() === name
+    ) || null;
+  }
+
+  /**
+   * False for chunks of a version that is not (or no longer) current. Chunks without
+   * version metadata predate versioning and are always current.
+   */
+  static isCurrentChunk(metadata?: Record<string, any>): boolean {
+    const info = metadata?.documentId ? this.trackingData?.documents[metadata.documentId] : undefined;
+    if (!info || metadata?.version === undefined) return true;
+    return metadata.version === info.currentVersion;
+  }
+
+  /**
+   * Metadata filter excluding chunks of uncommitted or superseded versions before ranking,
+   * so they don't take result slots. Only documents with a version in flight or stale chunks
+   * left behind get a clause; undefined when there are none, so searches stay unfiltered
+   * (and can use the HNSW index). isCurrentChunk() still covers chunks from earlier runs.
+   */
+  static async getCurrentVersionFilter(collections: string[]): Promise<MetadataFilter | undefined> {
+    if (!this.trackingData) {
+      await this.loadTracking();
+    }
+
+    const clauses = Object.values(this.trackingData!.documents)
+      .filter(info => this.unsettledDocuments.has(info.documentId) && collections.includes(info.collection))
+      .map(info => ({ documentId: info.documentId, version: { $exists: true, $ne: info.currentVersion } }));
+
+    return clauses.length > 0 ? { $nor: clauses } : undefined;
+  }
+
   static async getAllDocuments(): Promise<DocumentChunkInfo[]> {
     if (!this.trackingData) {
       await this.loadTracking();
@@ -175,6 +319,22 @@ export class DocumentTrackingService {
     return Object.values(this.trackingData!.documents);
   }
 
+  static async getCollections(): Promise<CollectionInfo[]> {
+    if (!this.trackingData) {
+      await this.loadTracking();
+    }
+
+    const collections = new Map<string, CollectionInfo>();
+    for (const info of Object.values(this.trackingData!.documents)) {
+      const entry = collections.get(info.collection) || { name: info.collection, documentCount: 0, chunkCount: 0 };
+      entry.documentCount += 1;
+      entry.chunkCount += info.chunkCount;
+      collections.set(info.collection, entry);
+    }
+
+    return Array.from(collections.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   static async getStats(): Promise<{
     totalDocuments: number;
     totalChunks: number;
@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { CosmosClient, Container } from '@azure/cosmos';
+import { envConfig } from '../config/environment';
+
+interface CosmosCacheEntry {
+  id: string; // content hash
+  modelId: string;
+  embedding: number[];
+  createdAt: string;
+}
+
+export interface EmbeddingCacheLookup {
+  embeddings: Array<number[] | null>;
+  hits: number;
+}
+
+// Local writes are batched: a burst of set() calls costs one rewrite of the model's file
+const LOCAL_FLUSH_DELAY_MS = 2_000;
+
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text, 'utf-8').digest('hex');
+}
+
+/**
+ * Embeddings keyed by chunk text hash and model ID, so unchanged chunks are never sent to
+ * the provider twice. Local mode keeps one JSON file per model under embeddings/cache,
+ * capped at EMBEDDING_CACHE_MAX_ENTRIES with the least recently used entries evicted first;
+ * Cosmos mode keeps one document per text in its own container, partitioned by model.
+ */
+export class EmbeddingCache {
+  private static readonly LOCAL_STORAGE_PATH = path.join(process.cwd(), 'embeddings', 'cache');
+  private cosmosContainer: Container | null = null;
+  private localEntries = new Map<string, Map<string, number[]>>();
+  private dirtyModels = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private localWrites: Promise<void> = Promise.resolve();
+
+  async get(modelId: string, texts: string[]): Promise<EmbeddingCacheLookup> {
+    if (!envConfig.embeddingCacheEnabled || texts.length === 0) {
+      return { embeddings: texts.map(() => null), hits: 0 };
+    }
+
+    const hashes = texts.map(hashText);
+    let embeddings: Array<number[] | null>;
+
+    if (envConfig.storageType === 'local') {
+      const entries = await this.getLocalEntries(modelId);
+      embeddings = hashes.map(hash => {
+        const embedding = entries.get(hash);
+        if (!embedding) return null;
+        // Map order is recency order: a hit moves the entry to the end
+        entries.delete(hash);
+        entries.set(hash, embedding);
+        return embedding;
+      });
+    } else {
+      const container = await this.initializeCosmosDB();
+      embeddings = await Promise.all(hashes.map(async hash => {
+        const { resource } = await container.item(hash, modelId).read<CosmosCacheEntry>();
+        return resource?.embedding ?? null;
+      }));
+    }
+
+    const hits = embeddings.filter(embedding => embedding !== null).length;
+    console.log(`[EmbeddingCache] ${hits}/${texts.length} cache hits for ${modelId}`);
+
+    return { embeddings, hits };
+  }
+
+  async set(modelId: string, entries: Array<{ text: string; embedding: number[] }>): Promise<void> {
+    if (!envConfig.embeddingCacheEnabled || entries.length === 0) {
+      return;
+    }
+
+    if (envConfig.storageType === 'local') {
+      const cached = await this.getLocalEntries(modelId);
+      entries.forEach(entry => {
+        const hash = hashText(entry.text);
+        cached.delete(hash);
+        cached.set(hash, entry.embedding);
+      });
+      this.evict(cached);
+      this.dirtyModels.add(modelId);
+      this.scheduleFlush();
+    } else {
+      const container = await this.initializeCosmosDB();
+      const createdAt = new Date().toISOString();
+      await Promise.all(entries.map(entry => container.items.upsert<CosmosCacheEntry>({
+        id: hashText(entry.text),
+        modelId,
+        embedding: entry.embedding,
+        createdAt,
+      })));
+    }
+
+    console.log(`[EmbeddingCache] Stored ${entries.length} embeddings for ${modelId}`);
+  }
+
+  // Writes pending local changes now; scripts call this before exiting
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const models = Array.from(this.dirtyModels);
+    this.dirtyModels.clear();
+    if (models.length === 0) return this.localWrites;
+
+    this.localWrites = this.localWrites
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(EmbeddingCache.LOCAL_STORAGE_PATH, { recursive: true });
+        for (const modelId of models) {
+          const filePath = this.getLocalFilePath(modelId);
+          await fs.writeFile(`${filePath}.tmp`, JSON.stringify(Object.fromEntries(this.localEntries.get(modelId) ?? [])), 'utf-8');
+          await fs.rename(`${filePath}.tmp`, filePath);
+        }
+      });
+    return this.localWrites;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => console.error('[EmbeddingCache] Failed to write cache:', error));
+    }, LOCAL_FLUSH_DELAY_MS);
+  }
+
+  private evict(entries: Map<string, number[]>): void {
+    const excess = entries.size - envConfig.embeddingCacheMaxEntries;
+    if (excess <= 0) return;
+
+    const oldest = entries.keys();
+    for (let i = 0; i < excess; i++) {
+      entries.delete(oldest.next().value!);
+    }
+    console.log(`[EmbeddingCache] Evicted ${excess} least recently used embeddings`);
+  }
+
+  private async initializeCosmosDB(): Promise<Container> {
+    if (this.cosmosContainer) {
+      return this.cosmosContainer;
+    }
+
+    const connectionString = envConfig.cosmosConnectionString;
+    if (!connectionString) {
+      throw new Error('COSMOS_CONNECTION_STRING not found in environment');
+    }
+
+    const client = new CosmosClient(connectionString);
+    const { database } = await client.databases.createIfNotExists({
+      id: envConfig.cosmosDatabaseName
+    });
+
+    // Entries are only ever point-read by id + model, so nothing needs indexing
+    const { container } = await database.containers.createIfNotExists({
+      id: envConfig.cosmosEmbeddingCacheContainerName,
+      partitionKey: { paths: ['/modelId'] },
+      indexingPolicy: {
+        includedPaths: [],
+        excludedPaths: [{ path: '/*' }]
+      }
+    });
+
+    this.cosmosContainer = container;
+    return container;
+  }
+
+  private getLocalFilePath(modelId: string): string {
+    return path.join(EmbeddingCache.LOCAL_STORAGE_PATH, `${modelId.replace(/[^a-zA-Z0-9.-]+/g, '_')}.json`);
+  }
+
+  private async getLocalEntries(modelId: string): Promise<Map<string, number[]>> {
+    const loaded = this.localEntries.get(modelId);
+    if (loaded) {
+      return loaded;
+    }
+
+    let entries = new Map<string, number[]>();
+    try {
+      const content = await fs.readFile(this.getLocalFilePath(modelId), 'utf-8');
+      entries = new Map(Object.entries(JSON.parse(content)));
+    } catch (error) {
+    }
+    // A lowered EMBEDDING_CACHE_MAX_ENTRIES applies to caches written before
+    this.evict(entries);
+
+    this.localEntries.set(modelId, entries);
+    return entries;
+  }
+}
+
+export const embeddingCache = new EmbeddingCache();
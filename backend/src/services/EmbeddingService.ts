@@ -0,0 +1,266 @@
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import { envConfig } from '../config/environment';
+import { hashingEmbed, DEFAULT_HASHING_DIMENSIONS } from '../utils/hashingEmbedder';
+
+export interface EmbeddingProgress {
+  completedTexts: number;
+  totalTexts: number;
+  completedBatches: number;
+  totalBatches: number;
+}
+
+export interface EmbeddingBatchStats {
+  totalBatches: number;
+  completedBatches: number;
+  failedBatches: number;
+  retries: number;
+  embeddedTexts: number;
+  failedTexts: number;
+}
+
+export interface EmbeddingRunResult {
+  // null where the text's batch failed after all retries
+  embeddings: Array<number[] | null>;
+  stats: EmbeddingBatchStats;
+  errors: string[];
+}
+
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+type EmbeddingModel = ReturnType<typeof openai.embedding>;
+
+const DIMENSION_PROBE_TEXT = 'dimension probe';
+// Hashed bag-of-words vectors of a short query and a long chunk rarely exceed ~0.5 cosine
+const HASHING_THRESHOLD_SCALE = 0.4;
+
+// Queries are embedded once for retrieval and again when the local reranker scores them
+const QUERY_EMBEDDING_MEMO_SIZE = 256;
+
+let embeddingModel: EmbeddingModel | null = null;
+const queryEmbeddings = new Map<string, Promise<number[]>>();
+let dimensionsPromise: Promise<number> | null = null;
+
+function createHashingModel(dimensions: number): EmbeddingModel {
+  return {
+    specificationVersion: 'v2',
+    provider: 'hashing',
+    modelId: `feature-hash-${dimensions}`,
+    maxEmbeddingsPerCall: Infinity,
+    supportsParallelCalls: true,
+    doEmbed: async ({ values }) => ({ embeddings: values.map(value => hashingEmbed(value, dimensions)) }),
+  };
+}
+
+function getEmbeddingModel(): EmbeddingModel {
+  if (embeddingModel) {
+    return embeddingModel;
+  }
+
+  switch (envConfig.embeddingProvider) {
+    case 'hashing':
+      embeddingModel = createHashingModel(envConfig.embeddingDimensions ?? DEFAULT_HASHING_DIMENSIONS);
+      break;
+    case 'openai-compatible': {
+      const baseURL = envConfig.embeddingBaseUrl;
+      if (!baseURL) {
+        throw new Error('EMBEDDING_BASE_URL must be set when EMBEDDING_PROVIDER=openai-compatible');
+      }
+      // Local servers (Ollama, LM Studio, vLLM) usually ignore the key but the client requires one
+      const provider = createOpenAI({ baseURL, apiKey: envConfig.embeddingApiKey || 'not-needed', name: 'openai-compatible' });
+      embeddingModel = provider.embedding(envConfig.embeddingModel);
+      break;
+    }
+    default:
+      embeddingModel = envConfig.embeddingApiKey
+        ? createOpenAI({ apiKey: envConfig.embeddingApiKey }).embedding(envConfig.embeddingModel)
+        : openai.embedding(envConfig.embeddingModel);
+  }
+
+  console.log(`[EmbeddingService] Using ${embeddingModel.provider} embeddings (${embeddingModel.modelId})`);
+  return embeddingModel;
+}
+
+// Only OpenAI-style models accept a requested size; the hashing model is built with it
+function getProviderOptions() {
+  const dimensions = envConfig.embeddingDimensions;
+  return dimensions && envConfig.embeddingProvider !== 'hashing'
+    ? { openai: { dimensions } }
+    : undefined;
+}
+
+function isRetryableError(error: any): boolean {
+  const status = error?.statusCode ?? error?.status;
+  if (status === 429 || (typeof status === 'number' && status >= 500)) return true;
+  if (error?.isRetryable === true) return true;
+  return RETRYABLE_NETWORK_CODES.has(error?.code ?? error?.cause?.code);
+}
+
+// Honours Retry-After from rate-limit responses, otherwise exponential backoff with jitter
+function retryDelay(error: any, attempt: number): number {
+  const headers = error?.responseHeaders || {};
+  const retryAfterMs = Number(headers['retry-after-ms']);
+  const retryAfterSeconds = Number(headers['retry-after']);
+
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * backoff * 0.25, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class EmbeddingService {
+  /**
+   * Identifies the provider, model and requested size, e.g. "openai:text-embedding-3-small".
+   * Vectors are only comparable when they were produced under the same ID.
+   */
+  static get modelId(): string {
+    const model = getEmbeddingModel();
+    const dimensions = envConfig.embeddingProvider === 'hashing' ? undefined : envConfig.embeddingDimensions;
+    return `${model.provider}:${model.modelId}${dimensions ? `@${dimensions}` : ''}`;
+  }
+
+  /**
+   * Maps a similarity cutoff tuned for trained models onto the active provider's score scale.
+   */
+  static calibrateThreshold(threshold: number): number {
+    return envConfig.embeddingProvider === 'hashing' ? threshold * HASHING_THRESHOLD_SCALE : threshold;
+  }
+
+  /**
+   * Vector size produced by the configured provider. The hashing embedder knows it up
+   * front; remote models are probed once with a short text and the result is cached.
+   */
+  static async getDimensions(): Promise<number> {
+    if (envConfig.embeddingProvider === 'hashing') {
+      return envConfig.embeddingDimensions ?? DEFAULT_HASHING_DIMENSIONS;
+    }
+
+    if (!dimensionsPromise) {
+      dimensionsPromise = this.embedQuery(DIMENSION_PROBE_TEXT)
+        .then(embedding => {
+          console.log(`[EmbeddingService] Detected ${embedding.length} dimensions for ${this.modelId}`);
+          return embedding.length;
+        })
+        .catch(error => {
+          dimensionsPromise = null;
+          throw error;
+        });
+    }
+
+    return dimensionsPromise;
+  }
+
+  /**
+   * Embeds texts in batches with bounded concurrency. Rate-limited and transient failures
+   * are retried with backoff; a batch that still fails leaves null embeddings for its texts
+   * so the caller can keep the rest of the document.
+   */
+  static async embedTexts(
+    texts: string[],
+    options?: {
+      onProgress?: (progress: EmbeddingProgress) => void;
+    }
+  ): Promise<EmbeddingRunResult> {
+    const model = getEmbeddingModel();
+    const maxPerCall = await model.maxEmbeddingsPerCall;
+    const batchSize = Math.max(1, Math.min(envConfig.embeddingBatchSize, maxPerCall ?? Infinity));
+    const concurrency = (await model.supportsParallelCalls) === false ? 1 : envConfig.embeddingConcurrency;
+
+    const batches: number[][] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      batches.push(Array.from({ length: Math.min(batchSize, texts.length - start) }, (_, idx) => start + idx));
+    }
+
+    const embeddings: Array<number[] | null> = texts.map(() => null);
+    const errors: string[] = [];
+    const stats: EmbeddingBatchStats = {
+      totalBatches: batches.length,
+      completedBatches: 0,
+      failedBatches: 0,
+      retries: 0,
+      embeddedTexts: 0,
+      failedTexts: 0,
+    };
+
+    const runBatch = async (batchIdx: number): Promise<void> => {
+      const indices = batches[batchIdx];
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await model.doEmbed({ values: indices.map(idx => texts[idx]), providerOptions: getProviderOptions() });
+          indices.forEach((textIdx, position) => {
+            embeddings[textIdx] = result.embeddings[position];
+          });
+          stats.completedBatches++;
+          stats.embeddedTexts += indices.length;
+          break;
+        } catch (error) {
+          if (attempt < envConfig.embeddingMaxRetries && isRetryableError(error)) {
+            const delay = retryDelay(error, attempt);
+            stats.retries++;
+            console.warn(`[EmbeddingService] Batch ${batchIdx + 1}/${batches.length} failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`);
+            await sleep(delay);
+            continue;
+          }
+
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[EmbeddingService] Batch ${batchIdx + 1}/${batches.length} failed permanently:`, message);
+          stats.failedBatches++;
+          stats.failedTexts += indices.length;
+          errors.push(`Batch ${batchIdx + 1}: ${message}`);
+          break;
+        }
+      }
+
+      options?.onProgress?.({
+        completedTexts: stats.embeddedTexts + stats.failedTexts,
+        totalTexts: texts.length,
+        completedBatches: stats.completedBatches + stats.failedBatches,
+        totalBatches: batches.length,
+      });
+    };
+
+    let nextBatch = 0;
+    const worker = async () => {
+      while (nextBatch < batches.length) {
+        await runBatch(nextBatch++);
+      }
+    };
+
+    console.log(`[EmbeddingService] Embedding ${texts.length} texts in ${batches.length} batches (size ${batchSize}, concurrency ${concurrency})`);
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+
+    return { embeddings, stats, errors };
+  }
+
+  // Recent queries are memoized (failures are not), so repeated and concurrent calls share one request
+  static embedQuery(text: string): Promise<number[]> {
+    const key = `${this.modelId}\n${text}`;
+    const memoized = queryEmbeddings.get(key);
+    if (memoized) {
+      queryEmbeddings.delete(key);
+      queryEmbeddings.set(key, memoized);
+      return memoized;
+    }
+
+    const embedding = this.embedTexts([text]).then(({ embeddings, errors }) => {
+      if (!embeddings[0]) {
+        throw new Error(`Failed to embed query: ${errors.join('; ')}`);
+      }
+      return embeddings[0];
+    });
+    embedding.catch(() => queryEmbeddings.delete(key));
+
+    queryEmbeddings.set(key, embedding);
+    if (queryEmbeddings.size > QUERY_EMBEDDING_MEMO_SIZE) {
+      queryEmbeddings.delete(queryEmbeddings.keys().next().value!);
+    }
+    return embedding;
+  }
+}
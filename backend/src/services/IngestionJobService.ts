@@ -0,0 +1,280 @@
+import { EventEmitter } from 'events';
+import { getJobStore } from '../storage/JobStoreFactory';
+import type { CreateIngestionJobInput, IngestionJob, IngestionJobFilter, IngestionJobUpdate } from '../types/job.types';
+import { isTerminalJobStatus } from '../utils/jobHelpers';
+import { DocumentStorageService } from './DocumentStorageService';
+import { DocumentParserService } from './DocumentParserService';
+import { DocumentTrackingService, type DocumentChunkInfo } from './DocumentTrackingService';
+import { RAGService } from './RAGService';
+
+// A job that keeps taking the process down is not retried forever on restart
+const MAX_ATTEMPTS = 3;
+
+// Share of the progress bar each stage ends at; embedding fills the span in between
+const PROGRESS = { started: 5, chunked: 10, embedded: 90, completed: 100 };
+
+/**
+ * Background ingestion queue. Uploads are stored first and ingested here one job at a
+ * time, which also serializes new versions of the same document. Job state is persisted
+ * after every step, so jobs interrupted by a restart are picked up again by initialize().
+ */
+export class IngestionJobService {
+  private static readonly events = new EventEmitter().setMaxListeners(0);
+  private static queue: string[] = [];
+  private static running = false;
+  private static initialized = false;
+
+  static async initialize(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    const unfinished = await getJobStore().listJobs({ status: ['queued', 'chunking', 'embedding', 'indexing'] });
+    if (unfinished.length > 0) {
+      console.log(`[IngestionJobs] Resuming ${unfinished.length} unfinished job(s)`);
+    }
+
+    // Oldest first, so versions of a document are committed in upload order
+    for (const job of unfinished.reverse()) {
+      this.queue.push(job.jobId);
+    }
+    void this.drain();
+  }
+
+  static async enqueue(input: CreateIngestionJobInput): Promise<IngestionJob> {
+    const job = await getJobStore().createJob(input);
+    console.log(`[IngestionJobs] Queued job ${job.jobId} for ${job.file.originalName} (${job.documentId})`);
+
+    this.queue.push(job.jobId);
+    void this.drain();
+    return job;
+  }
+
+  static async getJob(jobId: string): Promise<IngestionJob | null> {
+    return getJobStore().getJob(jobId);
+  }
+
+  static async listJobs(filter?: IngestionJobFilter): Promise<IngestionJob[]> {
+    return getJobStore().listJobs(filter);
+  }
+
+  // Removes a document with every version: chunks, tracking entry and stored files
+  static async removeDocument(info: DocumentChunkInfo): Promise<number> {
+    const chunkIds = await DocumentTrackingService.removeDocument(info.documentId);
+
+    if (chunkIds.length > 0) {
+      await RAGService.deleteDocumentChunks(chunkIds, info.collection);
+      console.log(`[IngestionJobs] Deleted ${chunkIds.length} chunks of ${info.documentId} from ${info.collection} index`);
+    }
+
+    for (const version of info.versions) {
+      if (!version.fileId) continue;
+      try {
+        await DocumentStorageService.deleteDocument(version.fileId);
+      } catch (error) {
+        console.warn(`[IngestionJobs] Stored file for v${version.version} already missing: ${version.fileId}`);
+      }
+    }
+
+    return chunkIds.length;
+  }
+
+  // Calls listener with every saved change to the job; returns the unsubscribe function
+  static subscribe(jobId: string, listener: (job: IngestionJob) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  private static async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const jobId = this.queue.shift()!;
+        try {
+          await this.runJob(jobId);
+        } catch (error) {
+          console.error(`[IngestionJobs] Job ${jobId} failed:`, error);
+          await this.update(jobId, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }).catch(updateError => console.error(`[IngestionJobs] Could not record failure of ${jobId}:`, updateError));
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private static async runJob(jobId: string): Promise<void> {
+    const job = await getJobStore().getJob(jobId);
+    if (!job || isTerminalJobStatus(job.status)) return;
+
+    if (job.attempts >= MAX_ATTEMPTS) {
+      throw new Error(`Gave up after ${job.attempts} interrupted attempts`);
+    }
+
+    // Interrupted after the version was committed: only the job record is behind
+    const tracked = await DocumentTrackingService.getDocumentInfo(job.documentId);
+    const committed = tracked?.versions.find(version => version.fileId === job.file.fileId);
+    if (committed) {
+      console.log(`[IngestionJobs] Job ${jobId} was already committed as v${committed.version}`);
+      await this.update(jobId, {
+        status: 'completed',
+        progress: { percentage: PROGRESS.completed, totalChunks: committed.chunkCount, embeddedChunks: committed.embeddingCount },
+        result: job.result || {
+          version: committed.version,
+          chunks: committed.chunkCount,
+          embeddings: committed.embeddingCount,
+          processingTime: 0,
+          batches: 0,
+          retries: 0,
+          failedChunks: committed.chunkCount - committed.embeddingCount,
+          cachedChunks: 0,
+        },
+      });
+      await this.removeReplacedDocument(job);
+      return;
+    }
+
+    await this.update(jobId, {
+      status: 'chunking',
+      attempts: job.attempts + 1,
+      progress: { percentage: PROGRESS.started, embeddedChunks: 0 },
+    });
+
+    const parsed = await DocumentParserService.parse(
+      await DocumentStorageService.getDocument(job.file.fileId),
+      job.file.mimeType
+    );
+
+    // Progress callbacks are synchronous; chain their writes so they land in order
+    let pending: Promise<unknown> = Promise.resolve();
+    const report = (update: IngestionJobUpdate) => {
+      pending = pending.then(() => this.update(jobId, update)).catch(error =>
+        console.error(`[IngestionJobs] Could not record progress of ${jobId}:`, error)
+      );
+    };
+
+    let cachedChunks = 0;
+    const version = await DocumentTrackingService.getNextVersion(job.documentId);
+    DocumentTrackingService.markVersionUnsettled(job.documentId);
+    const stats = await RAGService.processDocument(parsed.sections, job.documentId, {
+      maxSize: 4000,
+      overlap: 500,
+      collection: job.collection,
+      version,
+      documentMetadata: {
+        filename: job.file.originalName,
+        uploadedAt: job.file.uploadedAt,
+        ...(job.tags && { tags: job.tags }),
+      },
+      onStage: (stage, info) => {
+        cachedChunks = info.cachedChunks;
+        report(stage === 'chunked'
+          ? {
+            status: 'embedding',
+            progress: { percentage: PROGRESS.chunked, totalChunks: info.totalChunks, embeddedChunks: info.cachedChunks, cachedChunks: info.cachedChunks },
+          }
+          : { status: 'indexing', progress: { percentage: PROGRESS.embedded } });
+      },
+      onProgress: progress => {
+        const share = progress.totalTexts > 0 ? progress.completedTexts / progress.totalTexts : 1;
+        report({
+          progress: {
+            percentage: Math.round(PROGRESS.chunked + share * (PROGRESS.embedded - PROGRESS.chunked)),
+            embeddedChunks: cachedChunks + progress.completedTexts,
+          },
+        });
+      },
+    });
+    await pending;
+
+    // The new version only becomes searchable once tracking points at it
+    let commit;
+    try {
+      commit = await DocumentTrackingService.addDocument(
+        job.documentId,
+        job.file.originalName,
+        stats.totalChunks,
+        stats.chunkIds,
+        job.collection,
+        {
+          fileId: job.file.fileId,
+          size: job.file.size,
+          mimeType: job.file.mimeType,
+          url: job.file.url,
+          uploadedAt: job.file.uploadedAt,
+        }
+      );
+    } catch (commitError) {
+      await RAGService.deleteDocumentChunks(stats.chunkIds, job.collection);
+      DocumentTrackingService.markVersionSettled(job.documentId);
+      throw commitError;
+    }
+
+    if (commit.staleChunkIds.length === 0) {
+      DocumentTrackingService.markVersionSettled(job.documentId);
+    } else {
+      try {
+        await RAGService.deleteDocumentChunks(commit.staleChunkIds, commit.staleCollection);
+        DocumentTrackingService.markVersionSettled(job.documentId);
+        console.log(`[IngestionJobs] Replaced v${commit.version - 1}: removed ${commit.staleChunkIds.length} chunks`);
+      } catch (cleanupError) {
+        // The old chunks are already hidden from search by their version, so don't fail the job
+        console.error('[IngestionJobs] Failed to remove chunks of the previous version:', cleanupError);
+      }
+    }
+
+    await this.removeReplacedDocument(job);
+
+    if (stats.failedChunks > 0) {
+      console.warn(`[IngestionJobs] ⚠️ Job ${jobId} processed with ${stats.failedChunks} chunks not embedded`);
+    } else {
+      console.log(`[IngestionJobs] ✅ Job ${jobId} complete: ${job.file.originalName} v${commit.version}`);
+    }
+
+    await this.update(jobId, {
+      status: 'completed',
+      progress: { percentage: PROGRESS.completed, embeddedChunks: stats.totalEmbeddings },
+      result: {
+        version: commit.version,
+        chunks: stats.totalChunks,
+        embeddings: stats.totalEmbeddings,
+        processingTime: stats.processingTime,
+        ...(parsed.pageCount !== undefined && { pages: parsed.pageCount }),
+        batches: stats.embeddingBatches.totalBatches,
+        retries: stats.embeddingBatches.retries,
+        failedChunks: stats.failedChunks,
+        cachedChunks: stats.cachedChunks,
+        ...(stats.errors && { errors: stats.errors }),
+      },
+    });
+  }
+
+  // The duplicate an upload replaces stays searchable until the upload is committed,
+  // so a failed upload or ingestion leaves it in place
+  private static async removeReplacedDocument(job: IngestionJob): Promise<void> {
+    if (!job.replacesDocumentId || job.replacesDocumentId === job.documentId) return;
+
+    const replaced = await DocumentTrackingService.getDocumentInfo(job.replacesDocumentId);
+    if (!replaced) return;
+
+    try {
+      await this.removeDocument(replaced);
+      console.log(`[IngestionJobs] Replaced duplicate document ${replaced.documentId} with ${job.documentId}`);
+    } catch (error) {
+      // The new document is committed either way; the duplicate can still be deleted by hand
+      console.error(`[IngestionJobs] Failed to remove replaced document ${replaced.documentId}:`, error);
+    }
+  }
+
+  private static async update(jobId: string, update: IngestionJobUpdate): Promise<void> {
+    const job = await getJobStore().updateJob(jobId, update);
+    if (job) {
+      this.events.emit(jobId, job);
+    }
+  }
+}
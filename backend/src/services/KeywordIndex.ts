@@ -0,0 +1,226 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CosmosClient, Container } from '@azure/cosmos';
+import { envConfig } from '../config/environment';
+import { matchesMetadataFilter, type MetadataFilter } from '../utils/metadataFilter';
+import { buildKeywordDocument, scoreBM25, type KeywordDocument, type KeywordScore } from '../utils/bm25';
+
+interface CosmosKeywordDocument extends KeywordDocument {
+  indexName: string;
+}
+
+export interface KeywordQueryResult extends KeywordScore {
+  text: string;
+  metadata?: Record<string, any>;
+}
+
+// Cosmos snapshots are re-read after this long so other replicas' writes show up
+const COSMOS_CACHE_TTL_MS = 60_000;
+
+/**
+ * BM25 keyword index kept next to the vector store. Local mode keeps each index in memory
+ * and persists it to one JSON file per index under embeddings/keyword; Cosmos mode keeps one
+ * document per chunk in its own container and scores a cached snapshot of the index in memory.
+ */
+export class KeywordIndex {
+  private static readonly LOCAL_STORAGE_PATH = path.join(process.cwd(), 'embeddings', 'keyword');
+  private cosmosContainer: Container | null = null;
+  private cache = new Map<string, { documents: KeywordDocument[]; loadedAt: number }>();
+  private localIndexes = new Map<string, Promise<Map<string, KeywordDocument>>>();
+  private localWrites = new Map<string, Promise<void>>();
+  private dirtyIndexes = new Set<string>();
+
+  async initialize(): Promise<void> {
+    if (envConfig.storageType === 'local') {
+      await fs.mkdir(KeywordIndex.LOCAL_STORAGE_PATH, { recursive: true });
+      console.log('[KeywordIndex] Local storage initialized at:', KeywordIndex.LOCAL_STORAGE_PATH);
+    } else {
+      await this.initializeCosmosDB();
+      console.log('[KeywordIndex] ✅ Cosmos DB initialized');
+    }
+  }
+
+  private async initializeCosmosDB(): Promise<Container> {
+    if (this.cosmosContainer) {
+      return this.cosmosContainer;
+    }
+
+    const connectionString = envConfig.cosmosConnectionString;
+    if (!connectionString) {
+      throw new Error('COSMOS_CONNECTION_STRING not found in environment');
+    }
+
+    const client = new CosmosClient(connectionString);
+    const { database } = await client.databases.createIfNotExists({
+      id: envConfig.cosmosDatabaseName
+    });
+
+    const { container } = await database.containers.createIfNotExists({
+      id: envConfig.cosmosKeywordContainerName,
+      partitionKey: { paths: ['/indexName'] },
+      indexingPolicy: {
+        includedPaths: [{ path: '/indexName/?' }],
+        excludedPaths: [{ path: '/*' }]
+      }
+    });
+
+    this.cosmosContainer = container;
+    return container;
+  }
+
+  async upsert(indexName: string, entries: Array<{ id: string; text: string; metadata?: Record<string, any> }>): Promise<void> {
+    const documents = entries.map(entry => buildKeywordDocument(entry.id, entry.text, entry.metadata));
+
+    if (envConfig.storageType === 'local') {
+      const index = await this.getLocalIndex(indexName);
+      documents.forEach(doc => index.set(doc.id, doc));
+      this.cache.delete(indexName);
+      await this.saveLocalIndex(indexName);
+    } else {
+      const container = await this.initializeCosmosDB();
+      await Promise.all(
+        documents.map(doc => container.items.upsert<CosmosKeywordDocument>({ ...doc, indexName }))
+      );
+    }
+
+    this.cache.delete(indexName);
+  }
+
+  async delete(indexName: string, ids: string[]): Promise<void> {
+    if (envConfig.storageType === 'local') {
+      const index = await this.getLocalIndex(indexName);
+      ids.forEach(id => index.delete(id));
+      this.cache.delete(indexName);
+      await this.saveLocalIndex(indexName);
+    } else {
+      const container = await this.initializeCosmosDB();
+      await Promise.all(ids.map(async id => {
+        try {
+          await container.item(id, indexName).delete();
+        } catch (error: any) {
+          if (error.code !== 404) throw error;
+        }
+      }));
+    }
+
+    this.cache.delete(indexName);
+  }
+
+  async deleteIndex(indexName: string): Promise<void> {
+    if (envConfig.storageType === 'local') {
+      this.localIndexes.delete(indexName);
+      this.dirtyIndexes.delete(indexName);
+      await this.enqueueLocalWrite(indexName, () => fs.rm(this.getLocalFilePath(indexName), { force: true }));
+    } else {
+      const documents = await this.getCosmosDocuments(indexName);
+      await this.delete(indexName, documents.map(doc => doc.id));
+    }
+
+    this.cache.delete(indexName);
+  }
+
+  async count(indexName: string): Promise<number> {
+    return (await this.getDocuments(indexName)).length;
+  }
+
+  // The filter narrows the candidate chunks before BM25 runs, so scores are relative to them
+  async query(indexName: string, queryText: string, topK: number = 5, filter?: MetadataFilter): Promise<KeywordQueryResult[]> {
+    const all = await this.getDocuments(indexName);
+    const documents = filter ? all.filter(doc => matchesMetadataFilter(doc.metadata, filter)) : all;
+    const byId = new Map(documents.map(doc => [doc.id, doc]));
+
+    return scoreBM25(documents, queryText, topK).map(result => ({
+      ...result,
+      text: byId.get(result.id)!.text,
+      metadata: byId.get(result.id)!.metadata
+    }));
+  }
+
+  private async getDocuments(indexName: string): Promise<KeywordDocument[]> {
+    const cached = this.cache.get(indexName);
+    if (cached && (envConfig.storageType === 'local' || Date.now() - cached.loadedAt < COSMOS_CACHE_TTL_MS)) {
+      return cached.documents;
+    }
+
+    const documents = envConfig.storageType === 'local'
+      ? Array.from((await this.getLocalIndex(indexName)).values())
+      : await this.getCosmosDocuments(indexName);
+
+    this.cache.set(indexName, { documents, loadedAt: Date.now() });
+    return documents;
+  }
+
+  private getLocalFilePath(indexName: string): string {
+    return path.join(KeywordIndex.LOCAL_STORAGE_PATH, `${path.basename(indexName)}.json`);
+  }
+
+  // Loaded once; writes change the in-memory index first, so concurrent jobs never lose each other's postings
+  private getLocalIndex(indexName: string): Promise<Map<string, KeywordDocument>> {
+    let index = this.localIndexes.get(indexName);
+    if (!index) {
+      index = this.readLocalDocuments(indexName).then(documents => new Map(documents.map(doc => [doc.id, doc])));
+      this.localIndexes.set(indexName, index);
+    }
+    return index;
+  }
+
+  private async readLocalDocuments(indexName: string): Promise<KeywordDocument[]> {
+    try {
+      const content = await fs.readFile(this.getLocalFilePath(indexName), 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Persists the in-memory index with a temp-file rename, so a crash never leaves a
+   * truncated file. Writes queued behind one that already saved the latest state are skipped.
+   */
+  private saveLocalIndex(indexName: string): Promise<void> {
+    this.dirtyIndexes.add(indexName);
+
+    return this.enqueueLocalWrite(indexName, async () => {
+      const index = this.localIndexes.get(indexName);
+      if (!this.dirtyIndexes.delete(indexName) || !index) return;
+
+      const filePath = this.getLocalFilePath(indexName);
+      const documents = JSON.stringify(Array.from((await index).values()));
+      try {
+        await fs.mkdir(KeywordIndex.LOCAL_STORAGE_PATH, { recursive: true });
+        await fs.writeFile(`${filePath}.tmp`, documents, 'utf-8');
+        await fs.rename(`${filePath}.tmp`, filePath);
+      } catch (error) {
+        this.dirtyIndexes.add(indexName);
+        throw error;
+      }
+    });
+  }
+
+  // Writes are chained per index so an older snapshot never lands after a newer one
+  private enqueueLocalWrite(indexName: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.localWrites.get(indexName) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(write);
+
+    this.localWrites.set(indexName, next);
+    return next;
+  }
+
+  private async getCosmosDocuments(indexName: string): Promise<KeywordDocument[]> {
+    const container = await this.initializeCosmosDB();
+
+    const querySpec = {
+      query: 'SELECT c.id, c.terms, c.length, c.text, c.metadata FROM c WHERE c.indexName = @indexName',
+      parameters: [{ name: '@indexName', value: indexName }]
+    };
+
+    const { resources } = await container.items
+      .query<KeywordDocument>(querySpec, { partitionKey: indexName })
+      .fetchAll();
+
+    return resources;
+  }
+}
+
+export const keywordIndex = new KeywordIndex();
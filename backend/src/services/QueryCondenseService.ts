@@ -0,0 +1,105 @@
+import { Agent } from '@mastra/core/agent';
+import { createOpenAI } from '@ai-sdk/openai';
+import { envConfig } from '../config/environment';
+import { getMemoryStore } from '../storage/MemoryStoreFactory';
+import { condenseWithHistory } from '../utils/queryCondenser';
+import type { Message } from '../types/memory.types';
+
+export type QueryCondenseProvider = 'llm' | 'rules' | 'none';
+
+export interface CondensedQuery {
+  original: string;
+  query: string; // standalone search query; equals original when nothing needed condensing
+  strategy: QueryCondenseProvider;
+  historyMessages: number;
+}
+
+// Assistant answers are long; the start of each is enough to know what was discussed
+const MAX_MESSAGE_CHARS = 600;
+
+let condenseAgent: Agent | null = null;
+
+function getCondenseAgent(): Agent {
+  if (!condenseAgent) {
+    const openaiClient = createOpenAI({ apiKey: envConfig.openAIKey });
+    condenseAgent = new Agent({
+      name: 'Query Condenser',
+      instructions: `You turn a search query from an ongoing conversation into a standalone search query.
+Use the conversation only to resolve what the query refers to ("it", "that tier", "what about Tier 4?").
+- If the query is already standalone, return it unchanged
+- Keep every detail of the query; add only the topic it refers back to
+- Do not answer the question
+Return only the standalone query, no quotes and no explanation.`,
+      model: openaiClient(envConfig.queryCondenseModel),
+    });
+    console.log(`[QueryCondenseService] Using LLM condenser (${envConfig.queryCondenseModel})`);
+  }
+  return condenseAgent;
+}
+
+function formatHistory(history: Message[]): string {
+  return history
+    .map(message => {
+      const content = message.content.length > MAX_MESSAGE_CHARS
+        ? `${message.content.slice(0, MAX_MESSAGE_CHARS)}…`
+        : message.content;
+      return `${message.role}: ${content}`;
+    })
+    .join('\n');
+}
+
+export class QueryCondenseService {
+  /**
+   * Rewrites a follow-up search query as a standalone one using the thread's recent
+   * messages, so "and what about Tier 4?" is searched with the topic it continues.
+   * Without a thread or history the query is returned as is; the LLM condenser falls
+   * back to the offline rules on failure.
+   */
+  static async condense(
+    query: string,
+    threadId?: string,
+    options?: { provider?: QueryCondenseProvider }
+  ): Promise<CondensedQuery> {
+    const { provider = envConfig.queryCondenseProvider } = options || {};
+    const original = query.trim();
+    const unchanged: CondensedQuery = { original, query: original, strategy: 'none', historyMessages: 0 };
+
+    if (provider === 'none' || !threadId) {
+      return unchanged;
+    }
+
+    let history: Message[];
+    try {
+      history = (await getMemoryStore().getRecentMessages(threadId, envConfig.queryCondenseHistory))
+        .filter(message => message.role !== 'system' && message.content.trim().length > 0);
+    } catch (error) {
+      console.error(`[QueryCondenseService] Could not load history of thread ${threadId}:`, error);
+      return unchanged;
+    }
+
+    // The thread's only message is the question being answered
+    if (history.length <= 1) {
+      return { ...unchanged, historyMessages: history.length };
+    }
+
+    let condensed: CondensedQuery | null = null;
+    if (provider === 'llm') {
+      try {
+        const response = await getCondenseAgent().generate(
+          `Conversation:\n${formatHistory(history)}\n\nSearch query: ${original}\n\nStandalone search query:`
+        );
+        const text = response.text.trim().replace(/^["']|["']$/g, '');
+        if (text) {
+          condensed = { original, query: text, strategy: 'llm', historyMessages: history.length };
+        }
+      } catch (error) {
+        console.error('[QueryCondenseService] LLM condensing failed, using rules:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    condensed ??= { original, query: condenseWithHistory(original, history), strategy: 'rules', historyMessages: history.length };
+
+    console.log(`[QueryCondenseService] Original query: "${original}" → condensed query: "${condensed.query}" (${condensed.strategy}, ${history.length} messages)`);
+    return condensed;
+  }
+}
@@ -0,0 +1,74 @@
+import { Agent } from '@mastra/core/agent';
+import { createOpenAI } from '@ai-sdk/openai';
+import { envConfig } from '../config/environment';
+import { rewriteQuery, dedupeRewrites, type QueryRewrite } from '../utils/queryRewriter';
+
+export type QueryRewriteProvider = 'rules' | 'llm' | 'none';
+
+let rewriteAgent: Agent | null = null;
+
+function getRewriteAgent(): Agent {
+  if (!rewriteAgent) {
+    const openaiClient = createOpenAI({ apiKey: envConfig.openAIKey });
+    rewriteAgent = new Agent({
+      name: 'Query Rewriter',
+      instructions: `You rewrite search queries for a project management handbook and internal policy documents.
+Given a user's query, write alternative search queries that would find the same passages:
+- Expand acronyms (PMO, CPI, SOW, ...) and spell amounts the way policies do ("60k" -> "$60,000")
+- Use formal handbook vocabulary ("who signs off" -> "approval authority", "thing" -> "project")
+- Keep every fact from the query; never add new constraints
+Return only a JSON array of strings, one rewrite per entry, no explanation.`,
+      model: openaiClient(envConfig.queryRewriteModel),
+    });
+    console.log(`[QueryRewriteService] Using LLM rewriter (${envConfig.queryRewriteModel})`);
+  }
+  return rewriteAgent;
+}
+
+function parseRewrites(text: string): string[] {
+  const json = text.slice(text.indexOf('['), text.lastIndexOf(']') + 1);
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Rewriter did not return a JSON array');
+  }
+  return parsed.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0);
+}
+
+export class QueryRewriteService {
+  /**
+   * Alternative phrasings of a search query, starting with the query itself. The rules
+   * rewriter is deterministic and offline; the LLM rewriter falls back to it on failure.
+   */
+  static async rewrite(
+    query: string,
+    options?: { provider?: QueryRewriteProvider; maxRewrites?: number }
+  ): Promise<QueryRewrite[]> {
+    const { provider = envConfig.queryRewriteProvider, maxRewrites = envConfig.queryRewriteMax } = options || {};
+    const original: QueryRewrite = { query: query.trim(), strategy: 'original', changes: [] };
+
+    if (provider === 'none' || maxRewrites <= 1) {
+      return [original];
+    }
+
+    if (provider === 'llm') {
+      try {
+        const response = await getRewriteAgent().generate(`Query: ${original.query}\nWrite up to ${maxRewrites - 1} rewrites.`);
+        const rewrites = dedupeRewrites([
+          original,
+          ...parseRewrites(response.text).map(rewrite => ({ query: rewrite.trim(), strategy: 'llm' as const, changes: [] })),
+        ]).slice(0, maxRewrites);
+
+        console.log(`[QueryRewriteService] LLM rewrote "${original.query}" into ${rewrites.length - 1} queries`);
+        return rewrites;
+      } catch (error) {
+        console.error('[QueryRewriteService] LLM rewriting failed, using rules:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    const rewrites = rewriteQuery(original.query, maxRewrites);
+    if (rewrites.length > 1) {
+      console.log(`[QueryRewriteService] Rewrote "${original.query}" as: ${rewrites.slice(1).map(rewrite => `"${rewrite.query}"`).join(', ')}`);
+    }
+    return rewrites;
+  }
+}
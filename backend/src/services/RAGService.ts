@@ -1,33 +1,88 @@
-import { MDocument } from '@mastra/rag';
-import { openai } from '@ai-sdk/openai';
 import { vectorStore } from './VectorStore';
-
-async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const embeddingModel = openai.embedding('text-embedding-3-small');
-  const embeddings: number[][] = [];
-  
-  for (const text of texts) {
-    const result = await embeddingModel.doEmbed({ values: [text] });
-    embeddings.push(result.embeddings[0]);
-  }
-  
-  return embeddings;
-}
+import { EmbeddingService, type EmbeddingBatchStats, type EmbeddingProgress } from './EmbeddingService';
+import { embeddingCache } from './EmbeddingCache';
+import { RerankService, type RerankProvider } from './RerankService';
+import { envConfig } from '../config/environment';
+import type { DocumentSection } from './DocumentParserService';
+import { reciprocalRankFusion } from '../utils/rankFusion';
+import { chunkBySection } from '../utils/sectionChunker';
+import { countTokens } from '../utils/tokenCounter';
+import type { MetadataFilter } from '../utils/metadataFilter';
 
 export interface ProcessingStats {
   totalChunks: number;
   totalEmbeddings: number;
   processingTime: number;
   chunkIds: string[]; // IDs of chunks in vector store
+  failedChunks: number; // chunks whose embedding batch failed after retries (not stored)
+  cachedChunks: number; // chunks reused from the embedding cache instead of re-embedded
+  embeddingBatches: EmbeddingBatchStats;
+  errors?: string[];
 }
 
+// Reported once chunks are known (with how many the cache covers) and once embedding is done
+export type ProcessingStage = 'chunked' | 'embedded';
+
+export interface ProcessingStageInfo {
+  totalChunks: number;
+  cachedChunks: number;
+}
+
+export type SearchMethod = 'vector' | 'keyword' | 'hybrid';
+
 export interface SearchResult {
   id: string;
   text: string;
   score: number;
   metadata?: Record<string, any>;
+  collection: string;
+  searchMethod: SearchMethod;
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number; // second-stage relevance (0-1), set when a reranker reordered the results
+  matchedQueries?: string[]; // rewrites of the query that retrieved this chunk (multi-query search)
+}
+
+export interface SearchOptions {
+  indexName?: string;
+  collections?: string[];
+  topK?: number;
+  threshold?: number;
+  mode?: SearchMethod;
+  filter?: MetadataFilter;
+  rerank?: RerankProvider;
+}
+
+// Document-level fields copied onto every chunk so searches can filter on them
+export interface DocumentChunkMetadata {
+  filename?: string;
+  uploadedAt?: string; // ISO timestamp
+  tags?: string[];
 }
 
+export interface DocumentChunk {
+  id: string;
+  text: string;
+  tokenCount: number;
+  metadata: Record<string, any>;
+}
+
+export const DEFAULT_COLLECTION = 'pm-handbook';
+
+// The handbook seeded from envConfig.handbookPath at startup (no stored upload)
+export const HANDBOOK_DOC_ID = 'pm-handbook-initial';
+
+// Collection names double as index file names in local mode, so keep them slug-shaped
+export const COLLECTION_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+const RESERVED_COLLECTION_NAMES = new Set(['document-tracking', 'keyword', 'cache']);
+
+export function isValidCollectionName(name: string): boolean {
+  return COLLECTION_NAME_PATTERN.test(name) && !RESERVED_COLLECTION_NAMES.has(name);
+}
+
+// Each retriever contributes this many candidates per requested result before fusion
+const FUSION_CANDIDATE_MULTIPLIER = 3;
+
 export class RAGService {
   static async initialize(): Promise<void> {
     console.log('[RAGService] Initializing...');
@@ -36,79 +91,219 @@ export class RAGService {
   }
 
   static async processDocument(
-    text: string,
+    content: string | DocumentSection[],
     documentId: string,
     options?: {
       maxSize?: number;
       overlap?: number;
+      collection?: string;
+      version?: number;
+      documentMetadata?: DocumentChunkMetadata;
+      onProgress?: (progress: EmbeddingProgress) => void;
+      onStage?: (stage: ProcessingStage, info: ProcessingStageInfo) => void;
     }
   ): Promise<ProcessingStats> {
     const startTime = Date.now();
-    const { maxSize = 4000, overlap = 500 } = options || {};
-    const indexName = 'pm-handbook';
+    const { maxSize = 4000, overlap = 500, collection: indexName = DEFAULT_COLLECTION, version, documentMetadata } = options || {};
     
     console.log(`[RAGService] Processing document: ${documentId} into index: ${indexName}`);
     
-    const doc = MDocument.fromText(text);
-    const chunks = await doc.chunk({
-      strategy: 'recursive',
-      maxSize,
-      overlap,
-    });
+    // Sections (numbered headings, underlined titles) stay whole when they fit in maxSize
+    const chunks = chunkBySection(
+      typeof content === 'string' ? [{ text: content }] : content,
+      { maxSize, overlap }
+    );
     
     console.log(`[RAGService] Created ${chunks.length} chunks`);
     
-    const embeddings = await generateEmbeddings(chunks.map(chunk => chunk.text));
-    
-    console.log(`[RAGService] Generated ${embeddings.length} embeddings`);
+    // Only chunks whose text (under the current model) has never been embedded go to the provider
+    const modelId = EmbeddingService.modelId;
+    const texts = chunks.map(chunk => chunk.text);
+    const { embeddings, hits: cachedChunks } = await embeddingCache.get(modelId, texts);
+    const missing = texts.map((_, idx) => idx).filter(idx => embeddings[idx] === null);
+    options?.onStage?.('chunked', { totalChunks: chunks.length, cachedChunks });
+
+    const { embeddings: fresh, stats: embeddingBatches, errors } = await EmbeddingService.embedTexts(
+      missing.map(idx => texts[idx]),
+      { onProgress: options?.onProgress }
+    );
+    missing.forEach((chunkIdx, position) => {
+      embeddings[chunkIdx] = fresh[position];
+    });
+
+    await embeddingCache.set(modelId, missing
+      .filter((_, position) => fresh[position] !== null)
+      .map(chunkIdx => ({ text: texts[chunkIdx], embedding: embeddings[chunkIdx]! })));
+
+    console.log(`[RAGService] Generated ${embeddingBatches.embeddedTexts} embeddings, reused ${cachedChunks} from cache (${embeddingBatches.retries} retries)`);
+
+    if (chunks.length > 0 && embeddingBatches.embeddedTexts + cachedChunks === 0) {
+      throw new Error(`Embedding failed for every chunk: ${errors.join('; ')}`);
+    }
+    options?.onStage?.('embedded', { totalChunks: chunks.length, cachedChunks });
     
-    const metadata = chunks.map((chunk, idx) => ({
+    // Only chunks that were embedded are stored; failed batches are reported, not retried here
+    const embedded = chunks
+      .map((chunk, idx) => ({ chunk, idx, vector: embeddings[idx] }))
+      .filter((entry): entry is { chunk: typeof chunks[number]; idx: number; vector: number[] } => entry.vector !== null);
+
+    const metadata = embedded.map(({ chunk, idx }) => ({
       text: chunk.text,
       documentId,
+      collection: indexName,
       chunkIndex: idx,
+      ...(version !== undefined && { version }),
+      embeddingModel: modelId,
+      ...documentMetadata,
       ...chunk.metadata,
     }));
     
-    const chunkIds = chunks.map((_, idx) => `${documentId}-chunk-${idx}`);
+    // Versioned IDs let a new version be stored next to the current one before the swap
+    const chunkPrefix = version !== undefined ? `${documentId}-v${version}` : documentId;
+    const chunkIds = embedded.map(({ idx }) => `${chunkPrefix}-chunk-${idx}`);
     
     await vectorStore.upsert({
       indexName,
-      vectors: embeddings,
+      vectors: embedded.map(({ vector }) => vector),
       metadata,
       ids: chunkIds,
     });
     
     const processingTime = Date.now() - startTime;
-    console.log(`[RAGService] ✅ Processing complete in ${processingTime}ms`);
+    const failedChunks = chunks.length - embedded.length;
+    if (failedChunks > 0) {
+      console.warn(`[RAGService] ⚠️ Processing complete in ${processingTime}ms with ${failedChunks} of ${chunks.length} chunks not embedded`);
+    } else {
+      console.log(`[RAGService] ✅ Processing complete in ${processingTime}ms`);
+    }
     
     return {
       totalChunks: chunks.length,
-      totalEmbeddings: embeddings.length,
+      totalEmbeddings: embedded.length,
       processingTime,
       chunkIds,
+      failedChunks,
+      cachedChunks,
+      embeddingBatches,
+      ...(errors.length > 0 && { errors }),
     };
   }
 
-  static async search(
-    query: string,
-    options?: {
-      indexName?: string;
-      topK?: number;
-      threshold?: number;
+  static async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    const { indexName = DEFAULT_COLLECTION, topK = 5, threshold = EmbeddingService.calibrateThreshold(0.5), mode = 'hybrid', filter, rerank = envConfig.rerankProvider } = options || {};
+    const collections = options?.collections?.length ? Array.from(new Set(options.collections)) : [indexName];
+
+    // A reranker reorders a wider candidate set, so chunks just outside the top K can move up
+    const candidates = rerank === 'none' ? topK : Math.max(topK, envConfig.rerankCandidates);
+
+    let results: SearchResult[];
+    if (collections.length === 1) {
+      results = await this.searchCollection(query, collections[0], candidates, threshold, mode, filter);
+    } else {
+      // Scores are on the same 0-1 scale in every collection for a given mode, so merging by score
+      // interleaves the collections' rankings
+      const perCollection = await Promise.all(
+        collections.map(collection => this.searchCollection(query, collection, candidates, threshold, mode, filter))
+      );
+      results = perCollection.flat().sort((a, b) => b.score - a.score).slice(0, candidates);
+
+      console.log(`[RAGService] Merged ${results.length} results from collections: ${collections.join(', ')}`);
     }
+
+    return RerankService.rerank(query, results, { provider: rerank, topK });
+  }
+
+  /**
+   * Searches several phrasings of one question in parallel and fuses their rankings with
+   * reciprocal rank fusion, so a chunk found by several rewrites ranks highest. The fused
+   * candidates are reranked once; each result lists the queries that retrieved it.
+   */
+  static async searchMany(queries: string[], options?: SearchOptions): Promise<SearchResult[]> {
+    const distinct = Array.from(new Set(queries.map(query => query.trim()).filter(Boolean)));
+    if (distinct.length <= 1) {
+      return (await this.search(distinct[0] ?? '', options)).map(result => ({ ...result, matchedQueries: distinct }));
+    }
+
+    const { topK = 5, rerank = envConfig.rerankProvider } = options || {};
+    const candidates = rerank === 'none' ? topK : Math.max(topK, envConfig.rerankCandidates);
+
+    const perQuery = await Promise.all(
+      distinct.map(query => this.search(query, { ...options, topK: candidates, rerank: 'none' }))
+    );
+
+    // Chunk IDs are only unique within a collection
+    const keyOf = (result: SearchResult) => `${result.collection}:${result.id}`;
+    const byKey = new Map<string, SearchResult>();
+    const matched = new Map<string, string[]>();
+    perQuery.forEach((results, queryIdx) => {
+      for (const result of results) {
+        const key = keyOf(result);
+        if (!byKey.has(key)) byKey.set(key, result);
+        matched.set(key, [...(matched.get(key) ?? []), distinct[queryIdx]]);
+      }
+    });
+
+    const fused = reciprocalRankFusion(perQuery.map(results => results.map(keyOf)))
+      .slice(0, candidates)
+      .map(entry => ({ ...byKey.get(entry.id)!, score: entry.score, matchedQueries: matched.get(entry.id)! }));
+
+    console.log(`[RAGService] Fused ${perQuery.map(results => results.length).join(' + ')} results from ${distinct.length} queries into ${fused.length}`);
+
+    return RerankService.rerank(distinct, fused, { provider: rerank, topK });
+  }
+
+  private static async searchCollection(
+    query: string,
+    indexName: string,
+    topK: number,
+    threshold: number,
+    mode: SearchMethod,
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
-    const { indexName = 'pm-handbook', topK = 5, threshold = 0.5 } = options || {};
-    
-    console.log(`[RAGService] Searching: "${query}" in index: ${indexName}`);
+    console.log(`[RAGService] Searching (${mode}): "${query}" in index: ${indexName}${filter ? ` with filter ${JSON.stringify(filter)}` : ''}`);
+
+    const candidates = mode === 'hybrid' ? topK * FUSION_CANDIDATE_MULTIPLIER : topK;
+    const [vectorResults, keywordResults] = await Promise.all([
+      mode === 'keyword' ? [] : this.vectorSearch(query, indexName, candidates, threshold, filter),
+      mode === 'vector' ? [] : this.keywordSearch(query, indexName, candidates, filter),
+    ]);
+
+    if (mode !== 'hybrid') {
+      const results = mode === 'vector' ? vectorResults : keywordResults;
+      console.log(`[RAGService] Found ${results.length} ${mode} results`);
+      return results.slice(0, topK);
+    }
+
+    // Reciprocal rank fusion: a chunk found by both retrievers outranks one found by either alone
+    const byId = new Map<string, SearchResult>();
+    for (const result of [...vectorResults, ...keywordResults]) {
+      const existing = byId.get(result.id);
+      byId.set(result.id, existing
+        ? { ...existing, ...result, searchMethod: 'hybrid', vectorScore: existing.vectorScore, keywordScore: result.keywordScore }
+        : result);
+    }
+
+    const fused = reciprocalRankFusion([
+      vectorResults.map(result => result.id),
+      keywordResults.map(result => result.id),
+    ])
+      .slice(0, topK)
+      .map(entry => ({ ...byId.get(entry.id)!, score: entry.score }));
+
+    console.log(`[RAGService] Fused ${vectorResults.length} vector + ${keywordResults.length} keyword results into ${fused.length}`);
     
-    const embeddings = await generateEmbeddings([query]);
-    const queryEmbedding = embeddings[0];
+    return fused;
+  }
+
+  private static async vectorSearch(query: string, indexName: string, topK: number, threshold: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    const queryEmbedding = await EmbeddingService.embedQuery(query);
     
     const results = await vectorStore.query({
       indexName,
       queryVector: queryEmbedding,
       topK,
       includeVector: false,
+      filter,
     });
 
     const filteredResults = results
@@ -118,34 +313,61 @@ export class RAGService {
         text: r.document || r.metadata?.text || '',
         score: r.score,
         metadata: r.metadata,
+        collection: indexName,
+        searchMethod: 'vector' as const,
+        vectorScore: r.score,
       }));
     
-    console.log(`[RAGService] Found ${filteredResults.length} results above threshold ${threshold}`);
+    console.log(`[RAGService] Vector search found ${filteredResults.length} results above threshold ${threshold}`);
     
     return filteredResults;
   }
 
+  private static async keywordSearch(query: string, indexName: string, topK: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    const results = await vectorStore.keywordQuery({ indexName, queryText: query, topK, filter });
+    const topScore = results[0]?.score || 1;
+
+    console.log(`[RAGService] Keyword search found ${results.length} results`);
+
+    // BM25 scores are unbounded, so the standalone score is relative to the best match
+    return results.map(r => ({
+      id: r.id,
+      text: r.text,
+      score: r.score / topScore,
+      metadata: { ...r.metadata, text: r.text },
+      collection: indexName,
+      searchMethod: 'keyword' as const,
+      keywordScore: r.score,
+    }));
+  }
+
   static async deleteIndex(indexName: string): Promise<void> {
     console.log(`[RAGService] Deleting index: ${indexName}`);
     await vectorStore.deleteIndex({ indexName });
     console.log(`[RAGService] ✅ Index deleted: ${indexName}`);
   }
 
-  static async deleteDocumentChunks(chunkIds: string[]): Promise<void> {
-    const indexName = 'pm-handbook';
+  static async deleteDocumentChunks(chunkIds: string[], indexName: string = DEFAULT_COLLECTION): Promise<void> {
     console.log(`[RAGService] Deleting ${chunkIds.length} chunks from index: ${indexName}`);
     
-    for (const chunkId of chunkIds) {
-      await vectorStore.deleteVector({
-        indexName,
-        id: chunkId,
-      });
-    }
+    await vectorStore.deleteVectors({ indexName, ids: chunkIds });
     
     console.log(`[RAGService] ✅ Deleted ${chunkIds.length} chunks`);
   }
 
-  static async getStats(indexName: string = 'pm-handbook'): Promise<{
+  // Stored chunks in document order, as they were embedded
+  static async getDocumentChunks(chunkIds: string[], indexName: string = DEFAULT_COLLECTION): Promise<DocumentChunk[]> {
+    const stored = await vectorStore.getVectors({ indexName, ids: chunkIds });
+
+    return stored
+      .map(({ id, metadata }) => {
+        const { text = '', ...rest } = metadata;
+        return { id, text, tokenCount: countTokens(text), metadata: rest };
+      })
+      .sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+  }
+
+  static async getStats(indexName: string = DEFAULT_COLLECTION): Promise<{
     totalDocuments: number;
     dimensions: number;
     metric: string;
@@ -0,0 +1,151 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { MastraAgentRelevanceScorer } from '@mastra/rag';
+import { envConfig } from '../config/environment';
+import { vectorStore } from './VectorStore';
+import { EmbeddingService } from './EmbeddingService';
+import { scoreLexicalRelevance } from '../utils/crossScorer';
+import type { SearchResult } from './RAGService';
+
+export type RerankProvider = 'llm' | 'local' | 'none';
+
+// The local cross-scorer blends query/chunk embedding similarity with lexical relevance
+const LOCAL_EMBEDDING_WEIGHT = 0.5;
+const LOCAL_LEXICAL_WEIGHT = 0.5;
+
+let llmScorer: MastraAgentRelevanceScorer | null = null;
+
+function getLlmScorer(): MastraAgentRelevanceScorer {
+  if (!llmScorer) {
+    const openaiClient = createOpenAI({ apiKey: envConfig.openAIKey });
+    llmScorer = new MastraAgentRelevanceScorer('reranker', openaiClient(envConfig.rerankModel));
+    console.log(`[RerankService] Using LLM reranker (${envConfig.rerankModel})`);
+  }
+  return llmScorer;
+}
+
+// Section and heading titles travel with the text so both scorers can see what a chunk is about
+function describeChunk(result: SearchResult): { title: string; text: string } {
+  const metadata = result.metadata || {};
+  const title = [
+    metadata.chapterTitle,
+    metadata.sectionNumber,
+    metadata.sectionTitle,
+    ...(Array.isArray(metadata.headingPath) ? metadata.headingPath : []),
+  ].filter(part => typeof part === 'string' && part.length > 0).join(' ');
+
+  return { title, text: result.text };
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function clamp(score: number): number {
+  return Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0;
+}
+
+export class RerankService {
+  /**
+   * Reorders retrieved chunks by a second-stage relevance score and keeps the best topK.
+   * Each returned result carries its rerankScore (0-1); its retrieval score is unchanged.
+   * With several phrasings of the question, the local scorer keeps each chunk's best score
+   * and the LLM scorer reads the first (the user's own words).
+   * If the reranker fails, the retrieval order is kept so search still answers.
+   */
+  static async rerank(
+    query: string | string[],
+    results: SearchResult[],
+    options: { provider?: RerankProvider; topK: number }
+  ): Promise<SearchResult[]> {
+    const { provider = envConfig.rerankProvider, topK } = options;
+
+    if (provider === 'none' || results.length === 0) {
+      return results.slice(0, topK);
+    }
+
+    const queries = Array.isArray(query) ? query : [query];
+    const startTime = Date.now();
+    try {
+      const scores = provider === 'llm'
+        ? await this.scoreWithLlm(queries[0], results)
+        : await this.scoreLocally(queries, results);
+
+      const reranked = results
+        .map((result, idx) => ({ result: { ...result, rerankScore: Math.round(scores[idx] * 1000) / 1000 }, idx }))
+        .sort((a, b) => b.result.rerankScore - a.result.rerankScore || a.idx - b.idx)
+        .slice(0, topK);
+
+      const moved = reranked.filter((entry, position) => entry.idx !== position).length;
+      console.log(`[RerankService] Reranked ${results.length} candidates with ${provider} scorer in ${Date.now() - startTime}ms (${moved} of top ${reranked.length} moved)`);
+
+      return reranked.map(entry => entry.result);
+    } catch (error) {
+      console.error(`[RerankService] ${provider} reranking failed, keeping retrieval order:`, error instanceof Error ? error.message : error);
+      return results.slice(0, topK);
+    }
+  }
+
+  private static async scoreWithLlm(query: string, results: SearchResult[]): Promise<number[]> {
+    const scorer = getLlmScorer();
+    const scores: number[] = new Array(results.length).fill(0);
+
+    let next = 0;
+    const worker = async () => {
+      while (next < results.length) {
+        const idx = next++;
+        const { title, text } = describeChunk(results[idx]);
+        scores[idx] = clamp(await scorer.getRelevanceScore(query, title ? `${title}\n\n${text}` : text));
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(envConfig.rerankConcurrency, results.length) }, worker));
+    return scores;
+  }
+
+  // Vector hits of a single query already carry their cosine similarity; other chunks need their stored vector
+  private static async scoreLocally(queries: string[], results: SearchResult[]): Promise<number[]> {
+    const reuseVectorScores = queries.length === 1;
+    const keyOf = (result: SearchResult) => `${result.collection}:${result.id}`;
+
+    const byCollection = new Map<string, string[]>();
+    for (const result of results) {
+      if (reuseVectorScores && result.vectorScore !== undefined) continue;
+      byCollection.set(result.collection, [...(byCollection.get(result.collection) ?? []), result.id]);
+    }
+
+    const vectors = new Map<string, number[]>();
+    await Promise.all(Array.from(byCollection, async ([indexName, ids]) => {
+      for (const { id, vector } of await vectorStore.getVectors({ indexName, ids, includeVector: true })) {
+        if (vector?.length) vectors.set(`${indexName}:${id}`, vector);
+      }
+    }));
+
+    // Similarities are stretched onto the 0-1 range the provider's scores actually use
+    const scale = EmbeddingService.calibrateThreshold(1);
+    const chunks = results.map(describeChunk);
+    const scores = results.map(() => 0);
+
+    for (const query of queries) {
+      const queryEmbedding = await EmbeddingService.embedQuery(query);
+
+      results.forEach((result, idx) => {
+        const vector = vectors.get(keyOf(result));
+        const similarity = reuseVectorScores && result.vectorScore !== undefined
+          ? result.vectorScore
+          : vector ? cosineSimilarity(queryEmbedding, vector) : 0;
+        const lexical = scoreLexicalRelevance(query, chunks[idx].text, chunks[idx].title);
+        const score = LOCAL_EMBEDDING_WEIGHT * clamp(similarity / scale) + LOCAL_LEXICAL_WEIGHT * lexical.score;
+        scores[idx] = Math.max(scores[idx], score);
+      });
+    }
+
+    return scores;
+  }
+}
@@ -0,0 +1,402 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface StoredVector {
+  id: string;
+  vector: number[];
+  metadata?: Record<string, any>;
+}
+
+interface VectorLocation {
+  segment: number;
+  offset: number; // byte offset into the segment
+  dimension: number;
+}
+
+// One line of metadata.jsonl. A later line for the same ID supersedes the earlier one
+type MetadataRecord =
+  | ({ op: 'put'; id: string; metadata?: Record<string, any> } & Partial<VectorLocation>)
+  | { op: 'delete'; id: string };
+
+interface IndexState {
+  locations: Map<string, VectorLocation | null>; // null for entries stored without a vector
+  activeSegment: number;
+  activeSize: number;
+  records: number; // lines in metadata.jsonl, live or not
+}
+
+export interface SegmentStats {
+  live: number;
+  records: number;
+  segments: number;
+}
+
+// A new segment is started once the active one would grow past this
+const SEGMENT_MAX_BYTES = 64 * 1024 * 1024;
+const FLOAT_BYTES = Float32Array.BYTES_PER_ELEMENT;
+
+// Compact once superseded and deleted records make up this share of the log
+const COMPACTION_MIN_RECORDS = 500;
+const COMPACTION_GARBAGE_RATIO = 0.3;
+
+const METADATA_FILE = 'metadata.jsonl';
+const segmentFile = (segment: number) => `segment-${String(segment).padStart(6, '0')}.f32`;
+const SEGMENT_PATTERN = /^segment-(\d+)\.f32$/;
+
+/**
+ * On-disk format of the local vector store: one directory per index holding append-only
+ * Float32 vector segments (native little-endian byte order) and a metadata.jsonl sidecar
+ * that maps each chunk ID to its vector's segment and byte offset. Writes only append;
+ * deletes append tombstones, and compaction rewrites the live records once enough of the
+ * log is garbage. Vectors are appended before the metadata that points at them, so a
+ * crash mid-write leaves at most unreferenced bytes behind.
+ */
+export class SegmentedVectorStorage {
+  private states = new Map<string, IndexState>();
+
+  constructor(private readonly rootPath: string, private readonly legacyPath: string) {}
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.rootPath, { recursive: true });
+  }
+
+  async listIndexes(): Promise<string[]> {
+    const indexes = new Set<string>();
+
+    try {
+      for (const entry of await fs.readdir(this.rootPath, { withFileTypes: true })) {
+        if (entry.isDirectory()) indexes.add(entry.name);
+      }
+    } catch (error) {
+    }
+
+    // Not migrated yet
+    try {
+      for (const file of await fs.readdir(this.legacyPath)) {
+        const indexName = file.replace(/\.json$/, '');
+        if (file.endsWith('.json') && await this.isLegacyIndex(indexName)) indexes.add(indexName);
+      }
+    } catch (error) {
+    }
+
+    return Array.from(indexes);
+  }
+
+  async load(indexName: string): Promise<StoredVector[]> {
+    if (!await this.exists(this.getMetadataPath(indexName))) {
+      const legacy = await this.readLegacy(indexName);
+      if (!legacy) {
+        this.states.set(indexName, { locations: new Map(), activeSegment: 1, activeSize: 0, records: 0 });
+        return [];
+      }
+      await this.migrate(indexName, legacy);
+    }
+
+    const { records, lines } = await this.readMetadata(indexName);
+    const segments = new Map<number, Float32Array>();
+    const documents: StoredVector[] = [];
+    const locations = new Map<string, VectorLocation | null>();
+
+    for (const record of records.values()) {
+      if (record.segment === undefined || record.offset === undefined || !record.dimension) {
+        documents.push({ id: record.id, vector: [], metadata: record.metadata });
+        locations.set(record.id, null);
+        continue;
+      }
+
+      let floats = segments.get(record.segment);
+      if (!floats) {
+        floats = await this.readSegment(indexName, record.segment);
+        segments.set(record.segment, floats);
+      }
+
+      const start = record.offset / FLOAT_BYTES;
+      if (start + record.dimension > floats.length) {
+        console.warn(`[SegmentedVectorStorage] Vector for ${record.id} lies past the end of ${segmentFile(record.segment)}, skipping`);
+        continue;
+      }
+
+      documents.push({
+        id: record.id,
+        vector: Array.from(floats.subarray(start, start + record.dimension)),
+        metadata: record.metadata,
+      });
+      locations.set(record.id, { segment: record.segment, offset: record.offset, dimension: record.dimension });
+    }
+
+    const existingSegments = await this.listSegments(indexName);
+    let activeSegment = Math.max(1, ...existingSegments);
+    let activeSize = await this.fileSize(this.getSegmentPath(indexName, activeSegment));
+
+    // A torn write leaves a partial float; later offsets must stay aligned
+    if (activeSize % FLOAT_BYTES !== 0) {
+      activeSegment++;
+      activeSize = 0;
+    }
+
+    this.states.set(indexName, { locations, activeSegment, activeSize, records: lines });
+    return documents;
+  }
+
+  async put(indexName: string, documents: StoredVector[]): Promise<void> {
+    const records = await this.appendVectors(indexName, documents);
+    await this.appendMetadata(indexName, records);
+  }
+
+  // Appends the vectors to the active segment and returns the metadata records locating them
+  private async appendVectors(indexName: string, documents: StoredVector[]): Promise<MetadataRecord[]> {
+    const state = this.getState(indexName);
+    await fs.mkdir(this.getIndexPath(indexName), { recursive: true });
+
+    const records: MetadataRecord[] = [];
+    let pending: Buffer[] = [];
+
+    const flush = async () => {
+      if (pending.length === 0) return;
+      await fs.appendFile(this.getSegmentPath(indexName, state.activeSegment), Buffer.concat(pending));
+      pending = [];
+    };
+
+    for (const doc of documents) {
+      if (!doc.vector?.length) {
+        records.push({ op: 'put', id: doc.id, metadata: doc.metadata });
+        state.locations.set(doc.id, null);
+        continue;
+      }
+
+      const bytes = Buffer.from(Float32Array.from(doc.vector).buffer);
+      if (state.activeSize > 0 && state.activeSize + bytes.length > SEGMENT_MAX_BYTES) {
+        await flush();
+        state.activeSegment++;
+        state.activeSize = 0;
+      }
+
+      const location = { segment: state.activeSegment, offset: state.activeSize, dimension: doc.vector.length };
+      pending.push(bytes);
+      state.activeSize += bytes.length;
+      records.push({ op: 'put', id: doc.id, metadata: doc.metadata, ...location });
+      state.locations.set(doc.id, location);
+    }
+
+    await flush();
+    return records;
+  }
+
+  // Rewrites an entry's metadata without appending its vector again
+  async updateMetadata(indexName: string, id: string, metadata: Record<string, any>): Promise<void> {
+    const state = this.getState(indexName);
+    if (!state.locations.has(id)) return;
+
+    const location = state.locations.get(id);
+    await this.appendMetadata(indexName, [{ op: 'put', id, metadata, ...(location ?? {}) }]);
+  }
+
+  async delete(indexName: string, ids: string[]): Promise<number> {
+    const state = this.getState(indexName);
+    const deleted = ids.filter(id => state.locations.delete(id));
+
+    await this.appendMetadata(indexName, deleted.map(id => ({ op: 'delete' as const, id })));
+    return deleted.length;
+  }
+
+  needsCompaction(indexName: string): boolean {
+    const { records, locations } = this.getState(indexName);
+    return records >= COMPACTION_MIN_RECORDS && (records - locations.size) / records >= COMPACTION_GARBAGE_RATIO;
+  }
+
+  /**
+   * Writes the live documents into fresh segments and a new metadata log, then drops the
+   * old segments. The log is swapped in with a rename, so a crash leaves either the old
+   * or the new index, plus unreferenced segments the next compaction removes.
+   */
+  async compact(indexName: string, documents: StoredVector[]): Promise<void> {
+    const state = this.getState(indexName);
+    const previousSegments = await this.listSegments(indexName);
+    const before = state.records;
+
+    state.locations = new Map();
+    state.activeSegment = Math.max(state.activeSegment, ...previousSegments) + 1;
+    state.activeSize = 0;
+    state.records = 0;
+
+    const metadataPath = this.getMetadataPath(indexName);
+    const records = await this.appendVectors(indexName, documents);
+    await fs.writeFile(`${metadataPath}.compacting`, records.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf-8');
+    await fs.rename(`${metadataPath}.compacting`, metadataPath);
+    state.records = records.length;
+
+    const firstNewSegment = Math.max(0, ...previousSegments) + 1;
+    for (const segment of await this.listSegments(indexName)) {
+      if (segment < firstNewSegment) {
+        await fs.rm(this.getSegmentPath(indexName, segment), { force: true });
+      }
+    }
+
+    console.log(`[SegmentedVectorStorage] Compacted ${indexName}: ${before} → ${state.records} records`);
+  }
+
+  async deleteIndex(indexName: string): Promise<void> {
+    this.states.delete(indexName);
+    await fs.rm(this.getIndexPath(indexName), { recursive: true, force: true });
+    if (await this.isLegacyIndex(indexName)) {
+      await fs.rm(this.getLegacyPath(indexName), { force: true });
+    }
+  }
+
+  stats(indexName: string): SegmentStats {
+    const state = this.getState(indexName);
+    const segments = new Set<number>();
+    for (const location of state.locations.values()) {
+      if (location) segments.add(location.segment);
+    }
+    return { live: state.locations.size, records: state.records, segments: segments.size };
+  }
+
+  private getState(indexName: string): IndexState {
+    const state = this.states.get(indexName);
+    if (!state) {
+      throw new Error(`Index ${indexName} has not been loaded`);
+    }
+    return state;
+  }
+
+  private async appendMetadata(indexName: string, records: MetadataRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await fs.mkdir(this.getIndexPath(indexName), { recursive: true });
+    await fs.appendFile(
+      this.getMetadataPath(indexName),
+      records.map(record => `${JSON.stringify(record)}\n`).join(''),
+      'utf-8'
+    );
+    this.getState(indexName).records += records.length;
+  }
+
+  private async readMetadata(indexName: string): Promise<{ records: Map<string, Extract<MetadataRecord, { op: 'put' }>>; lines: number }> {
+    const metadataPath = this.getMetadataPath(indexName);
+    let content = await fs.readFile(metadataPath, 'utf-8');
+
+    // A torn final append has no newline; drop it so the next append starts on a fresh line
+    if (content.length > 0 && !content.endsWith('\n')) {
+      content = content.slice(0, content.lastIndexOf('\n') + 1);
+      await fs.truncate(metadataPath, Buffer.byteLength(content, 'utf-8'));
+      console.warn(`[SegmentedVectorStorage] Dropped a partially written metadata line in ${indexName}`);
+    }
+
+    const records = new Map<string, Extract<MetadataRecord, { op: 'put' }>>();
+    let lines = 0;
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: MetadataRecord;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        console.warn(`[SegmentedVectorStorage] Skipping unreadable metadata line in ${indexName}`);
+        continue;
+      }
+
+      lines++;
+      if (record.op === 'delete') {
+        records.delete(record.id);
+      } else {
+        records.set(record.id, record);
+      }
+    }
+
+    return { records, lines };
+  }
+
+  private async readSegment(indexName: string, segment: number): Promise<Float32Array> {
+    try {
+      const buffer = await fs.readFile(this.getSegmentPath(indexName, segment));
+      const usable = buffer.byteLength - (buffer.byteLength % FLOAT_BYTES);
+      // Copy into a fresh ArrayBuffer so the Float32Array view is aligned
+      return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + usable));
+    } catch (error) {
+      console.warn(`[SegmentedVectorStorage] Missing segment ${segmentFile(segment)} for ${indexName}`);
+      return new Float32Array(0);
+    }
+  }
+
+  private async listSegments(indexName: string): Promise<number[]> {
+    try {
+      return (await fs.readdir(this.getIndexPath(indexName)))
+        .map(file => SEGMENT_PATTERN.exec(file))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => parseInt(match[1], 10));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Other JSON files share the legacy directory (document-tracking.json); indexes are arrays
+  private async isLegacyIndex(indexName: string): Promise<boolean> {
+    let file: fs.FileHandle | null = null;
+    try {
+      file = await fs.open(this.getLegacyPath(indexName), 'r');
+      const { buffer, bytesRead } = await file.read(Buffer.alloc(64), 0, 64, 0);
+      return buffer.toString('utf-8', 0, bytesRead).trimStart().startsWith('[');
+    } catch (error) {
+      return false;
+    } finally {
+      await file?.close();
+    }
+  }
+
+  private async readLegacy(indexName: string): Promise<StoredVector[] | null> {
+    if (!await this.isLegacyIndex(indexName)) return null;
+
+    try {
+      const documents = JSON.parse(await fs.readFile(this.getLegacyPath(indexName), 'utf-8'));
+      return Array.isArray(documents) ? documents : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // One-time conversion of an embeddings/<index>.json file; the original is kept as .json.migrated
+  private async migrate(indexName: string, documents: StoredVector[]): Promise<void> {
+    console.log(`[SegmentedVectorStorage] Migrating ${indexName}.json (${documents.length} vectors) to segments`);
+
+    await fs.rm(this.getIndexPath(indexName), { recursive: true, force: true });
+    this.states.set(indexName, { locations: new Map(), activeSegment: 1, activeSize: 0, records: 0 });
+    await this.put(indexName, documents);
+
+    await fs.rename(this.getLegacyPath(indexName), `${this.getLegacyPath(indexName)}.migrated`);
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async fileSize(filePath: string): Promise<number> {
+    try {
+      return (await fs.stat(filePath)).size;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  private getIndexPath(indexName: string): string {
+    return path.join(this.rootPath, path.basename(indexName));
+  }
+
+  private getMetadataPath(indexName: string): string {
+    return path.join(this.getIndexPath(indexName), METADATA_FILE);
+  }
+
+  private getSegmentPath(indexName: string, segment: number): string {
+    return path.join(this.getIndexPath(indexName), segmentFile(segment));
+  }
+
+  private getLegacyPath(indexName: string): string {
+    return path.join(this.legacyPath, `${path.basename(indexName)}.json`);
+  }
+}
@@ -0,0 +1,173 @@
+import type { Employee, EmployeeSkill, Seniority } from '../types/team.types';
+import { SENIORITY_LEVELS, weekStartOf, addWeeks, freeHoursForWeek } from '../utils/teamHelpers';
+import { findHourExpectation, RESOURCING_POLICY_SECTION } from '../data/resourcingPolicy';
+
+export interface TeamMatchCriteria {
+  role?: string;
+  skills?: string[];
+  minProficiency?: number;
+  minSeniority?: Seniority;
+  location?: string;
+  minHoursPerWeek?: number;
+  weeks?: number;
+  startDate?: string;
+  limit?: number;
+}
+
+export interface WeeklyAvailability {
+  weekStart: string;
+  freeHours: number;
+}
+
+export interface TeamMatch {
+  name: string;
+  role: string;
+  seniority: Seniority;
+  status: Employee['status'];
+  location?: string;
+  timezone?: string;
+  skills: EmployeeSkill[];
+  weeklyAvailability: WeeklyAvailability[];
+  score: number;
+  reasons: string[];
+  gaps: string[];
+  warnings: string[];
+}
+
+export interface TeamMatchResult {
+  weeks: string[];
+  matches: TeamMatch[];
+  nearMisses: TeamMatch[];
+}
+
+const DEFAULT_MIN_PROFICIENCY = 3;
+const MAX_NEAR_MISSES = 3;
+
+function findSkill(employee: Employee, skill: string): EmployeeSkill | undefined {
+  const wanted = skill.trim().toLowerCase();
+  return employee.skills.find(candidate => {
+    const name = candidate.name.toLowerCase();
+    return name === wanted || (wanted.length >= 3 && (name.includes(wanted) || wanted.includes(name)));
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class TeamMatchingService {
+  /**
+   * Ranks employees against skill, seniority, location and availability criteria.
+   * Role and location are hard filters; skill, seniority and hour shortfalls are
+   * reported as gaps so the closest candidates can still be offered as near misses.
+   */
+  static findMatches(employees: Employee[], criteria: TeamMatchCriteria, now: Date = new Date()): TeamMatchResult {
+    const weekCount = Math.max(1, criteria.weeks ?? 1);
+    const firstWeek = weekStartOf(criteria.startDate ? new Date(criteria.startDate) : now);
+    const weeks = Array.from({ length: weekCount }, (_, idx) => addWeeks(firstWeek, idx));
+    const minProficiency = criteria.minProficiency ?? DEFAULT_MIN_PROFICIENCY;
+    const requiredSkills = (criteria.skills || []).map(skill => skill.trim()).filter(Boolean);
+
+    const candidates = employees.filter(employee => {
+      if (criteria.role) {
+        const role = criteria.role.toLowerCase();
+        if (!employee.role.toLowerCase().includes(role) && !employee.name.toLowerCase().includes(role)) return false;
+      }
+      if (criteria.location) {
+        const location = criteria.location.toLowerCase();
+        const place = `${employee.location || ''} ${employee.timezone || ''}`.toLowerCase();
+        if (!place.includes(location)) return false;
+      }
+      return true;
+    });
+
+    const scored = candidates.map(employee => {
+      const reasons: string[] = [];
+      const gaps: string[] = [];
+      const warnings: string[] = [];
+
+      // Skills
+      let skillScore = 0.5;
+      if (requiredSkills.length > 0) {
+        const levels = requiredSkills.map(skill => {
+          const match = findSkill(employee, skill);
+          if (!match) {
+            gaps.push(`No ${skill} skill recorded`);
+            return 0;
+          }
+          if (match.proficiency < minProficiency) {
+            gaps.push(`${match.name} proficiency ${match.proficiency}/5 is below ${minProficiency}/5`);
+          } else {
+            reasons.push(`${match.name} ${match.proficiency}/5`);
+          }
+          return match.proficiency;
+        });
+        skillScore = levels.reduce((total, level) => total + level, 0) / (requiredSkills.length * 5);
+      }
+
+      // Seniority
+      const seniorityRank = SENIORITY_LEVELS.indexOf(employee.seniority);
+      if (criteria.minSeniority) {
+        if (seniorityRank >= SENIORITY_LEVELS.indexOf(criteria.minSeniority)) {
+          reasons.push(`${employee.seniority} meets ${criteria.minSeniority}+ requirement`);
+        } else {
+          gaps.push(`${employee.seniority} is below ${criteria.minSeniority}`);
+        }
+      }
+
+      // Availability across the requested window
+      const weeklyAvailability = weeks.map(weekStart => ({ weekStart, freeHours: freeHoursForWeek(employee, weekStart) }));
+      const minFree = Math.min(...weeklyAvailability.map(week => week.freeHours));
+      const expectation = findHourExpectation(employee.role, employee.seniority);
+      const requiredHours = criteria.minHoursPerWeek ?? expectation?.minHours ?? 0;
+      const window = weekCount === 1 ? 'this week' : `each of the next ${weekCount} weeks`;
+      const hoursSource = criteria.minHoursPerWeek === undefined && expectation
+        ? ` (handbook §${RESOURCING_POLICY_SECTION} minimum for ${expectation.label})`
+        : '';
+
+      if (minFree >= requiredHours) {
+        reasons.push(`${minFree}h+ free in ${window}${requiredHours > 0 ? `, needs ${requiredHours}h${hoursSource}` : ''}`);
+      } else {
+        const shortWeeks = weeklyAvailability.filter(week => week.freeHours < requiredHours).map(week => week.weekStart);
+        gaps.push(`Only ${minFree}h free (needs ${requiredHours}h${hoursSource}) in week(s) ${shortWeeks.join(', ')}`);
+      }
+
+      if (criteria.minHoursPerWeek !== undefined && expectation && criteria.minHoursPerWeek < expectation.minHours) {
+        warnings.push(`Requested ${criteria.minHoursPerWeek}h/week is below the handbook §${RESOURCING_POLICY_SECTION} minimum of ${expectation.minHours}h for ${expectation.label}`);
+      }
+
+      const availabilityScore = Math.min(1, minFree / Math.max(requiredHours, 1));
+      const score = 0.5 * skillScore + 0.4 * availabilityScore + 0.1 * (seniorityRank / (SENIORITY_LEVELS.length - 1));
+
+      const match: TeamMatch = {
+        name: employee.name,
+        role: employee.role,
+        seniority: employee.seniority,
+        status: employee.status,
+        ...(employee.location && { location: employee.location }),
+        ...(employee.timezone && { timezone: employee.timezone }),
+        skills: employee.skills,
+        weeklyAvailability,
+        score: round(score),
+        reasons,
+        gaps,
+        warnings
+      };
+
+      return match;
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+
+    const matches = scored.filter(match => match.gaps.length === 0);
+    const nearMisses = scored
+      .filter(match => !matches.includes(match))
+      .slice(0, MAX_NEAR_MISSES);
+
+    return {
+      weeks,
+      matches: criteria.limit ? matches.slice(0, criteria.limit) : matches,
+      nearMisses
+    };
+  }
+}
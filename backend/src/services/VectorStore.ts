@@ -12,13 +12,32 @@ import fs from 'fs/promises';
 import path from 'path';
 import { CosmosClient, Container } from '@azure/cosmos';
 import { envConfig } from '../config/environment';
+import { keywordIndex, type KeywordQueryResult } from './KeywordIndex';
+import { EmbeddingService } from './EmbeddingService';
+import { SegmentedVectorStorage, type StoredVector } from './SegmentedVectorStorage';
+import { HnswGraph, measureRecall, type HnswNeighbor, type SerializedHnswGraph } from '../utils/hnsw';
+import { compileCosmosFilter, matchesMetadataFilter, validateMetadataFilter, type MetadataFilter } from '../utils/metadataFilter';
+
+// A local index held in memory: the stored vectors plus their HNSW graph
+interface LocalIndex {
+  documents: Map<string, StoredVector>;
+  graph: HnswGraph | null; // created with the first vector, which fixes the dimension
+}
 
-interface StoredVector {
-  id: string;
-  vector: number[];
-  metadata?: Record<string, any>;
+export interface RecallCheck {
+  indexName: string;
+  count: number;
+  queries: number;
+  topK: number;
+  recall: number;
 }
 
+// A persisted graph that finds less than this share of the exact top-k is rebuilt on load
+const MIN_LOAD_RECALL = 0.9;
+const LOAD_RECALL_SAMPLES = 20;
+// Graph saves are debounced, so indexing a document's batches rewrites the graph once
+const GRAPH_SAVE_DELAY_MS = 2_000;
+
 interface CosmosDocument {
   id: string;
   text?: string;
@@ -30,8 +49,16 @@ interface CosmosDocument {
 
 export class MastraVectorStore extends MastraVector {
   private static readonly LOCAL_STORAGE_PATH = path.join(process.cwd(), 'embeddings');
+  private static readonly GRAPH_STORAGE_PATH = path.join(process.cwd(), 'embeddings', 'hnsw');
   private cosmosClient: CosmosClient | null = null;
   private cosmosContainer: Container | null = null;
+  private localIndexes = new Map<string, Promise<LocalIndex>>();
+  private localWrites = new Map<string, Promise<void>>();
+  private graphSaves = new Map<string, { index: LocalIndex; timer: NodeJS.Timeout }>();
+  private localStorage = new SegmentedVectorStorage(
+    path.join(MastraVectorStore.LOCAL_STORAGE_PATH, 'vectors'),
+    MastraVectorStore.LOCAL_STORAGE_PATH
+  );
   
   constructor() {
     super();
@@ -39,13 +66,15 @@ export class MastraVectorStore extends MastraVector {
 
   async initialize(): Promise<void> {
     if (envConfig.storageType === 'local') {
-      await fs.mkdir(MastraVectorStore.LOCAL_STORAGE_PATH, { recursive: true });
+      await this.localStorage.initialize();
+      await fs.mkdir(MastraVectorStore.GRAPH_STORAGE_PATH, { recursive: true });
       console.log('[MastraVectorStore] Local storage initialized at:', MastraVectorStore.LOCAL_STORAGE_PATH);
     } else {
       console.log('[MastraVectorStore] Initializing Cosmos DB storage...');
       await this.initializeCosmosDB();
       console.log('[MastraVectorStore] ✅ Cosmos DB initialized');
     }
+    await keywordIndex.initialize();
   }
 
   private async initializeCosmosDB(): Promise<void> {
@@ -61,7 +90,9 @@ export class MastraVectorStore extends MastraVector {
       id: envConfig.cosmosDatabaseName || 'ProjectPal'
     });
 
-    const { container } = await database.containers.createIfNotExists({
+    const dimensions = await EmbeddingService.getDimensions();
+
+    const { container, resource } = await database.containers.createIfNotExists({
       id: envConfig.cosmosContainerName || 'embeddings',
       partitionKey: { paths: ['/metadata/source'] },
       indexingPolicy: {
@@ -76,12 +107,19 @@ export class MastraVectorStore extends MastraVector {
         vectorEmbeddings: [{
           path: '/embedding',
           dataType: 'float32' as any,
-          dimensions: 1536,
+          dimensions,
           distanceFunction: 'cosine' as any
         }]
       }
     });
 
+    // The vector policy is fixed at creation, so a provider switch needs a new container;
+    // failing here beats every later upsert and query failing
+    const existingDimensions = resource?.vectorEmbeddingPolicy?.vectorEmbeddings?.[0]?.dimensions;
+    if (existingDimensions && existingDimensions !== dimensions) {
+      throw new Error(`Cosmos container ${container.id} was created for ${existingDimensions}D vectors but ${EmbeddingService.modelId} produces ${dimensions}D. Set COSMOS_VECTOR_CONTAINER to a new container and re-ingest.`);
+    }
+
     this.cosmosContainer = container;
     console.log('[MastraVectorStore] Cosmos DB container ready:', container.id);
   }
@@ -117,32 +155,87 @@ export class MastraVectorStore extends MastraVector {
     } else {
       await this.upsertCosmos(indexName, documents);
     }
+
+    await this.indexKeywords(indexName, documents);
     
     return vectorIds;
   }
 
   async query(params: QueryVectorParams): Promise<QueryResult[]> {
-    const { indexName, queryVector, topK = 5, includeVector = false } = params;
+    const { indexName, queryVector, topK = 5, includeVector = false, filter } = params;
     
-    console.log(`[MastraVectorStore] Querying index: ${indexName}, topK: ${topK}`);
+    console.log(`[MastraVectorStore] Querying index: ${indexName}, topK: ${topK}${filter ? `, filter: ${JSON.stringify(filter)}` : ''}`);
+    validateMetadataFilter(filter);
     
     if (envConfig.storageType === 'local') {
-      return await this.queryLocal(indexName, queryVector, topK, includeVector);
+      return await this.queryLocal(indexName, queryVector, topK, includeVector, filter);
     } else {
-      return await this.queryCosmos(indexName, queryVector, topK, includeVector);
+      return await this.queryCosmos(indexName, queryVector, topK, includeVector, filter);
     }
   }
 
-  async listIndexes(): Promise<string[]> {
+  /**
+   * BM25 search over the chunk text. Indexes written before the keyword index existed
+   * are backfilled from the stored vectors on first use.
+   */
+  async keywordQuery(params: { indexName: string; queryText: string; topK?: number; filter?: MetadataFilter }): Promise<KeywordQueryResult[]> {
+    const { indexName, queryText, topK = 5, filter } = params;
+    validateMetadataFilter(filter);
+
+    if (await keywordIndex.count(indexName) === 0) {
+      const documents = envConfig.storageType === 'local'
+        ? Array.from((await this.loadLocalIndex(indexName)).documents.values())
+        : (await this.getCosmosDocuments(indexName)).map(doc => ({ id: doc.id, vector: doc.embedding, metadata: doc.metadata }));
+
+      if (documents.length > 0) {
+        console.log(`[MastraVectorStore] Backfilling keyword index for ${indexName} (${documents.length} chunks)`);
+        await this.indexKeywords(indexName, documents);
+      }
+    }
+
+    console.log(`[MastraVectorStore] Keyword query on index: ${indexName}, topK: ${topK}`);
+    return await keywordIndex.query(indexName, queryText, topK, filter);
+  }
+
+  // Point lookups by chunk ID; IDs that are not in the index are left out of the result
+  async getVectors(params: { indexName: string; ids: string[]; includeVector?: boolean }): Promise<Array<{
+    id: string;
+    metadata: Record<string, any>;
+    vector?: number[];
+  }>> {
+    const { indexName, ids, includeVector = false } = params;
+
+    let documents: StoredVector[];
     if (envConfig.storageType === 'local') {
-      try {
-        const files = await fs.readdir(MastraVectorStore.LOCAL_STORAGE_PATH);
-        return files
-          .filter(f => f.endsWith('.json'))
-          .map(f => f.replace('.json', ''));
-      } catch (error) {
-        return [];
+      const { documents: stored } = await this.loadLocalIndex(indexName);
+      documents = ids.flatMap(id => {
+        const doc = stored.get(id);
+        return doc ? [doc] : [];
+      });
+    } else {
+      if (!this.cosmosContainer) {
+        await this.initializeCosmosDB();
       }
+
+      const resources = await Promise.all(ids.map(async id => {
+        const { resource } = await this.cosmosContainer!.item(id, indexName).read<CosmosDocument>();
+        return resource;
+      }));
+      documents = resources.flatMap(doc => doc
+        ? [{ id: doc.id, vector: doc.embedding, metadata: { ...doc.metadata, text: doc.metadata.text ?? doc.text } }]
+        : []);
+    }
+
+    return documents.map(doc => ({
+      id: doc.id,
+      metadata: doc.metadata || {},
+      vector: includeVector ? doc.vector : undefined,
+    }));
+  }
+
+  async listIndexes(): Promise<string[]> {
+    if (envConfig.storageType === 'local') {
+      return await this.localStorage.listIndexes();
     } else {
       if (!this.cosmosContainer) {
         await this.initializeCosmosDB();
@@ -158,20 +251,17 @@ export class MastraVectorStore extends MastraVector {
     const { indexName } = params;
     
     if (envConfig.storageType === 'local') {
-      const documents = await this.getLocalDocuments(indexName);
-      const dimension = documents.length > 0 && documents[0]?.vector?.length 
-        ? documents[0].vector.length 
-        : 1536;
+      const { documents, graph } = await this.loadLocalIndex(indexName);
       return {
-        dimension,
-        count: documents.length,
+        dimension: graph?.dimension ?? await EmbeddingService.getDimensions(),
+        count: documents.size,
         metric: 'cosine',
       };
     } else {
       const documents = await this.getCosmosDocuments(indexName);
       const dimension = documents.length > 0 && documents[0]?.embedding?.length 
         ? documents[0].embedding.length 
-        : 1536;
+        : await EmbeddingService.getDimensions();
       return {
         dimension,
         count: documents.length,
@@ -185,11 +275,13 @@ export class MastraVectorStore extends MastraVector {
     console.log(`[MastraVectorStore] Deleting index: ${indexName}`);
     
     if (envConfig.storageType === 'local') {
-      const filePath = path.join(MastraVectorStore.LOCAL_STORAGE_PATH, `${indexName}.json`);
-      try {
-        await fs.unlink(filePath);
-      } catch (error) {
-      }
+      this.localIndexes.delete(indexName);
+      clearTimeout(this.graphSaves.get(indexName)?.timer);
+      this.graphSaves.delete(indexName);
+      await this.localWrites.get(indexName)?.catch(() => undefined);
+      await this.localStorage.deleteIndex(indexName);
+      await fs.rm(this.getGraphFilePath(indexName), { force: true });
+      await keywordIndex.deleteIndex(indexName);
     } else {
       if (!this.cosmosContainer) {
         await this.initializeCosmosDB();
@@ -206,6 +298,7 @@ export class MastraVectorStore extends MastraVector {
           this.cosmosContainer!.item(doc.id, indexName).delete()
         )
       );
+      await keywordIndex.deleteIndex(indexName);
     }
   }
 
@@ -213,17 +306,21 @@ export class MastraVectorStore extends MastraVector {
     const { indexName, id, update } = params;
     
     if (envConfig.storageType === 'local') {
-      const documents = await this.getLocalDocuments(indexName);
-      const index = documents.findIndex(doc => doc.id === id);
+      const index = await this.loadLocalIndex(indexName);
+      const document = index.documents.get(id);
       
-      if (index >= 0) {
+      if (document) {
         if (update.vector) {
-          documents[index].vector = update.vector;
+          document.vector = update.vector;
+          this.getGraph(index, update.vector.length).add(id, update.vector);
         }
         if (update.metadata) {
-          documents[index].metadata = { ...documents[index].metadata, ...update.metadata };
+          document.metadata = { ...document.metadata, ...update.metadata };
         }
-        await this.saveLocalDocuments(indexName, documents);
+        await this.saveLocalIndex(indexName, index, () => update.vector
+          ? this.localStorage.put(indexName, [document])
+          : this.localStorage.updateMetadata(indexName, id, document.metadata || {}));
+        await this.indexKeywords(indexName, [document]);
       }
     } else {
       if (!this.cosmosContainer) {
@@ -240,6 +337,7 @@ export class MastraVectorStore extends MastraVector {
         };
         
         await this.cosmosContainer!.items.upsert(updated);
+        await this.indexKeywords(indexName, [{ id, vector: updated.embedding, metadata: updated.metadata }]);
       }
     }
   }
@@ -248,9 +346,7 @@ export class MastraVectorStore extends MastraVector {
     const { indexName, id } = params;
     
     if (envConfig.storageType === 'local') {
-      const documents = await this.getLocalDocuments(indexName);
-      const filtered = documents.filter(doc => doc.id !== id);
-      await this.saveLocalDocuments(indexName, filtered);
+      await this.deleteLocal(indexName, [id]);
     } else {
       if (!this.cosmosContainer) {
         await this.initializeCosmosDB();
@@ -258,15 +354,70 @@ export class MastraVectorStore extends MastraVector {
       
       await this.cosmosContainer!.item(id, indexName).delete();
     }
+
+    await keywordIndex.delete(indexName, [id]);
   }
 
-  private async upsertLocal(indexName: string, documents: StoredVector[]): Promise<void> {
-    const existing = await this.getLocalDocuments(indexName);
-    const docMap = new Map(existing.map(doc => [doc.id, doc]));
+  // Deletes many vectors with one write; IDs that are not in the index are ignored
+  async deleteVectors(params: { indexName: string; ids: string[] }): Promise<void> {
+    const { indexName, ids } = params;
+    if (ids.length === 0) return;
+
+    console.log(`[MastraVectorStore] Deleting ${ids.length} vectors from index: ${indexName}`);
     
-    documents.forEach(doc => docMap.set(doc.id, doc));
+    if (envConfig.storageType === 'local') {
+      await this.deleteLocal(indexName, ids);
+    } else {
+      if (!this.cosmosContainer) {
+        await this.initializeCosmosDB();
+      }
+      
+      await Promise.all(ids.map(async id => {
+        try {
+          await this.cosmosContainer!.item(id, indexName).delete();
+        } catch (error: any) {
+          if (error.code !== 404) throw error;
+        }
+      }));
+    }
+
+    await keywordIndex.delete(indexName, ids);
+  }
+
+  private async deleteLocal(indexName: string, ids: string[]): Promise<void> {
+    const index = await this.loadLocalIndex(indexName);
+    const deleted = ids.filter(id => index.documents.delete(id));
+
+    if (deleted.length > 0) {
+      deleted.forEach(id => index.graph?.remove(id));
+      await this.saveLocalIndex(indexName, index, () => this.localStorage.delete(indexName, deleted).then(() => undefined));
+    }
+  }
+
+  private async indexKeywords(indexName: string, documents: StoredVector[]): Promise<void> {
+    const entries = documents
+      .filter(doc => typeof doc.metadata?.text === 'string' && doc.metadata.text.length > 0)
+      .map(({ id, metadata }) => {
+        const { text, ...rest } = metadata!;
+        return { id, text: text as string, metadata: rest };
+      });
+
+    if (entries.length > 0) {
+      await keywordIndex.upsert(indexName, entries);
+    }
+  }
+
+  private async upsertLocal(indexName: string, documents: StoredVector[]): Promise<void> {
+    const index = await this.loadLocalIndex(indexName);
+
+    for (const doc of documents) {
+      index.documents.set(doc.id, doc);
+      if (doc.vector?.length) {
+        this.getGraph(index, doc.vector.length).add(doc.id, doc.vector);
+      }
+    }
     
-    await this.saveLocalDocuments(indexName, Array.from(docMap.values()));
+    await this.saveLocalIndex(indexName, index, () => this.localStorage.put(indexName, documents));
   }
 
   private async upsertCosmos(indexName: string, documents: StoredVector[]): Promise<void> {
@@ -293,20 +444,127 @@ export class MastraVectorStore extends MastraVector {
     indexName: string, 
     queryVector: number[], 
     topK: number,
-    includeVector: boolean
+    includeVector: boolean,
+    filter?: MetadataFilter
   ): Promise<QueryResult[]> {
-    const documents = await this.getLocalDocuments(indexName);
+    const { documents, graph } = await this.loadLocalIndex(indexName);
+
+    if (!graph) {
+      return [];
+    }
+
+    if (queryVector.length !== graph.dimension) {
+      console.error(`[MastraVectorStore] Vector dimension mismatch: ${queryVector.length} vs ${graph.dimension}`);
+      return [];
+    }
+
+    // Filtered queries score only the matching chunks: walking the graph and discarding
+    // non-matches afterwards would come up short whenever the filter is selective
+    const neighbors = filter
+      ? this.scoreExact(queryVector, Array.from(documents.values()).filter(doc => doc.vector?.length && matchesMetadataFilter(doc.metadata, filter)), topK)
+      : graph.search(queryVector, topK);
     
-    const results = documents
-      .filter(doc => doc.vector && doc.vector.length > 0)
-      .map(doc => ({
-        id: doc.id,
-        score: this.cosineSimilarity(queryVector, doc.vector),
+    return neighbors.map(({ id, score }) => {
+      const doc = documents.get(id)!;
+      return {
+        id,
+        score,
         metadata: doc.metadata,
         vector: includeVector ? doc.vector : undefined,
-      }));
-    
-    return results
+      };
+    });
+  }
+
+  /**
+   * Compares HNSW search against exact search over the same vectors, using a sample of
+   * stored vectors as queries. Recall is the share of the exact top-k the graph finds.
+   */
+  async checkRecall(params: { indexName: string; sampleSize?: number; topK?: number }): Promise<RecallCheck> {
+    const { indexName, sampleSize = 100, topK = 10 } = params;
+
+    if (envConfig.storageType !== 'local') {
+      throw new Error('Recall checks apply to the local vector store only');
+    }
+
+    const { documents, graph } = await this.loadLocalIndex(indexName);
+    const queries = this.sampleVectors(documents, sampleSize);
+
+    return {
+      indexName,
+      count: documents.size,
+      queries: queries.length,
+      topK,
+      recall: graph ? measureRecall(graph, queries, topK) : 1,
+    };
+  }
+
+  // Reads an index from disk once; later reads and writes go through the in-memory copy
+  private loadLocalIndex(indexName: string): Promise<LocalIndex> {
+    let loading = this.localIndexes.get(indexName);
+    if (!loading) {
+      loading = this.readLocalIndex(indexName);
+      this.localIndexes.set(indexName, loading);
+      loading.catch(() => this.localIndexes.delete(indexName));
+    }
+    return loading;
+  }
+
+  private async readLocalIndex(indexName: string): Promise<LocalIndex> {
+    const documents = new Map((await this.localStorage.load(indexName)).map(doc => [doc.id, doc]));
+    const stored = Array.from(documents.values()).filter(doc => doc.vector?.length);
+    const index: LocalIndex = { documents, graph: null };
+
+    if (stored.length === 0) {
+      return index;
+    }
+
+    const serialized = await this.getSerializedGraph(indexName);
+    if (serialized && serialized.nodes.length === stored.length) {
+      try {
+        const graph = HnswGraph.fromJSON(serialized, new Map(stored.map(doc => [doc.id, doc.vector])));
+        const recall = measureRecall(graph, this.sampleVectors(documents, LOAD_RECALL_SAMPLES), 10);
+
+        if (recall >= MIN_LOAD_RECALL) {
+          console.log(`[MastraVectorStore] Loaded HNSW graph for ${indexName} (${graph.size} vectors, recall@10 ${recall.toFixed(2)})`);
+          index.graph = graph;
+          return index;
+        }
+        console.warn(`[MastraVectorStore] HNSW graph for ${indexName} has recall@10 ${recall.toFixed(2)}, rebuilding`);
+      } catch (error) {
+        console.warn(`[MastraVectorStore] HNSW graph for ${indexName} does not match its vectors, rebuilding:`, error);
+      }
+    }
+
+    const startTime = Date.now();
+    for (const doc of stored) {
+      this.getGraph(index, doc.vector.length).add(doc.id, doc.vector);
+    }
+    console.log(`[MastraVectorStore] Built HNSW graph for ${indexName} (${stored.length} vectors, ${Date.now() - startTime}ms)`);
+
+    await this.saveLocalIndex(indexName, index);
+    return index;
+  }
+
+  private getGraph(index: LocalIndex, dimension: number): HnswGraph {
+    if (!index.graph) {
+      index.graph = new HnswGraph(dimension);
+    }
+    return index.graph;
+  }
+
+  private sampleVectors(documents: Map<string, StoredVector>, sampleSize: number): number[][] {
+    const vectors = Array.from(documents.values(), doc => doc.vector).filter(vector => vector?.length);
+    const step = Math.max(1, vectors.length / sampleSize);
+    const sample: number[][] = [];
+    for (let i = 0; i < vectors.length && sample.length < sampleSize; i += step) {
+      sample.push(vectors[Math.floor(i)]);
+    }
+    return sample;
+  }
+
+  private scoreExact(queryVector: number[], documents: StoredVector[], topK: number): HnswNeighbor[] {
+    return documents
+      .map(doc => ({ id: doc.id, score: this.cosineSimilarity(queryVector, doc.vector) }))
       .sort((a, b) => b.score - a.score)
       .slice(0, topK);
   }
@@ -315,12 +573,15 @@ export class MastraVectorStore extends MastraVector {
     indexName: string, 
     queryVector: number[], 
     topK: number,
-    includeVector: boolean
+    includeVector: boolean,
+    filter?: MetadataFilter
   ): Promise<QueryResult[]> {
     if (!this.cosmosContainer) {
       await this.initializeCosmosDB();
     }
 
+    const compiledFilter = filter ? compileCosmosFilter(filter) : null;
+
     try {
       const querySpec = {
         query: `
@@ -331,13 +592,14 @@ export class MastraVectorStore extends MastraVector {
             ${includeVector ? 'c.embedding,' : ''}
             VectorDistance(c.embedding, @queryVector) AS score
           FROM c
-          WHERE c.metadata.source = @source
+          WHERE c.metadata.source = @source${compiledFilter ? ` AND ${compiledFilter.clause}` : ''}
           ORDER BY VectorDistance(c.embedding, @queryVector)
         `,
         parameters: [
           { name: '@topK', value: topK },
           { name: '@queryVector', value: queryVector },
-          { name: '@source', value: indexName }
+          { name: '@source', value: indexName },
+          ...(compiledFilter?.parameters ?? [])
         ]
       };
 
@@ -354,7 +616,8 @@ export class MastraVectorStore extends MastraVector {
       console.error('[MastraVectorStore] Cosmos vector search error, falling back to client-side:', error);
       
       // Fallback to client-side similarity
-      const documents = await this.getCosmosDocuments(indexName);
+      const documents = (await this.getCosmosDocuments(indexName))
+        .filter(doc => !filter || matchesMetadataFilter(doc.metadata, filter));
       const results = documents.map(doc => ({
         id: doc.id,
         score: this.cosineSimilarity(queryVector, doc.embedding),
@@ -369,20 +632,77 @@ export class MastraVectorStore extends MastraVector {
     }
   }
 
-  private async getLocalDocuments(indexName: string): Promise<StoredVector[]> {
-    const filePath = path.join(MastraVectorStore.LOCAL_STORAGE_PATH, `${indexName}.json`);
-    
+  private getGraphFilePath(indexName: string): string {
+    return path.join(MastraVectorStore.GRAPH_STORAGE_PATH, `${path.basename(indexName)}.json`);
+  }
+
+  private async getSerializedGraph(indexName: string): Promise<SerializedHnswGraph | null> {
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
+      return JSON.parse(await fs.readFile(this.getGraphFilePath(indexName), 'utf-8'));
     } catch (error) {
-      return [];
+      return null;
+    }
+  }
+
+  /**
+   * Runs a storage write, compacts the segments when enough of them is garbage, and
+   * schedules a graph save. Writes are chained per index so a slow write never lands after
+   * a newer one. A graph file that lags behind its vectors is rebuilt on load.
+   */
+  private saveLocalIndex(indexName: string, index: LocalIndex, writeVectors?: () => Promise<void>): Promise<void> {
+    if (writeVectors) {
+      this.enqueueLocalWrite(indexName, async () => {
+        await writeVectors();
+        if (this.localStorage.needsCompaction(indexName)) {
+          await this.localStorage.compact(indexName, Array.from(index.documents.values()));
+        }
+      });
+    }
+
+    const pending = this.graphSaves.get(indexName);
+    if (pending) {
+      pending.index = index;
+    } else {
+      const timer = setTimeout(() => {
+        this.saveGraph(indexName).catch(error => console.error(`[MastraVectorStore] Failed to save HNSW graph for ${indexName}:`, error));
+      }, GRAPH_SAVE_DELAY_MS);
+      this.graphSaves.set(indexName, { index, timer });
     }
+
+    return this.localWrites.get(indexName) ?? Promise.resolve();
+  }
+
+  // Writes pending graph saves now; scripts call this before exiting
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.graphSaves.keys(), indexName => this.saveGraph(indexName)));
+  }
+
+  // Serialized when the write runs, so one save covers every change made before it
+  private saveGraph(indexName: string): Promise<void> {
+    const pending = this.graphSaves.get(indexName);
+    if (!pending) return this.localWrites.get(indexName) ?? Promise.resolve();
+    clearTimeout(pending.timer);
+    this.graphSaves.delete(indexName);
+
+    return this.enqueueLocalWrite(indexName, async () => {
+      const filePath = this.getGraphFilePath(indexName);
+      await fs.mkdir(MastraVectorStore.GRAPH_STORAGE_PATH, { recursive: true });
+      if (pending.index.graph) {
+        await fs.writeFile(`${filePath}.tmp`, JSON.stringify(pending.index.graph.toJSON()), 'utf-8');
+        await fs.rename(`${filePath}.tmp`, filePath);
+      } else {
+        await fs.rm(filePath, { force: true });
+      }
+    });
   }
 
-  private async saveLocalDocuments(indexName: string, documents: StoredVector[]): Promise<void> {
-    const filePath = path.join(MastraVectorStore.LOCAL_STORAGE_PATH, `${indexName}.json`);
-    await fs.writeFile(filePath, JSON.stringify(documents, null, 2), 'utf-8');
+  private enqueueLocalWrite(indexName: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.localWrites.get(indexName) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(write);
+
+    this.localWrites.set(indexName, next);
+    return next;
   }
 
   private async getCosmosDocuments(indexName: string): Promise<CosmosDocument[]> {
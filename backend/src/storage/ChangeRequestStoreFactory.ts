@@ -0,0 +1,46 @@
+import { IChangeRequestStore } from '../types/changeRequest.types';
+import { FileChangeRequestStore } from './FileChangeRequestStore';
+import { CosmosChangeRequestStore } from './CosmosChangeRequestStore';
+import { envConfig } from '../config/environment';
+
+export class ChangeRequestStoreFactory {
+  private static instance: IChangeRequestStore | null = null;
+
+  static getInstance(): IChangeRequestStore {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    if (envConfig.changeRequestStorageType === 'cosmos') {
+      console.log('🌐 Using Cosmos DB for change request storage');
+
+      const endpoint = envConfig.cosmosDbEndpoint;
+      const key = envConfig.cosmosDbKey;
+
+      if (!endpoint || !key) {
+        console.error('❌ Cosmos DB credentials not configured, falling back to file storage');
+        this.instance = new FileChangeRequestStore(envConfig.changeRequestDir);
+      } else {
+        this.instance = new CosmosChangeRequestStore(
+          endpoint,
+          key,
+          envConfig.cosmosDbDatabase,
+          envConfig.cosmosChangeRequestContainer
+        );
+      }
+    } else {
+      console.log('📁 Using file-based change request storage');
+      this.instance = new FileChangeRequestStore(envConfig.changeRequestDir);
+    }
+
+    return this.instance;
+  }
+
+  static reset(): void {
+    this.instance = null;
+  }
+}
+
+export function getChangeRequestStore(): IChangeRequestStore {
+  return ChangeRequestStoreFactory.getInstance();
+}
@@ -0,0 +1,176 @@
+import { CosmosClient, Container, Database } from '@azure/cosmos';
+import {
+  IChangeRequestStore,
+  ChangeRequest,
+  CreateChangeRequestInput,
+  ChangeRequestUpdate,
+  ChangeRequestFilter
+} from '../types/changeRequest.types';
+import {
+  formatChangeId,
+  buildChangeRequest,
+  reviveChangeRequest,
+  applyChangeRequestUpdate,
+  CHANGE_ID_PREFIX
+} from '../utils/changeRequestHelpers';
+
+const SEQUENCE_ID = '_sequence';
+
+interface SequenceDocument {
+  id: string;
+  changeId: string;
+  sequence: number;
+  _etag?: string;
+}
+
+export class CosmosChangeRequestStore implements IChangeRequestStore {
+  private client: CosmosClient;
+  private database: Database | null = null;
+  private container: Container | null = null;
+  private isInitialized: boolean = false;
+
+  constructor(
+    private endpoint: string,
+    private key: string,
+    private databaseId: string = 'ProjectPalDB',
+    private containerId: string = 'ChangeRequests'
+  ) {
+    this.client = new CosmosClient({ endpoint, key });
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      const { database } = await this.client.databases.createIfNotExists({
+        id: this.databaseId
+      });
+      this.database = database;
+
+      const { container } = await database.containers.createIfNotExists({
+        id: this.containerId,
+        partitionKey: { paths: ['/changeId'] }
+      });
+      this.container = container;
+
+      this.isInitialized = true;
+      console.log(`✅ Cosmos DB initialized: ${this.databaseId}/${this.containerId}`);
+    } catch (error) {
+      console.error('Error initializing Cosmos DB:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<Container> {
+    await this.initialize();
+    if (!this.container) {
+      throw new Error('Cosmos DB container not initialized');
+    }
+    return this.container;
+  }
+
+  // Optimistic concurrency on the counter document keeps IDs unique across replicas
+  private async nextSequence(container: Container): Promise<number> {
+    while (true) {
+      try {
+        const { resource } = await container.item(SEQUENCE_ID, SEQUENCE_ID).read<SequenceDocument>();
+
+        if (!resource) {
+          await container.items.create<SequenceDocument>({ id: SEQUENCE_ID, changeId: SEQUENCE_ID, sequence: 1 });
+          return 1;
+        }
+
+        const next = resource.sequence + 1;
+        await container.item(SEQUENCE_ID, SEQUENCE_ID).replace<SequenceDocument>(
+          { id: SEQUENCE_ID, changeId: SEQUENCE_ID, sequence: next },
+          { accessCondition: { type: 'IfMatch', condition: resource._etag! } }
+        );
+        return next;
+      } catch (error: any) {
+        // 409: another replica created the counter first, 412: counter changed since we read it
+        if (error.code !== 409 && error.code !== 412) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async createChangeRequest(input: CreateChangeRequestInput): Promise<ChangeRequest> {
+    const container = await this.ensureInitialized();
+    const changeRequest = buildChangeRequest(formatChangeId(await this.nextSequence(container)), input);
+
+    await container.items.create({ id: changeRequest.changeId, ...changeRequest });
+    console.log(`✅ Created change request in Cosmos DB: ${changeRequest.changeId} (${changeRequest.estimatedImpact.level})`);
+
+    return changeRequest;
+  }
+
+  async getChangeRequest(changeId: string): Promise<ChangeRequest | null> {
+    try {
+      const container = await this.ensureInitialized();
+      const { resource } = await container.item(changeId, changeId).read();
+
+      if (!resource || resource.id === SEQUENCE_ID) {
+        return null;
+      }
+
+      return reviveChangeRequest(resource);
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      console.error(`Error reading change request ${changeId}:`, error);
+      throw error;
+    }
+  }
+
+  async listChangeRequests(filter?: ChangeRequestFilter): Promise<ChangeRequest[]> {
+    try {
+      const container = await this.ensureInitialized();
+
+      const conditions = ['STARTSWITH(c.changeId, @prefix)'];
+      const parameters: { name: string; value: string }[] = [{ name: '@prefix', value: CHANGE_ID_PREFIX }];
+
+      if (filter?.status) {
+        conditions.push('c.status = @status');
+        parameters.push({ name: '@status', value: filter.status });
+      }
+      if (filter?.impactLevel) {
+        conditions.push('c.estimatedImpact.level = @impactLevel');
+        parameters.push({ name: '@impactLevel', value: filter.impactLevel });
+      }
+      if (filter?.projectName) {
+        conditions.push(filter.exactProjectName
+          ? 'STRINGEQUALS(c.projectName, @projectName, true)'
+          : 'CONTAINS(c.projectName, @projectName, true)');
+        parameters.push({ name: '@projectName', value: filter.exactProjectName ? filter.projectName.trim() : filter.projectName });
+      }
+
+      const querySpec = {
+        query: `SELECT * FROM c WHERE ${conditions.join(' AND ')} ORDER BY c.submittedAt ASC`,
+        parameters
+      };
+
+      const { resources } = await container.items.query(querySpec).fetchAll();
+      return resources.map(reviveChangeRequest);
+    } catch (error) {
+      console.error('Error listing change requests:', error);
+      return [];
+    }
+  }
+
+  async updateChangeRequest(changeId: string, update: ChangeRequestUpdate): Promise<ChangeRequest | null> {
+    const container = await this.ensureInitialized();
+    const changeRequest = await this.getChangeRequest(changeId);
+
+    if (!changeRequest) {
+      return null;
+    }
+
+    const updated = applyChangeRequestUpdate(changeRequest, update);
+    await container.items.upsert({ id: updated.changeId, ...updated });
+    return updated;
+  }
+}
@@ -0,0 +1,107 @@
+import { CosmosClient, Container, Database } from '@azure/cosmos';
+import { IJobStore, IngestionJob, CreateIngestionJobInput, IngestionJobUpdate, IngestionJobFilter } from '../types/job.types';
+import { createJobRecord, reviveJob, applyJobUpdate } from '../utils/jobHelpers';
+
+export class CosmosJobStore implements IJobStore {
+  private client: CosmosClient;
+  private database: Database | null = null;
+  private container: Container | null = null;
+  private isInitialized: boolean = false;
+
+  constructor(
+    private endpoint: string,
+    private key: string,
+    private databaseId: string = 'ProjectPalDB',
+    private containerId: string = 'Jobs'
+  ) {
+    this.client = new CosmosClient({ endpoint, key });
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      const { database } = await this.client.databases.createIfNotExists({
+        id: this.databaseId
+      });
+      this.database = database;
+
+      const { container } = await database.containers.createIfNotExists({
+        id: this.containerId,
+        partitionKey: { paths: ['/jobId'] }
+      });
+      this.container = container;
+
+      this.isInitialized = true;
+      console.log(`✅ Cosmos DB initialized: ${this.databaseId}/${this.containerId}`);
+    } catch (error) {
+      console.error('Error initializing Cosmos DB:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<Container> {
+    await this.initialize();
+    if (!this.container) {
+      throw new Error('Cosmos DB container not initialized');
+    }
+    return this.container;
+  }
+
+  async createJob(input: CreateIngestionJobInput): Promise<IngestionJob> {
+    const container = await this.ensureInitialized();
+    const job = createJobRecord(input);
+
+    await container.items.create({ id: job.jobId, ...job });
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<IngestionJob | null> {
+    try {
+      const container = await this.ensureInitialized();
+      const { resource } = await container.item(jobId, jobId).read();
+
+      return resource ? reviveJob(resource) : null;
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      console.error(`Error reading job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  async listJobs(filter?: IngestionJobFilter): Promise<IngestionJob[]> {
+    try {
+      const container = await this.ensureInitialized();
+
+      const querySpec = filter?.status
+        ? {
+          query: 'SELECT * FROM c WHERE ARRAY_CONTAINS(@statuses, c.status) ORDER BY c.createdAt DESC',
+          parameters: [{ name: '@statuses', value: filter.status }]
+        }
+        : { query: 'SELECT * FROM c ORDER BY c.createdAt DESC' };
+
+      const { resources } = await container.items.query(querySpec).fetchAll();
+      return resources.map(reviveJob);
+    } catch (error) {
+      console.error('Error listing jobs:', error);
+      return [];
+    }
+  }
+
+  async updateJob(jobId: string, update: IngestionJobUpdate): Promise<IngestionJob | null> {
+    const container = await this.ensureInitialized();
+    const job = await this.getJob(jobId);
+
+    if (!job) {
+      return null;
+    }
+
+    const updated = applyJobUpdate(job, update);
+    await container.items.upsert({ id: updated.jobId, ...updated });
+    return updated;
+  }
+}
@@ -0,0 +1,162 @@
+import { CosmosClient, Container, Database } from '@azure/cosmos';
+import { ITeamStore, Employee, EmployeeInput, EmployeeUpdate, EmployeeFilter, EmployeeImportResult } from '../types/team.types';
+import { TEAM_DIRECTORY } from '../data/teamData';
+import { applyEmployeeUpdate, planEmployeeImport, createEmployeeRecord, normaliseEmployee } from '../utils/teamHelpers';
+
+export class CosmosTeamStore implements ITeamStore {
+  private client: CosmosClient;
+  private database: Database | null = null;
+  private container: Container | null = null;
+  private isInitialized: boolean = false;
+
+  constructor(
+    private endpoint: string,
+    private key: string,
+    private databaseId: string = 'ProjectPalDB',
+    private containerId: string = 'Team'
+  ) {
+    this.client = new CosmosClient({ endpoint, key });
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      const { database } = await this.client.databases.createIfNotExists({
+        id: this.databaseId
+      });
+      this.database = database;
+
+      const { container } = await database.containers.createIfNotExists({
+        id: this.containerId,
+        partitionKey: { paths: ['/id'] }
+      });
+      this.container = container;
+
+      const { resources } = await container.items.query('SELECT VALUE COUNT(1) FROM c').fetchAll();
+      if (resources[0] === 0) {
+        await Promise.all(
+          TEAM_DIRECTORY.map(input => container.items.create<Employee>(createEmployeeRecord(input)))
+        );
+        console.log(`✅ Seeded team directory with ${TEAM_DIRECTORY.length} employees`);
+      }
+
+      this.isInitialized = true;
+      console.log(`✅ Cosmos DB initialized: ${this.databaseId}/${this.containerId}`);
+    } catch (error) {
+      console.error('Error initializing Cosmos DB:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<Container> {
+    await this.initialize();
+    if (!this.container) {
+      throw new Error('Cosmos DB container not initialized');
+    }
+    return this.container;
+  }
+
+  async listEmployees(filter?: EmployeeFilter): Promise<Employee[]> {
+    try {
+      const container = await this.ensureInitialized();
+
+      const conditions: string[] = [];
+      const parameters: { name: string; value: string }[] = [];
+
+      if (filter?.search) {
+        conditions.push('(CONTAINS(c.role, @search, true) OR CONTAINS(c.name, @search, true))');
+        parameters.push({ name: '@search', value: filter.search });
+      }
+      if (filter?.status) {
+        conditions.push('c.status = @status');
+        parameters.push({ name: '@status', value: filter.status });
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const querySpec = {
+        query: `SELECT * FROM c ${where} ORDER BY c.name`,
+        parameters
+      };
+
+      const { resources } = await container.items.query(querySpec).fetchAll();
+      return resources.map(resource => normaliseEmployee(resource));
+    } catch (error) {
+      console.error('Error listing employees:', error);
+      return [];
+    }
+  }
+
+  async getEmployee(id: string): Promise<Employee | null> {
+    try {
+      const container = await this.ensureInitialized();
+      const { resource } = await container.item(id, id).read();
+      return resource ? normaliseEmployee(resource) : null;
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      console.error(`Error reading employee ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async createEmployee(input: EmployeeInput): Promise<Employee> {
+    const container = await this.ensureInitialized();
+    const employee: Employee = createEmployeeRecord(input);
+
+    await container.items.create(employee);
+    console.log(`✅ Added employee in Cosmos DB: ${employee.name}`);
+
+    return employee;
+  }
+
+  async updateEmployee(id: string, update: EmployeeUpdate): Promise<Employee | null> {
+    const container = await this.ensureInitialized();
+    const employee = await this.getEmployee(id);
+
+    if (!employee) {
+      return null;
+    }
+
+    const updated = applyEmployeeUpdate(employee, update);
+    await container.items.upsert(updated);
+    return updated;
+  }
+
+  async deleteEmployee(id: string): Promise<boolean> {
+    try {
+      const container = await this.ensureInitialized();
+      await container.item(id, id).delete();
+      console.log(`🗑️  Removed employee from Cosmos DB: ${id}`);
+      return true;
+    } catch (error: any) {
+      if (error.code === 404) {
+        return false;
+      }
+      console.error(`Error deleting employee ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async importEmployees(inputs: EmployeeInput[], mode: 'merge' | 'replace'): Promise<EmployeeImportResult> {
+    const container = await this.ensureInitialized();
+    const existing = await this.listEmployees();
+    const plan = planEmployeeImport(existing, inputs, mode);
+    const byId = new Map(existing.map(emp => [emp.id, emp]));
+
+    await Promise.all([
+      ...plan.toCreate.map(input => container.items.create<Employee>(createEmployeeRecord(input))),
+      ...plan.toUpdate.map(({ id, update }) => container.items.upsert(applyEmployeeUpdate(byId.get(id)!, update))),
+      ...plan.toRemove.map(id => container.item(id, id).delete())
+    ]);
+
+    return {
+      created: plan.toCreate.length,
+      updated: plan.toUpdate.length,
+      removed: plan.toRemove.length
+    };
+  }
+}
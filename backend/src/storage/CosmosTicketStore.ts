@@ -0,0 +1,188 @@
+import { CosmosClient, Container, Database } from '@azure/cosmos';
+import { ITicketStore, ProjectTicket, CreateTicketInput, TicketUpdate, TicketFilter } from '../types/ticket.types';
+import { formatTicketId, requireTicketFields, reviveTicket, applyTicketUpdate, closeTicketRecord, TICKET_ID_PREFIX } from '../utils/ticketHelpers';
+
+const SEQUENCE_ID = '_sequence';
+
+interface SequenceDocument {
+  id: string;
+  ticketId: string;
+  sequence: number;
+  _etag?: string;
+}
+
+export class CosmosTicketStore implements ITicketStore {
+  private client: CosmosClient;
+  private database: Database | null = null;
+  private container: Container | null = null;
+  private isInitialized: boolean = false;
+
+  constructor(
+    private endpoint: string,
+    private key: string,
+    private databaseId: string = 'ProjectPalDB',
+    private containerId: string = 'Tickets'
+  ) {
+    this.client = new CosmosClient({ endpoint, key });
+  }
+
+  private async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      const { database } = await this.client.databases.createIfNotExists({
+        id: this.databaseId
+      });
+      this.database = database;
+
+      const { container } = await database.containers.createIfNotExists({
+        id: this.containerId,
+        partitionKey: { paths: ['/ticketId'] }
+      });
+      this.container = container;
+
+      this.isInitialized = true;
+      console.log(`✅ Cosmos DB initialized: ${this.databaseId}/${this.containerId}`);
+    } catch (error) {
+      console.error('Error initializing Cosmos DB:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<Container> {
+    await this.initialize();
+    if (!this.container) {
+      throw new Error('Cosmos DB container not initialized');
+    }
+    return this.container;
+  }
+
+  // Optimistic concurrency on the counter document keeps IDs unique across replicas
+  private async nextSequence(container: Container): Promise<number> {
+    while (true) {
+      try {
+        const { resource } = await container.item(SEQUENCE_ID, SEQUENCE_ID).read<SequenceDocument>();
+
+        if (!resource) {
+          await container.items.create<SequenceDocument>({ id: SEQUENCE_ID, ticketId: SEQUENCE_ID, sequence: 1 });
+          return 1;
+        }
+
+        const next = resource.sequence + 1;
+        await container.item(SEQUENCE_ID, SEQUENCE_ID).replace<SequenceDocument>(
+          { id: SEQUENCE_ID, ticketId: SEQUENCE_ID, sequence: next },
+          { accessCondition: { type: 'IfMatch', condition: resource._etag! } }
+        );
+        return next;
+      } catch (error: any) {
+        // 409: another replica created the counter first, 412: counter changed since we read it
+        if (error.code !== 409 && error.code !== 412) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async createTicket(input: CreateTicketInput): Promise<ProjectTicket> {
+    requireTicketFields(input);
+    const container = await this.ensureInitialized();
+    const now = new Date();
+
+    const ticket: ProjectTicket = {
+      ticketId: formatTicketId(await this.nextSequence(container)),
+      title: input.title,
+      assignee: input.assignee,
+      ...(input.projectName && { projectName: input.projectName }),
+      ...(input.description && { description: input.description }),
+      status: 'open',
+      notes: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await container.items.create({ id: ticket.ticketId, ...ticket });
+    console.log(`✅ Created ticket in Cosmos DB: ${ticket.ticketId}`);
+
+    return ticket;
+  }
+
+  async getTicket(ticketId: string): Promise<ProjectTicket | null> {
+    try {
+      const container = await this.ensureInitialized();
+      const { resource } = await container.item(ticketId, ticketId).read();
+
+      if (!resource || resource.id === SEQUENCE_ID) {
+        return null;
+      }
+
+      return reviveTicket(resource);
+    } catch (error: any) {
+      if (error.code === 404) {
+        return null;
+      }
+      console.error(`Error reading ticket ${ticketId}:`, error);
+      throw error;
+    }
+  }
+
+  async listTickets(filter?: TicketFilter): Promise<ProjectTicket[]> {
+    try {
+      const container = await this.ensureInitialized();
+
+      const conditions = ['STARTSWITH(c.ticketId, @prefix)'];
+      const parameters: { name: string; value: string }[] = [{ name: '@prefix', value: TICKET_ID_PREFIX }];
+
+      if (filter?.status) {
+        conditions.push('c.status = @status');
+        parameters.push({ name: '@status', value: filter.status });
+      }
+      if (filter?.assignee) {
+        conditions.push('CONTAINS(c.assignee, @assignee, true)');
+        parameters.push({ name: '@assignee', value: filter.assignee });
+      }
+      if (filter?.projectName) {
+        conditions.push('CONTAINS(c.projectName, @projectName, true)');
+        parameters.push({ name: '@projectName', value: filter.projectName });
+      }
+
+      const querySpec = {
+        query: `SELECT * FROM c WHERE ${conditions.join(' AND ')} ORDER BY c.createdAt DESC`,
+        parameters
+      };
+
+      const { resources } = await container.items.query(querySpec).fetchAll();
+      return resources.map(reviveTicket);
+    } catch (error) {
+      console.error('Error listing tickets:', error);
+      return [];
+    }
+  }
+
+  async updateTicket(ticketId: string, update: TicketUpdate): Promise<ProjectTicket | null> {
+    const container = await this.ensureInitialized();
+    const ticket = await this.getTicket(ticketId);
+
+    if (!ticket) {
+      return null;
+    }
+
+    const updated = applyTicketUpdate(ticket, update);
+    await container.items.upsert({ id: updated.ticketId, ...updated });
+    return updated;
+  }
+
+  async closeTicket(ticketId: string, resolution?: string): Promise<ProjectTicket | null> {
+    const container = await this.ensureInitialized();
+    const ticket = await this.getTicket(ticketId);
+
+    if (!ticket) {
+      return null;
+    }
+
+    const closed = closeTicketRecord(ticket, resolution);
+    await container.items.upsert({ id: closed.ticketId, ...closed });
+    return closed;
+  }
+}
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  IChangeRequestStore,
+  ChangeRequest,
+  CreateChangeRequestInput,
+  ChangeRequestUpdate,
+  ChangeRequestFilter
+} from '../types/changeRequest.types';
+import {
+  formatChangeId,
+  buildChangeRequest,
+  reviveChangeRequest,
+  applyChangeRequestUpdate,
+  matchesChangeRequestFilter,
+  CHANGE_ID_PREFIX
+} from '../utils/changeRequestHelpers';
+
+export class FileChangeRequestStore implements IChangeRequestStore {
+  private changeRequestDir: string;
+  private sequenceFile: string;
+
+  constructor(changeRequestDir: string = './change-requests') {
+    this.changeRequestDir = path.resolve(changeRequestDir);
+    this.sequenceFile = path.join(this.changeRequestDir, '_sequence.json');
+    this.ensureChangeRequestDirectory();
+  }
+
+  private ensureChangeRequestDirectory(): void {
+    if (!fs.existsSync(this.changeRequestDir)) {
+      fs.mkdirSync(this.changeRequestDir, { recursive: true });
+      console.log(`📁 Created change request directory: ${this.changeRequestDir}`);
+    }
+  }
+
+  private getChangeRequestFilePath(changeId: string): string {
+    return path.join(this.changeRequestDir, `${path.basename(changeId)}.json`);
+  }
+
+  // Synchronous read-increment-write cannot interleave within the process
+  private nextSequence(): number {
+    let current = 0;
+    if (fs.existsSync(this.sequenceFile)) {
+      current = JSON.parse(fs.readFileSync(this.sequenceFile, 'utf-8')).sequence || 0;
+    }
+
+    const next = current + 1;
+    fs.writeFileSync(this.sequenceFile, JSON.stringify({ sequence: next }), 'utf-8');
+    return next;
+  }
+
+  async createChangeRequest(input: CreateChangeRequestInput): Promise<ChangeRequest> {
+    while (true) {
+      const changeRequest = buildChangeRequest(formatChangeId(this.nextSequence()), input);
+
+      try {
+        fs.writeFileSync(
+          this.getChangeRequestFilePath(changeRequest.changeId),
+          JSON.stringify(changeRequest, null, 2),
+          { encoding: 'utf-8', flag: 'wx' }
+        );
+        console.log(`✅ Created change request: ${changeRequest.changeId} (${changeRequest.estimatedImpact.level})`);
+        return changeRequest;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          console.error(`Error creating change request ${changeRequest.changeId}:`, error);
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getChangeRequest(changeId: string): Promise<ChangeRequest | null> {
+    try {
+      const filePath = this.getChangeRequestFilePath(changeId);
+
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+
+      return reviveChangeRequest(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    } catch (error) {
+      console.error(`Error reading change request ${changeId}:`, error);
+      return null;
+    }
+  }
+
+  async listChangeRequests(filter?: ChangeRequestFilter): Promise<ChangeRequest[]> {
+    try {
+      const files = fs.readdirSync(this.changeRequestDir)
+        .filter(file => file.startsWith(CHANGE_ID_PREFIX) && file.endsWith('.json'));
+
+      const changeRequests: ChangeRequest[] = [];
+      for (const file of files) {
+        const changeRequest = await this.getChangeRequest(file.replace('.json', ''));
+        if (changeRequest && matchesChangeRequestFilter(changeRequest, filter)) {
+          changeRequests.push(changeRequest);
+        }
+      }
+
+      return changeRequests.sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+    } catch (error) {
+      console.error('Error listing change requests:', error);
+      return [];
+    }
+  }
+
+  async updateChangeRequest(changeId: string, update: ChangeRequestUpdate): Promise<ChangeRequest | null> {
+    const changeRequest = await this.getChangeRequest(changeId);
+    if (!changeRequest) {
+      return null;
+    }
+
+    const updated = applyChangeRequestUpdate(changeRequest, update);
+
+    try {
+      fs.writeFileSync(this.getChangeRequestFilePath(updated.changeId), JSON.stringify(updated, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`Error saving change request ${updated.changeId}:`, error);
+      throw error;
+    }
+
+    return updated;
+  }
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { IJobStore, IngestionJob, CreateIngestionJobInput, IngestionJobUpdate, IngestionJobFilter } from '../types/job.types';
+import { createJobRecord, reviveJob, applyJobUpdate, matchesJobFilter } from '../utils/jobHelpers';
+
+export class FileJobStore implements IJobStore {
+  private jobDir: string;
+
+  constructor(jobDir: string = './jobs') {
+    this.jobDir = path.resolve(jobDir);
+    this.ensureJobDirectory();
+  }
+
+  private ensureJobDirectory(): void {
+    if (!fs.existsSync(this.jobDir)) {
+      fs.mkdirSync(this.jobDir, { recursive: true });
+      console.log(`📁 Created job directory: ${this.jobDir}`);
+    }
+  }
+
+  private getJobFilePath(jobId: string): string {
+    return path.join(this.jobDir, `${path.basename(jobId)}.json`);
+  }
+
+  async createJob(input: CreateIngestionJobInput): Promise<IngestionJob> {
+    const job = createJobRecord(input);
+    this.saveJob(job);
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<IngestionJob | null> {
+    try {
+      const filePath = this.getJobFilePath(jobId);
+
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+
+      return reviveJob(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    } catch (error) {
+      console.error(`Error reading job ${jobId}:`, error);
+      return null;
+    }
+  }
+
+  async listJobs(filter?: IngestionJobFilter): Promise<IngestionJob[]> {
+    try {
+      const files = fs.readdirSync(this.jobDir).filter(file => file.endsWith('.json'));
+
+      const jobs: IngestionJob[] = [];
+      for (const file of files) {
+        const job = await this.getJob(file.replace('.json', ''));
+        if (job && matchesJobFilter(job, filter)) {
+          jobs.push(job);
+        }
+      }
+
+      return jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error listing jobs:', error);
+      return [];
+    }
+  }
+
+  async updateJob(jobId: string, update: IngestionJobUpdate): Promise<IngestionJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const updated = applyJobUpdate(job, update);
+    this.saveJob(updated);
+    return updated;
+  }
+
+  private saveJob(job: IngestionJob): void {
+    try {
+      fs.writeFileSync(this.getJobFilePath(job.jobId), JSON.stringify(job, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`Error saving job ${job.jobId}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { ITeamStore, Employee, EmployeeInput, EmployeeUpdate, EmployeeFilter, EmployeeImportResult } from '../types/team.types';
+import { TEAM_DIRECTORY } from '../data/teamData';
+import { matchesEmployeeFilter, applyEmployeeUpdate, planEmployeeImport, createEmployeeRecord, normaliseEmployee } from '../utils/teamHelpers';
+
+export class FileTeamStore implements ITeamStore {
+  private teamDir: string;
+  private directoryFile: string;
+
+  constructor(teamDir: string = './team') {
+    this.teamDir = path.resolve(teamDir);
+    this.directoryFile = path.join(this.teamDir, 'employees.json');
+    this.ensureTeamDirectory();
+  }
+
+  private ensureTeamDirectory(): void {
+    if (!fs.existsSync(this.teamDir)) {
+      fs.mkdirSync(this.teamDir, { recursive: true });
+      console.log(`📁 Created team directory: ${this.teamDir}`);
+    }
+
+    if (!fs.existsSync(this.directoryFile)) {
+      this.saveEmployees(TEAM_DIRECTORY.map(input => createEmployeeRecord(input)));
+      console.log(`✅ Seeded team directory with ${TEAM_DIRECTORY.length} employees`);
+    }
+  }
+
+  private loadEmployees(): Employee[] {
+    try {
+      return JSON.parse(fs.readFileSync(this.directoryFile, 'utf-8')).map(normaliseEmployee);
+    } catch (error) {
+      console.error('Error reading team directory:', error);
+      return [];
+    }
+  }
+
+  private saveEmployees(employees: Employee[]): void {
+    try {
+      fs.writeFileSync(this.directoryFile, JSON.stringify(employees, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving team directory:', error);
+      throw error;
+    }
+  }
+
+  async listEmployees(filter?: EmployeeFilter): Promise<Employee[]> {
+    return this.loadEmployees()
+      .filter(emp => matchesEmployeeFilter(emp, filter))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getEmployee(id: string): Promise<Employee | null> {
+    return this.loadEmployees().find(emp => emp.id === id) || null;
+  }
+
+  async createEmployee(input: EmployeeInput): Promise<Employee> {
+    const employees = this.loadEmployees();
+    const employee: Employee = createEmployeeRecord(input);
+
+    employees.push(employee);
+    this.saveEmployees(employees);
+    console.log(`✅ Added employee: ${employee.name}`);
+
+    return employee;
+  }
+
+  async updateEmployee(id: string, update: EmployeeUpdate): Promise<Employee | null> {
+    const employees = this.loadEmployees();
+    const index = employees.findIndex(emp => emp.id === id);
+
+    if (index < 0) {
+      return null;
+    }
+
+    employees[index] = applyEmployeeUpdate(employees[index], update);
+    this.saveEmployees(employees);
+
+    return employees[index];
+  }
+
+  async deleteEmployee(id: string): Promise<boolean> {
+    const employees = this.loadEmployees();
+    const remaining = employees.filter(emp => emp.id !== id);
+
+    if (remaining.length === employees.length) {
+      return false;
+    }
+
+    this.saveEmployees(remaining);
+    console.log(`🗑️  Removed employee: ${id}`);
+    return true;
+  }
+
+  async importEmployees(inputs: EmployeeInput[], mode: 'merge' | 'replace'): Promise<EmployeeImportResult> {
+    const employees = this.loadEmployees();
+    const plan = planEmployeeImport(employees, inputs, mode);
+
+    const updates = new Map(plan.toUpdate.map(({ id, update }) => [id, update]));
+    const removed = new Set(plan.toRemove);
+
+    const next = employees
+      .filter(emp => !removed.has(emp.id))
+      .map(emp => updates.has(emp.id) ? applyEmployeeUpdate(emp, updates.get(emp.id)!) : emp)
+      .concat(plan.toCreate.map(input => createEmployeeRecord(input)));
+
+    this.saveEmployees(next);
+
+    return {
+      created: plan.toCreate.length,
+      updated: plan.toUpdate.length,
+      removed: plan.toRemove.length
+    };
+  }
+}
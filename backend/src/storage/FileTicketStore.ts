@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import { ITicketStore, ProjectTicket, CreateTicketInput, TicketUpdate, TicketFilter } from '../types/ticket.types';
+import { formatTicketId, requireTicketFields, reviveTicket, applyTicketUpdate, closeTicketRecord, matchesTicketFilter, TICKET_ID_PREFIX } from '../utils/ticketHelpers';
+
+export class FileTicketStore implements ITicketStore {
+  private ticketDir: string;
+  private sequenceFile: string;
+
+  constructor(ticketDir: string = './tickets') {
+    this.ticketDir = path.resolve(ticketDir);
+    this.sequenceFile = path.join(this.ticketDir, '_sequence.json');
+    this.ensureTicketDirectory();
+  }
+
+  private ensureTicketDirectory(): void {
+    if (!fs.existsSync(this.ticketDir)) {
+      fs.mkdirSync(this.ticketDir, { recursive: true });
+      console.log(`📁 Created ticket directory: ${this.ticketDir}`);
+    }
+  }
+
+  private getTicketFilePath(ticketId: string): string {
+    return path.join(this.ticketDir, `${path.basename(ticketId)}.json`);
+  }
+
+  // Synchronous read-increment-write cannot interleave within the process
+  private nextSequence(): number {
+    let current = 0;
+    if (fs.existsSync(this.sequenceFile)) {
+      current = JSON.parse(fs.readFileSync(this.sequenceFile, 'utf-8')).sequence || 0;
+    }
+
+    const next = current + 1;
+    fs.writeFileSync(this.sequenceFile, JSON.stringify({ sequence: next }), 'utf-8');
+    return next;
+  }
+
+  async createTicket(input: CreateTicketInput): Promise<ProjectTicket> {
+    requireTicketFields(input);
+    const now = new Date();
+
+    while (true) {
+      const ticket: ProjectTicket = {
+        ticketId: formatTicketId(this.nextSequence()),
+        title: input.title,
+        assignee: input.assignee,
+        ...(input.projectName && { projectName: input.projectName }),
+        ...(input.description && { description: input.description }),
+        status: 'open',
+        notes: [],
+        createdAt: now,
+        updatedAt: now
+      };
+
+      try {
+        // 'wx' refuses to overwrite, so a stale sequence file can never clobber an existing ticket
+        fs.writeFileSync(this.getTicketFilePath(ticket.ticketId), JSON.stringify(ticket, null, 2), { encoding: 'utf-8', flag: 'wx' });
+        console.log(`✅ Created ticket: ${ticket.ticketId}`);
+        return ticket;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          console.error(`Error creating ticket ${ticket.ticketId}:`, error);
+          throw error;
+        }
+      }
+    }
+  }
+
+  async getTicket(ticketId: string): Promise<ProjectTicket | null> {
+    try {
+      const filePath = this.getTicketFilePath(ticketId);
+
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+
+      return reviveTicket(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    } catch (error) {
+      console.error(`Error reading ticket ${ticketId}:`, error);
+      return null;
+    }
+  }
+
+  async listTickets(filter?: TicketFilter): Promise<ProjectTicket[]> {
+    try {
+      const files = fs.readdirSync(this.ticketDir)
+        .filter(file => file.startsWith(TICKET_ID_PREFIX) && file.endsWith('.json'));
+
+      const tickets: ProjectTicket[] = [];
+      for (const file of files) {
+        const ticket = await this.getTicket(file.replace('.json', ''));
+        if (ticket && matchesTicketFilter(ticket, filter)) {
+          tickets.push(ticket);
+        }
+      }
+
+      return tickets.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error listing tickets:', error);
+      return [];
+    }
+  }
+
+  async updateTicket(ticketId: string, update: TicketUpdate): Promise<ProjectTicket | null> {
+    const ticket = await this.getTicket(ticketId);
+    if (!ticket) {
+      return null;
+    }
+
+    const updated = applyTicketUpdate(ticket, update);
+    this.saveTicket(updated);
+    return updated;
+  }
+
+  async closeTicket(ticketId: string, resolution?: string): Promise<ProjectTicket | null> {
+    const ticket = await this.getTicket(ticketId);
+    if (!ticket) {
+      return null;
+    }
+
+    const closed = closeTicketRecord(ticket, resolution);
+    this.saveTicket(closed);
+    return closed;
+  }
+
+  private saveTicket(ticket: ProjectTicket): void {
+    try {
+      fs.writeFileSync(this.getTicketFilePath(ticket.ticketId), JSON.stringify(ticket, null, 2), 'utf-8');
+    } catch (error) {
+      console.error(`Error saving ticket ${ticket.ticketId}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { IJobStore } from '../types/job.types';
+import { FileJobStore } from './FileJobStore';
+import { CosmosJobStore } from './CosmosJobStore';
+import { envConfig } from '../config/environment';
+
+export class JobStoreFactory {
+  private static instance: IJobStore | null = null;
+
+  static getInstance(): IJobStore {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    if (envConfig.jobStorageType === 'cosmos') {
+      console.log('🌐 Using Cosmos DB for ingestion job storage');
+
+      const endpoint = envConfig.cosmosDbEndpoint;
+      const key = envConfig.cosmosDbKey;
+
+      if (!endpoint || !key) {
+        console.error('❌ Cosmos DB credentials not configured, falling back to file storage');
+        this.instance = new FileJobStore(envConfig.jobDir);
+      } else {
+        this.instance = new CosmosJobStore(
+          endpoint,
+          key,
+          envConfig.cosmosDbDatabase,
+          envConfig.cosmosJobContainer
+        );
+      }
+    } else {
+      console.log('📁 Using file-based ingestion job storage');
+      this.instance = new FileJobStore(envConfig.jobDir);
+    }
+
+    return this.instance;
+  }
+
+  static reset(): void {
+    this.instance = null;
+  }
+}
+
+export function getJobStore(): IJobStore {
+  return JobStoreFactory.getInstance();
+}
@@ -0,0 +1,46 @@
+import { ITeamStore } from '../types/team.types';
+import { FileTeamStore } from './FileTeamStore';
+import { CosmosTeamStore } from './CosmosTeamStore';
+import { envConfig } from '../config/environment';
+
+export class TeamStoreFactory {
+  private static instance: ITeamStore | null = null;
+
+  static getInstance(): ITeamStore {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    if (envConfig.teamStorageType === 'cosmos') {
+      console.log('🌐 Using Cosmos DB for team directory storage');
+
+      const endpoint = envConfig.cosmosDbEndpoint;
+      const key = envConfig.cosmosDbKey;
+
+      if (!endpoint || !key) {
+        console.error('❌ Cosmos DB credentials not configured, falling back to file storage');
+        this.instance = new FileTeamStore(envConfig.teamDir);
+      } else {
+        this.instance = new CosmosTeamStore(
+          endpoint,
+          key,
+          envConfig.cosmosDbDatabase,
+          envConfig.cosmosTeamContainer
+        );
+      }
+    } else {
+      console.log('📁 Using file-based team directory storage');
+      this.instance = new FileTeamStore(envConfig.teamDir);
+    }
+
+    return this.instance;
+  }
+
+  static reset(): void {
+    this.instance = null;
+  }
+}
+
+export function getTeamStore(): ITeamStore {
+  return TeamStoreFactory.getInstance();
+}
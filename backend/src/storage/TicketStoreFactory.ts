@@ -0,0 +1,46 @@
+import { ITicketStore } from '../types/ticket.types';
+import { FileTicketStore } from './FileTicketStore';
+import { CosmosTicketStore } from './CosmosTicketStore';
+import { envConfig } from '../config/environment';
+
+export class TicketStoreFactory {
+  private static instance: ITicketStore | null = null;
+
+  static getInstance(): ITicketStore {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    if (envConfig.ticketStorageType === 'cosmos') {
+      console.log('🌐 Using Cosmos DB for ticket storage');
+
+      const endpoint = envConfig.cosmosDbEndpoint;
+      const key = envConfig.cosmosDbKey;
+
+      if (!endpoint || !key) {
+        console.error('❌ Cosmos DB credentials not configured, falling back to file storage');
+        this.instance = new FileTicketStore(envConfig.ticketDir);
+      } else {
+        this.instance = new CosmosTicketStore(
+          endpoint,
+          key,
+          envConfig.cosmosDbDatabase,
+          envConfig.cosmosTicketContainer
+        );
+      }
+    } else {
+      console.log('📁 Using file-based ticket storage');
+      this.instance = new FileTicketStore(envConfig.ticketDir);
+    }
+
+    return this.instance;
+  }
+
+  static reset(): void {
+    this.instance = null;
+  }
+}
+
+export function getTicketStore(): ITicketStore {
+  return TicketStoreFactory.getInstance();
+}
@@ -0,0 +1,98 @@
+export type ChangeImpactLevel = 'Low' | 'Medium' | 'High' | 'Critical';
+
+export type ChangeRequestStatus = 'submitted' | 'approved' | 'rejected' | 'implemented';
+
+export type ImpactDimension = 'scope' | 'schedule' | 'budget';
+
+export interface ImpactDeltas {
+  scopePercent?: number;
+  scheduleDays?: number;
+  plannedDurationDays?: number;
+  budgetDelta?: number;
+  baselineBudget?: number;
+}
+
+export interface ImpactAssessment {
+  deltas: ImpactDeltas;
+  scopePercent?: number;
+  schedulePercent?: number;
+  budgetPercent?: number;
+  level: ChangeImpactLevel;
+  drivenBy: ImpactDimension[];
+  summary: string;
+}
+
+export interface ChangeApprovalRoute {
+  approver: string;
+  timeline: string;
+  documentation: string[];
+}
+
+export interface ChangeRequest {
+  changeId: string;
+  projectName: string;
+  title: string;
+  description: string;
+  requestor: string;
+  justification: string;
+  alternatives?: string;
+  estimatedImpact: ImpactAssessment;
+  routing: ChangeApprovalRoute;
+  status: ChangeRequestStatus;
+  approverName?: string;
+  decisionNotes?: string;
+  decisionDate?: Date;
+  implementationDate?: Date;
+  actualImpact?: ImpactAssessment;
+  submittedAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateChangeRequestInput {
+  projectName: string;
+  title: string;
+  description: string;
+  requestor: string;
+  justification: string;
+  alternatives?: string;
+  impact: ImpactDeltas;
+}
+
+export type ChangeRequestUpdate =
+  | { status: 'approved' | 'rejected'; approverName: string; decisionNotes?: string }
+  | { status: 'implemented'; implementationDate?: Date; actualImpact?: ImpactDeltas };
+
+export interface ChangeRequestFilter {
+  projectName?: string;
+  exactProjectName?: boolean; // match the whole project name (case-insensitive) instead of a substring
+  status?: ChangeRequestStatus;
+  impactLevel?: ChangeImpactLevel;
+}
+
+// One row of the handbook §9.4 change log
+export interface ChangeLogEntry {
+  changeId: string;
+  dateSubmitted: string;
+  title: string;
+  requestor: string;
+  justification: string;
+  description: string;
+  impactSummary: string;
+  impactLevel: ChangeImpactLevel;
+  approvalStatus: ChangeRequestStatus;
+  decisionDate?: string;
+  approver: string;
+  implementationDate?: string;
+  actualVsEstimated?: string;
+}
+
+export interface IChangeRequestStore {
+
+  createChangeRequest(input: CreateChangeRequestInput): Promise<ChangeRequest>;
+
+  getChangeRequest(changeId: string): Promise<ChangeRequest | null>;
+
+  listChangeRequests(filter?: ChangeRequestFilter): Promise<ChangeRequest[]>;
+
+  updateChangeRequest(changeId: string, update: ChangeRequestUpdate): Promise<ChangeRequest | null>;
+}
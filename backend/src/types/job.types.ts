@@ -0,0 +1,79 @@
+// queued → chunking → embedding → indexing → completed, or failed at any step
+export type IngestionJobStatus = 'queued' | 'chunking' | 'embedding' | 'indexing' | 'completed' | 'failed';
+
+export interface IngestionJobFile {
+  fileId: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  url?: string;
+  uploadedAt: string;
+}
+
+export interface IngestionJobProgress {
+  percentage: number;
+  totalChunks?: number;
+  embeddedChunks: number;
+  cachedChunks?: number;
+}
+
+export interface IngestionJobResult {
+  version: number;
+  chunks: number;
+  embeddings: number;
+  processingTime: number;
+  pages?: number;
+  batches: number;
+  retries: number;
+  failedChunks: number;
+  cachedChunks: number;
+  errors?: string[];
+}
+
+export interface IngestionJob {
+  jobId: string;
+  documentId: string;
+  collection: string;
+  file: IngestionJobFile;
+  tags?: string[]; // copied onto every chunk for metadata filters
+  replacesDocumentId?: string; // duplicate removed once this upload is committed (?replace=true)
+  status: IngestionJobStatus;
+  progress: IngestionJobProgress;
+  result?: IngestionJobResult;
+  error?: string;
+  attempts: number;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface CreateIngestionJobInput {
+  documentId: string;
+  collection: string;
+  file: IngestionJobFile;
+  tags?: string[];
+  replacesDocumentId?: string;
+}
+
+export interface IngestionJobUpdate {
+  status?: IngestionJobStatus;
+  progress?: Partial<IngestionJobProgress>;
+  result?: IngestionJobResult;
+  error?: string;
+  attempts?: number;
+}
+
+export interface IngestionJobFilter {
+  status?: IngestionJobStatus[];
+}
+
+export interface IJobStore {
+
+  createJob(input: CreateIngestionJobInput): Promise<IngestionJob>;
+
+  getJob(jobId: string): Promise<IngestionJob | null>;
+
+  listJobs(filter?: IngestionJobFilter): Promise<IngestionJob[]>;
+
+  updateJob(jobId: string, update: IngestionJobUpdate): Promise<IngestionJob | null>;
+}
@@ -3,6 +3,7 @@ export interface Message {
   content: string;
   timestamp: Date;
   toolCalls?: ToolCall[];
+  citations?: Citation[];
 }
 
 export interface ToolCall {
@@ -12,6 +13,23 @@ export interface ToolCall {
   result?: unknown;
 }
 
+// A document passage the answer drew on, numbered in the order it was retrieved
+export interface Citation {
+  number: number;
+  documentId: string;
+  filename: string;
+  collection: string;
+  version?: number;
+  sectionNumber?: string;
+  sectionTitle?: string;
+  pageNumber?: number;
+  startOffset?: number;
+  endOffset?: number;
+  text: string;
+  score: number;
+  rerankScore?: number;
+}
+
 export interface ConversationThread {
   threadId: string;
   userId?: string;
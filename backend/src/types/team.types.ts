@@ -0,0 +1,60 @@
+export type EmployeeStatus = 'Available' | 'On-Project';
+
+export type Seniority = 'Junior' | 'Mid' | 'Senior' | 'Lead' | 'Principal';
+
+export interface EmployeeSkill {
+  name: string;
+  proficiency: number; // 1 (aware) - 5 (expert)
+}
+
+export interface WeeklyAllocation {
+  projectName: string;
+  weekStart: string; // ISO date of the Monday the allocation applies to
+  hours: number;
+}
+
+export interface Employee {
+  id: string;
+  name: string;
+  role: string;
+  seniority: Seniority;
+  skills: EmployeeSkill[];
+  location?: string;
+  timezone?: string;
+  status: EmployeeStatus;
+  hoursAvailable: number; // weekly hours free for new work before the allocations below
+  allocations: WeeklyAllocation[];
+  updatedAt: string;
+}
+
+export type EmployeeInput =
+  Pick<Employee, 'name' | 'role' | 'status' | 'hoursAvailable'> &
+  Partial<Pick<Employee, 'seniority' | 'skills' | 'location' | 'timezone' | 'allocations'>>;
+
+export type EmployeeUpdate = Partial<EmployeeInput>;
+
+export interface EmployeeFilter {
+  search?: string;
+  status?: EmployeeStatus;
+}
+
+export interface EmployeeImportResult {
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+export interface ITeamStore {
+
+  listEmployees(filter?: EmployeeFilter): Promise<Employee[]>;
+
+  getEmployee(id: string): Promise<Employee | null>;
+
+  createEmployee(input: EmployeeInput): Promise<Employee>;
+
+  updateEmployee(id: string, update: EmployeeUpdate): Promise<Employee | null>;
+
+  deleteEmployee(id: string): Promise<boolean>;
+
+  importEmployees(inputs: EmployeeInput[], mode: 'merge' | 'replace'): Promise<EmployeeImportResult>;
+}
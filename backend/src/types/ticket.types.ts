@@ -0,0 +1,55 @@
+export type TicketStatus = 'open' | 'in-progress' | 'blocked' | 'closed';
+
+export interface TicketNote {
+  text: string;
+  createdAt: Date;
+}
+
+export interface ProjectTicket {
+  ticketId: string;
+  title: string;
+  assignee: string;
+  projectName?: string;
+  description?: string;
+  status: TicketStatus;
+  notes: TicketNote[];
+  resolution?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  closedAt?: Date;
+}
+
+export interface CreateTicketInput {
+  title: string;
+  assignee: string;
+  projectName?: string;
+  description?: string;
+}
+
+export interface TicketUpdate {
+  title?: string;
+  assignee?: string;
+  projectName?: string;
+  description?: string;
+  status?: Exclude<TicketStatus, 'closed'>;
+  note?: string;
+}
+
+export interface TicketFilter {
+  status?: TicketStatus;
+  assignee?: string;
+  projectName?: string;
+}
+
+export interface ITicketStore {
+
+  createTicket(input: CreateTicketInput): Promise<ProjectTicket>;
+
+  getTicket(ticketId: string): Promise<ProjectTicket | null>;
+
+  listTickets(filter?: TicketFilter): Promise<ProjectTicket[]>;
+
+  updateTicket(ticketId: string, update: TicketUpdate): Promise<ProjectTicket | null>;
+
+  closeTicket(ticketId: string, resolution?: string): Promise<ProjectTicket | null>;
+}
@@ -0,0 +1,89 @@
+export interface KeywordDocument {
+  id: string;
+  terms: Record<string, number>;
+  length: number;
+  text: string;
+  metadata?: Record<string, any>;
+}
+
+export interface KeywordScore {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'should', 'that', 'the', 'their',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you'
+]);
+
+// Plural and -ing/-ed forms share a term so "approvals" matches "approval"
+function stem(token: string): string {
+  if (/^\d/.test(token) || token.length <= 4) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('ing') && token.length > 6) return token.slice(0, -3);
+  if (token.endsWith('ed') && token.length > 5) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Splits text into BM25 terms. Numbers keep their digits together so "$50,000",
+ * "50,000" and "50000" all become "50000", and short codes like "CPI" survive.
+ */
+export function tokenize(text: string): string[] {
+  const matches = text.toLowerCase().match(/[a-z]+|\d+(?:[.,]\d+)*/g) || [];
+
+  return matches
+    .map(token => /^\d/.test(token) ? token.replace(/,/g, '') : token)
+    .filter(token => !STOPWORDS.has(token))
+    .map(stem);
+}
+
+export function buildKeywordDocument(id: string, text: string, metadata?: Record<string, any>): KeywordDocument {
+  const tokens = tokenize(text);
+  const terms: Record<string, number> = {};
+
+  for (const token of tokens) {
+    terms[token] = (terms[token] || 0) + 1;
+  }
+
+  return { id, terms, length: tokens.length, text, ...(metadata && { metadata }) };
+}
+
+export function scoreBM25(documents: KeywordDocument[], query: string, topK: number): KeywordScore[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return [];
+  }
+
+  const averageLength = documents.reduce((total, doc) => total + doc.length, 0) / documents.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const frequency = documents.filter(doc => doc.terms[term]).length;
+    return [term, Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5))];
+  }));
+
+  const scored: KeywordScore[] = [];
+  for (const doc of documents) {
+    let score = 0;
+    const matchedTerms: string[] = [];
+
+    for (const term of queryTerms) {
+      const tf = doc.terms[term];
+      if (!tf) continue;
+
+      matchedTerms.push(term);
+      score += idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / averageLength));
+    }
+
+    if (score > 0) {
+      scored.push({ id: doc.id, score, matchedTerms });
+    }
+  }
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+}
@@ -0,0 +1,196 @@
+import type {
+  ChangeRequest,
+  ChangeRequestFilter,
+  ChangeRequestUpdate,
+  ChangeApprovalRoute,
+  ChangeLogEntry,
+  CreateChangeRequestInput,
+  ImpactAssessment,
+  ImpactDeltas,
+  ImpactDimension
+} from '../types/changeRequest.types';
+import { findImpactTier, getImpactTier } from '../data/changePolicy';
+
+export const CHANGE_ID_PREFIX = 'CR-';
+
+export class ChangeRequestStateError extends Error {
+  constructor(public changeId: string, public currentStatus: string, public requestedStatus: string) {
+    super(`Change request ${changeId} is ${currentStatus} and cannot be marked ${requestedStatus}`);
+    this.name = 'ChangeRequestStateError';
+  }
+}
+
+export function formatChangeId(sequence: number): string {
+  return `${CHANGE_ID_PREFIX}${sequence.toString().padStart(4, '0')}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function formatSigned(value: number, unit: string): string {
+  return `${value > 0 ? '+' : ''}${value}${unit}`;
+}
+
+/**
+ * Converts scope/schedule/budget deltas into percentages of the baseline and takes the
+ * highest as the overall impact level. Savings and accelerations count by magnitude.
+ */
+export function assessImpact(deltas: ImpactDeltas): ImpactAssessment {
+  const percents: Partial<Record<ImpactDimension, number>> = {};
+  const parts: string[] = [];
+
+  if (deltas.scopePercent !== undefined) {
+    percents.scope = round(deltas.scopePercent);
+    parts.push(`scope ${formatSigned(percents.scope, '%')}`);
+  }
+  if (deltas.scheduleDays !== undefined && deltas.plannedDurationDays) {
+    percents.schedule = round((deltas.scheduleDays / deltas.plannedDurationDays) * 100);
+    parts.push(`schedule ${formatSigned(deltas.scheduleDays, ' days')} (${formatSigned(percents.schedule, '%')})`);
+  }
+  if (deltas.budgetDelta !== undefined && deltas.baselineBudget) {
+    percents.budget = round((deltas.budgetDelta / deltas.baselineBudget) * 100);
+    parts.push(`budget ${deltas.budgetDelta < 0 ? '-' : '+'}$${Math.abs(deltas.budgetDelta).toLocaleString('en-US')} (${formatSigned(percents.budget, '%')})`);
+  }
+
+  const dimensions = Object.keys(percents) as ImpactDimension[];
+  const peak = Math.max(0, ...dimensions.map(dimension => Math.abs(percents[dimension]!)));
+  const tier = findImpactTier(peak);
+  const drivenBy = dimensions.filter(dimension => findImpactTier(percents[dimension]!).level === tier.level);
+
+  return {
+    deltas,
+    ...(percents.scope !== undefined && { scopePercent: percents.scope }),
+    ...(percents.schedule !== undefined && { schedulePercent: percents.schedule }),
+    ...(percents.budget !== undefined && { budgetPercent: percents.budget }),
+    level: tier.level,
+    drivenBy,
+    summary: parts.length > 0
+      ? `${tier.level} impact: ${parts.join(', ')}`
+      : `${tier.level} impact: no quantified scope, schedule or budget change`
+  };
+}
+
+export function routeChangeRequest(assessment: ImpactAssessment): ChangeApprovalRoute {
+  const tier = getImpactTier(assessment.level);
+  return {
+    approver: tier.approver,
+    timeline: tier.timeline,
+    documentation: tier.documentation
+  };
+}
+
+export function buildChangeRequest(changeId: string, input: CreateChangeRequestInput, now: Date = new Date()): ChangeRequest {
+  const estimatedImpact = assessImpact(input.impact);
+
+  return {
+    changeId,
+    projectName: input.projectName,
+    title: input.title,
+    description: input.description,
+    requestor: input.requestor,
+    justification: input.justification,
+    ...(input.alternatives && { alternatives: input.alternatives }),
+    estimatedImpact,
+    routing: routeChangeRequest(estimatedImpact),
+    status: 'submitted',
+    submittedAt: now,
+    updatedAt: now
+  };
+}
+
+export function reviveChangeRequest(raw: any): ChangeRequest {
+  return {
+    changeId: raw.changeId,
+    projectName: raw.projectName,
+    title: raw.title,
+    description: raw.description,
+    requestor: raw.requestor,
+    justification: raw.justification,
+    ...(raw.alternatives && { alternatives: raw.alternatives }),
+    estimatedImpact: raw.estimatedImpact,
+    routing: raw.routing,
+    status: raw.status,
+    ...(raw.approverName && { approverName: raw.approverName }),
+    ...(raw.decisionNotes && { decisionNotes: raw.decisionNotes }),
+    ...(raw.decisionDate && { decisionDate: new Date(raw.decisionDate) }),
+    ...(raw.implementationDate && { implementationDate: new Date(raw.implementationDate) }),
+    ...(raw.actualImpact && { actualImpact: raw.actualImpact }),
+    submittedAt: new Date(raw.submittedAt),
+    updatedAt: new Date(raw.updatedAt)
+  };
+}
+
+// Decisions are only taken on submitted requests; only approved requests can be implemented
+export function applyChangeRequestUpdate(changeRequest: ChangeRequest, update: ChangeRequestUpdate): ChangeRequest {
+  const now = new Date();
+
+  if (update.status === 'implemented') {
+    if (changeRequest.status !== 'approved') {
+      throw new ChangeRequestStateError(changeRequest.changeId, changeRequest.status, update.status);
+    }
+
+    return {
+      ...changeRequest,
+      status: 'implemented',
+      implementationDate: update.implementationDate ?? now,
+      ...(update.actualImpact && { actualImpact: assessImpact(update.actualImpact) }),
+      updatedAt: now
+    };
+  }
+
+  if (changeRequest.status !== 'submitted') {
+    throw new ChangeRequestStateError(changeRequest.changeId, changeRequest.status, update.status);
+  }
+
+  return {
+    ...changeRequest,
+    status: update.status,
+    approverName: update.approverName,
+    ...(update.decisionNotes && { decisionNotes: update.decisionNotes }),
+    decisionDate: now,
+    updatedAt: now
+  };
+}
+
+export function matchesChangeRequestFilter(changeRequest: ChangeRequest, filter?: ChangeRequestFilter): boolean {
+  if (!filter) return true;
+
+  if (filter.status && changeRequest.status !== filter.status) return false;
+  if (filter.impactLevel && changeRequest.estimatedImpact.level !== filter.impactLevel) return false;
+  if (filter.projectName) {
+    const projectName = changeRequest.projectName.toLowerCase();
+    const wanted = filter.projectName.trim().toLowerCase();
+    if (filter.exactProjectName ? projectName !== wanted : !projectName.includes(wanted)) return false;
+  }
+
+  return true;
+}
+
+function toDateString(date?: Date): string | undefined {
+  return date?.toISOString().slice(0, 10);
+}
+
+export function toChangeLogEntry(changeRequest: ChangeRequest): ChangeLogEntry {
+  const approver = changeRequest.approverName
+    ? `${changeRequest.approverName} (${changeRequest.routing.approver})`
+    : changeRequest.routing.approver;
+
+  return {
+    changeId: changeRequest.changeId,
+    dateSubmitted: toDateString(changeRequest.submittedAt)!,
+    title: changeRequest.title,
+    requestor: changeRequest.requestor,
+    justification: changeRequest.justification,
+    description: changeRequest.description,
+    impactSummary: changeRequest.estimatedImpact.summary,
+    impactLevel: changeRequest.estimatedImpact.level,
+    approvalStatus: changeRequest.status,
+    ...(changeRequest.decisionDate && { decisionDate: toDateString(changeRequest.decisionDate) }),
+    approver,
+    ...(changeRequest.implementationDate && { implementationDate: toDateString(changeRequest.implementationDate) }),
+    ...(changeRequest.actualImpact && {
+      actualVsEstimated: `Estimated ${changeRequest.estimatedImpact.summary}; actual ${changeRequest.actualImpact.summary}`
+    })
+  };
+}
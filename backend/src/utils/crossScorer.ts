@@ -0,0 +1,63 @@
+import { tokenize } from './bm25';
+
+export interface LexicalRelevance {
+  coverage: number; // share of distinct query terms found in the text
+  proximity: number; // share of adjacent query term pairs found next to each other
+  title: number; // share of distinct query terms found in the section title or heading path
+  score: number;
+}
+
+const COVERAGE_WEIGHT = 0.5;
+const PROXIMITY_WEIGHT = 0.25;
+const TITLE_WEIGHT = 0.25;
+
+// Terms within this many tokens of each other count as a matched pair
+const PROXIMITY_WINDOW = 3;
+
+function pairs(terms: string[]): Array<[string, string]> {
+  return terms.slice(1).map((term, idx) => [terms[idx], term] as [string, string]);
+}
+
+/**
+ * Scores a query against one passage on a 0-1 scale. Unlike BM25 it reads the query and
+ * the passage together: it rewards passages covering every query term, keeping the query's
+ * phrases intact, and sitting under a title that names the topic, which separates the
+ * right subsection from neighbours that share most of the vocabulary.
+ */
+export function scoreLexicalRelevance(query: string, text: string, title: string = ''): LexicalRelevance {
+  const queryTerms = tokenize(query);
+  const distinct = Array.from(new Set(queryTerms));
+  if (distinct.length === 0) {
+    return { coverage: 0, proximity: 0, title: 0, score: 0 };
+  }
+
+  const tokens = tokenize(text);
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, position) => {
+    const list = positions.get(token);
+    if (list) list.push(position);
+    else positions.set(token, [position]);
+  });
+
+  const coverage = distinct.filter(term => positions.has(term)).length / distinct.length;
+
+  const queryPairs = pairs(queryTerms);
+  const proximity = queryPairs.length === 0
+    ? coverage
+    : queryPairs.filter(([first, second]) => {
+      const seconds = positions.get(second);
+      return seconds !== undefined && (positions.get(first) ?? []).some(position =>
+        seconds.some(other => other > position && other - position <= PROXIMITY_WINDOW)
+      );
+    }).length / queryPairs.length;
+
+  const titleTerms = new Set(tokenize(title));
+  const titleCoverage = titleTerms.size === 0 ? 0 : distinct.filter(term => titleTerms.has(term)).length / distinct.length;
+
+  return {
+    coverage,
+    proximity,
+    title: titleCoverage,
+    score: COVERAGE_WEIGHT * coverage + PROXIMITY_WEIGHT * proximity + TITLE_WEIGHT * titleCoverage,
+  };
+}
@@ -0,0 +1,47 @@
+import { tokenize } from './bm25';
+
+export const DEFAULT_HASHING_DIMENSIONS = 384;
+
+const TRIGRAM_WEIGHT = 0.5;
+
+// 32-bit FNV-1a: stable across runs and platforms, so vectors can be stored and compared later
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float64Array, feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  // Low bits pick the slot, the top bit picks the sign so collisions tend to cancel out
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[hash % vector.length] += sign * weight;
+}
+
+/**
+ * Deterministic feature-hashing embedder for offline use. Stemmed terms carry the
+ * meaning, character trigrams give some tolerance to spelling and inflection. It has
+ * no notion of synonyms, so retrieval quality is closer to keyword search than to a
+ * trained model, but it needs no network access or API key.
+ */
+export function hashingEmbed(text: string, dimensions: number = DEFAULT_HASHING_DIMENSIONS): number[] {
+  const vector = new Float64Array(dimensions);
+
+  for (const token of tokenize(text)) {
+    addFeature(vector, `w:${token}`, 1);
+
+    const padded = `<${token}>`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  let norm = 0;
+  for (let i = 0; i < dimensions; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+
+  return Array.from(vector, value => (norm > 0 ? value / norm : 0));
+}
@@ -0,0 +1,382 @@
+export interface HnswOptions {
+  m: number; // neighbours per node on upper layers; layer 0 keeps twice as many
+  efConstruction: number;
+  efSearch: number;
+}
+
+export interface HnswNeighbor {
+  id: string;
+  score: number; // cosine similarity
+}
+
+export interface SerializedHnswGraph {
+  dimension: number;
+  options: HnswOptions;
+  entryPoint: string | null;
+  nodes: Array<{ id: string; level: number; neighbors: string[][] }>;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: string[][];
+}
+
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = { m: 16, efConstruction: 200, efSearch: 64 };
+
+// Binary heap ordered by compare(a, b) < 0 meaning a comes out first
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.compare(items[left], items[next]) < 0) next = left;
+        if (right < items.length && this.compare(items[right], items[next]) < 0) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < normalized.length; i++) norm += normalized[i] * normalized[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+  }
+  return normalized;
+}
+
+// Vectors are normalized on insert, so the dot product is the cosine similarity
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin) over cosine similarity.
+ * Inserts and deletes are incremental: a deleted node's in-neighbours are re-linked
+ * through its own neighbours, so the graph never carries tombstones. Links are not
+ * symmetric after pruning, so in-neighbours are tracked separately to keep deletes local.
+ */
+export class HnswGraph {
+  private nodes = new Map<string, HnswNode>();
+  private inbound = new Map<string, Set<string>>();
+  private entryPoint: string | null = null;
+  private readonly levelMultiplier: number;
+
+  constructor(readonly dimension: number, readonly options: HnswOptions = DEFAULT_HNSW_OPTIONS) {
+    this.levelMultiplier = 1 / Math.log(options.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dimension}, got ${vector.length}`);
+    }
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      return;
+    }
+
+    const entry = this.nodes.get(this.entryPoint)!;
+    let current = [{ id: entry.id, score: dot(node.vector, entry.vector) }];
+
+    for (let layer = entry.level; layer > level; layer--) {
+      current = this.searchLayer(node.vector, current, 1, layer);
+    }
+
+    for (let layer = Math.min(level, entry.level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, current, this.options.efConstruction, layer);
+      this.setNeighbors(node, layer, this.selectNeighbors(node.vector, candidates, this.maxNeighbors(layer)));
+
+      for (const neighborId of node.neighbors[layer]) {
+        this.link(this.nodes.get(neighborId)!, id, layer);
+      }
+      current = candidates;
+    }
+
+    if (level > entry.level) {
+      this.entryPoint = id;
+    }
+  }
+
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    this.nodes.delete(id);
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      let topLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > topLevel) {
+          topLevel = candidate.level;
+          this.entryPoint = candidate.id;
+        }
+      }
+    }
+
+    for (const links of node.neighbors) {
+      for (const neighborId of links) this.inbound.get(neighborId)?.delete(id);
+    }
+    const referrers = Array.from(this.inbound.get(id) ?? []);
+    this.inbound.delete(id);
+
+    for (const other of referrers.flatMap(otherId => this.nodes.get(otherId) ?? [])) {
+      for (let layer = 0; layer <= Math.min(other.level, node.level); layer++) {
+        const links = other.neighbors[layer];
+        if (!links.includes(id)) continue;
+
+        const candidates = new Set([...links, ...node.neighbors[layer]]);
+        candidates.delete(id);
+        candidates.delete(other.id);
+        this.setNeighbors(other, layer, this.selectNeighbors(
+          other.vector,
+          Array.from(candidates).flatMap(candidateId => {
+            const candidate = this.nodes.get(candidateId);
+            return candidate ? [{ id: candidateId, score: dot(other.vector, candidate.vector) }] : [];
+          }),
+          this.maxNeighbors(layer)
+        ));
+      }
+    }
+
+    return true;
+  }
+
+  search(query: ArrayLike<number>, topK: number, efSearch: number = this.options.efSearch): HnswNeighbor[] {
+    if (this.entryPoint === null || topK <= 0) return [];
+
+    const vector = normalize(query);
+    const entry = this.nodes.get(this.entryPoint)!;
+    let current = [{ id: entry.id, score: dot(vector, entry.vector) }];
+
+    for (let layer = entry.level; layer > 0; layer--) {
+      current = this.searchLayer(vector, current, 1, layer);
+    }
+
+    return this.searchLayer(vector, current, Math.max(efSearch, topK), 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  // Exact top-k over every node, the reference for recall checks
+  bruteForce(query: ArrayLike<number>, topK: number): HnswNeighbor[] {
+    const vector = normalize(query);
+    return Array.from(this.nodes.values(), node => ({ id: node.id, score: dot(vector, node.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  toJSON(): SerializedHnswGraph {
+    return {
+      dimension: this.dimension,
+      options: this.options,
+      entryPoint: this.entryPoint,
+      nodes: Array.from(this.nodes.values(), ({ id, level, neighbors }) => ({ id, level, neighbors })),
+    };
+  }
+
+  // Vectors are not part of the serialized graph; every node's vector must be supplied
+  static fromJSON(serialized: SerializedHnswGraph, vectors: Map<string, ArrayLike<number>>): HnswGraph {
+    const graph = new HnswGraph(serialized.dimension, serialized.options);
+
+    for (const { id, level, neighbors } of serialized.nodes) {
+      const vector = vectors.get(id);
+      if (!vector || vector.length !== serialized.dimension) {
+        throw new Error(`Missing or mismatched vector for node ${id}`);
+      }
+      graph.nodes.set(id, { id, vector: normalize(vector), level, neighbors });
+    }
+    for (const { id, neighbors } of serialized.nodes) {
+      for (const links of neighbors) {
+        for (const neighborId of links) graph.addInbound(neighborId, id);
+      }
+    }
+
+    if (serialized.entryPoint !== null && !graph.nodes.has(serialized.entryPoint)) {
+      throw new Error(`Entry point ${serialized.entryPoint} is not in the graph`);
+    }
+    graph.entryPoint = serialized.entryPoint;
+    return graph;
+  }
+
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private searchLayer(query: Float32Array, entryPoints: HnswNeighbor[], ef: number, layer: number): HnswNeighbor[] {
+    const visited = new Set(entryPoints.map(point => point.id));
+    const candidates = new Heap<HnswNeighbor>((a, b) => b.score - a.score);
+    const results = new Heap<HnswNeighbor>((a, b) => a.score - b.score);
+
+    for (const point of entryPoints) {
+      candidates.push(point);
+      results.push(point);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.score < results.peek()!.score) break;
+
+      for (const neighborId of this.nodes.get(closest.id)?.neighbors[layer] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const score = dot(query, neighbor.vector);
+        if (results.size < ef || score > results.peek()!.score) {
+          candidates.push({ id: neighborId, score });
+          results.push({ id: neighborId, score });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray();
+  }
+
+  // Keeps a candidate only if it is closer to the base than to every neighbour kept so far,
+  // which spreads links across clusters; remaining slots are filled with the nearest rejects
+  private selectNeighbors(base: Float32Array, candidates: HnswNeighbor[], max: number): string[] {
+    const sorted = [...candidates].sort((a, b) => b.score - a.score);
+    const selected: HnswNode[] = [];
+    const rejected: string[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const node = this.nodes.get(candidate.id);
+      if (!node) continue;
+
+      if (selected.every(kept => dot(node.vector, kept.vector) < candidate.score)) {
+        selected.push(node);
+      } else {
+        rejected.push(node.id);
+      }
+    }
+
+    return [...selected.map(node => node.id), ...rejected].slice(0, max);
+  }
+
+  private link(node: HnswNode, neighborId: string, layer: number): void {
+    const links = node.neighbors[layer];
+    if (links.includes(neighborId)) return;
+
+    if (links.length < this.maxNeighbors(layer)) {
+      links.push(neighborId);
+      this.addInbound(neighborId, node.id);
+      return;
+    }
+
+    const candidates = [...links, neighborId].map(id => ({
+      id,
+      score: dot(node.vector, this.nodes.get(id)!.vector),
+    }));
+    this.setNeighbors(node, layer, this.selectNeighbors(node.vector, candidates, this.maxNeighbors(layer)));
+  }
+
+  // Replaces a node's links on one layer and keeps the in-neighbour map in step
+  private setNeighbors(node: HnswNode, layer: number, neighbors: string[]): void {
+    const previous = node.neighbors[layer];
+    node.neighbors[layer] = neighbors;
+
+    for (const neighborId of neighbors) this.addInbound(neighborId, node.id);
+    for (const neighborId of previous) {
+      if (!node.neighbors.some(links => links.includes(neighborId))) {
+        this.inbound.get(neighborId)?.delete(node.id);
+      }
+    }
+  }
+
+  private addInbound(id: string, referrer: string): void {
+    let referrers = this.inbound.get(id);
+    if (!referrers) {
+      referrers = new Set();
+      this.inbound.set(id, referrers);
+    }
+    referrers.add(referrer);
+  }
+}
+
+// Share of the exact top-k the graph search finds, averaged over the queries
+export function measureRecall(graph: HnswGraph, queries: ArrayLike<number>[], topK: number, efSearch?: number): number {
+  if (queries.length === 0 || graph.size === 0) return 1;
+
+  let total = 0;
+  for (const query of queries) {
+    const expected = graph.bruteForce(query, topK);
+    const found = new Set(graph.search(query, topK, efSearch).map(result => result.id));
+    total += expected.filter(result => found.has(result.id)).length / expected.length;
+  }
+  return total / queries.length;
+}
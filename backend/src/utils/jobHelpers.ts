@@ -0,0 +1,70 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CreateIngestionJobInput, IngestionJob, IngestionJobFilter, IngestionJobStatus, IngestionJobUpdate } from '../types/job.types';
+
+export const TERMINAL_JOB_STATUSES: IngestionJobStatus[] = ['completed', 'failed'];
+
+export function isTerminalJobStatus(status: IngestionJobStatus): boolean {
+  return TERMINAL_JOB_STATUSES.includes(status);
+}
+
+export function createJobRecord(input: CreateIngestionJobInput): IngestionJob {
+  const now = new Date();
+  return {
+    jobId: uuidv4(),
+    documentId: input.documentId,
+    collection: input.collection,
+    file: input.file,
+    ...(input.tags?.length && { tags: input.tags }),
+    ...(input.replacesDocumentId && { replacesDocumentId: input.replacesDocumentId }),
+    status: 'queued',
+    progress: { percentage: 0, embeddedChunks: 0 },
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function reviveJob(raw: any): IngestionJob {
+  return {
+    jobId: raw.jobId,
+    documentId: raw.documentId,
+    collection: raw.collection,
+    file: raw.file,
+    ...(raw.tags?.length && { tags: raw.tags }),
+    ...(raw.replacesDocumentId && { replacesDocumentId: raw.replacesDocumentId }),
+    status: raw.status,
+    progress: raw.progress,
+    ...(raw.result && { result: raw.result }),
+    ...(raw.error && { error: raw.error }),
+    attempts: raw.attempts || 0,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    ...(raw.completedAt && { completedAt: new Date(raw.completedAt) })
+  };
+}
+
+export function applyJobUpdate(job: IngestionJob, update: IngestionJobUpdate): IngestionJob {
+  const now = new Date();
+  const { progress, ...fields } = update;
+
+  const updated: IngestionJob = { ...job, updatedAt: now };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      (updated as any)[key] = value;
+    }
+  }
+
+  if (progress) {
+    updated.progress = { ...job.progress, ...progress };
+  }
+  if (update.status && isTerminalJobStatus(update.status)) {
+    updated.completedAt = now;
+  }
+
+  return updated;
+}
+
+export function matchesJobFilter(job: IngestionJob, filter?: IngestionJobFilter): boolean {
+  if (!filter?.status) return true;
+  return filter.status.includes(job.status);
+}
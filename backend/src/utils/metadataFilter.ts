@@ -0,0 +1,308 @@
+import type { VectorFilter } from '@mastra/core/vector/filter';
+
+/**
+ * Filter over chunk metadata in Mastra's (MongoDB-style) syntax, e.g.
+ *   { documentId: 'hr-security-policy-pdf' }
+ *   { $and: [{ tags: { $in: ['security'] } }, { uploadedAt: { $gte: '2025-07-01' } }] }
+ * A field holding an array matches when any element does, so { tags: 'security' } finds
+ * chunks tagged "security". Missing fields only match $ne, $nin, $exists: false and null.
+ */
+export type MetadataFilter = VectorFilter;
+
+export class MetadataFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataFilterError';
+  }
+}
+
+export interface CompiledCosmosFilter {
+  clause: string;
+  parameters: Array<{ name: string; value: any }>;
+}
+
+type Condition = Record<string, any>;
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+const FIELD_OPERATORS = new Set(['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$all', '$exists', '$regex', '$options', '$not']);
+const REGEX_OPTIONS = /^[ims]*$/;
+
+function isPlainObject(value: unknown): value is Condition {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isOperatorObject(value: unknown): value is Condition {
+  return isPlainObject(value) && Object.keys(value).length > 0 && Object.keys(value).every(key => key.startsWith('$'));
+}
+
+// Dates compare as ISO strings, the form uploadedAt and other timestamps are stored in
+function normalizeValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function requireArray(operator: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new MetadataFilterError(`${operator} requires an array`);
+  }
+  return value.map(normalizeValue);
+}
+
+function requireField(field: string): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new MetadataFilterError(`Invalid metadata field name: ${field}`);
+  }
+  return field;
+}
+
+function regexOptions(condition: Condition): string {
+  const options = condition.$options ?? '';
+  if (typeof options !== 'string' || !REGEX_OPTIONS.test(options)) {
+    throw new MetadataFilterError('$options supports only the i, m and s flags');
+  }
+  return options;
+}
+
+function regexSource(value: unknown): string {
+  if (value instanceof RegExp) return value.source;
+  if (typeof value !== 'string') {
+    throw new MetadataFilterError('$regex requires a string');
+  }
+  return value;
+}
+
+function isEmptyFilter(filter: MetadataFilter): boolean {
+  return !filter || (isPlainObject(filter) && Object.keys(filter).length === 0);
+}
+
+// ---------------------------------------------------------------------------
+// Local evaluation
+// ---------------------------------------------------------------------------
+
+function getField(metadata: Record<string, any>, field: string): unknown {
+  return field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), metadata);
+}
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (expected === null) return actual === null || actual === undefined;
+  if (Array.isArray(actual)) return actual.some(item => valuesEqual(item, expected));
+  return actual === expected;
+}
+
+function compare(actual: unknown, expected: unknown, test: (difference: number) => boolean): boolean {
+  if (Array.isArray(actual)) return actual.some(item => compare(item, expected, test));
+  if (typeof actual === 'number' && typeof expected === 'number') return test(actual - expected);
+  if (typeof actual === 'string' && typeof expected === 'string') return test(actual < expected ? -1 : actual > expected ? 1 : 0);
+  return false;
+}
+
+function matchesOperators(actual: unknown, condition: Condition): boolean {
+  return Object.entries(condition).every(([operator, rawValue]) => {
+    const value = normalizeValue(rawValue);
+
+    switch (operator) {
+      case '$eq':
+        return valuesEqual(actual, value);
+      case '$ne':
+        return !valuesEqual(actual, value);
+      case '$gt':
+        return compare(actual, value, difference => difference > 0);
+      case '$gte':
+        return compare(actual, value, difference => difference >= 0);
+      case '$lt':
+        return compare(actual, value, difference => difference < 0);
+      case '$lte':
+        return compare(actual, value, difference => difference <= 0);
+      case '$in':
+        return requireArray(operator, rawValue).some(expected => valuesEqual(actual, expected));
+      case '$nin':
+        return !requireArray(operator, rawValue).some(expected => valuesEqual(actual, expected));
+      case '$all':
+        return Array.isArray(actual) && requireArray(operator, rawValue).every(expected => valuesEqual(actual, expected));
+      case '$exists':
+        return (actual !== undefined) === Boolean(value);
+      case '$regex': {
+        const pattern = new RegExp(regexSource(rawValue), regexOptions(condition));
+        const candidates = Array.isArray(actual) ? actual : [actual];
+        return candidates.some(item => typeof item === 'string' && pattern.test(item));
+      }
+      case '$options':
+        return true;
+      case '$not':
+        if (!isOperatorObject(rawValue)) {
+          throw new MetadataFilterError('$not requires an operator object');
+        }
+        return !matchesOperators(actual, rawValue);
+      default:
+        throw new MetadataFilterError(`Unsupported filter operator: ${operator}`);
+    }
+  });
+}
+
+function matchesCondition(metadata: Record<string, any>, condition: Condition): boolean {
+  return Object.entries(condition).every(([key, value]) => {
+    switch (key) {
+      case '$and':
+        return requireArray(key, value).every(branch => matchesCondition(metadata, branch as Condition));
+      case '$or':
+        return requireArray(key, value).some(branch => matchesCondition(metadata, branch as Condition));
+      case '$nor':
+        return !requireArray(key, value).some(branch => matchesCondition(metadata, branch as Condition));
+      case '$not':
+        if (!isPlainObject(value)) {
+          throw new MetadataFilterError('$not requires an object');
+        }
+        return !matchesCondition(metadata, value);
+    }
+
+    const actual = getField(metadata, requireField(key));
+    return isOperatorObject(value) ? matchesOperators(actual, value) : valuesEqual(actual, normalizeValue(value));
+  });
+}
+
+export function matchesMetadataFilter(metadata: Record<string, any> | undefined, filter: MetadataFilter): boolean {
+  if (isEmptyFilter(filter)) return true;
+  return matchesCondition(metadata || {}, filter as Condition);
+}
+
+// ---------------------------------------------------------------------------
+// Cosmos SQL compilation
+// ---------------------------------------------------------------------------
+
+/**
+ * Compiles a filter into a Cosmos SQL condition over `${root}` (the metadata object) with
+ * the same semantics as matchesMetadataFilter. Values are always passed as parameters;
+ * field names are validated and quoted. Every leaf is coalesced to false, because Cosmos
+ * comparisons across types or against missing fields yield undefined rather than false.
+ */
+export function compileCosmosFilter(filter: MetadataFilter, root: string = 'c.metadata', parameterPrefix: string = '@filter'): CompiledCosmosFilter | null {
+  if (isEmptyFilter(filter)) return null;
+
+  const parameters: CompiledCosmosFilter['parameters'] = [];
+  const param = (value: unknown): string => {
+    const name = `${parameterPrefix}${parameters.length}`;
+    parameters.push({ name, value: normalizeValue(value) });
+    return name;
+  };
+
+  const path = (field: string): string =>
+    requireField(field).split('.').reduce((expression, key) => `${expression}["${key}"]`, root);
+
+  const leaf = (expression: string) => `((${expression}) ?? false)`;
+
+  const equals = (field: string, value: unknown): string => {
+    const property = path(field);
+    if (value === null) {
+      return `(NOT IS_DEFINED(${property}) OR IS_NULL(${property}))`;
+    }
+    const name = param(value);
+    return `(${leaf(`${property} = ${name}`)} OR ${leaf(`IS_ARRAY(${property}) AND ARRAY_CONTAINS(${property}, ${name})`)})`;
+  };
+
+  const comparison = (field: string, operator: string, value: unknown): string => {
+    const property = path(field);
+    const name = param(value);
+    return `(${leaf(`${property} ${operator} ${name}`)} OR ${leaf(`IS_ARRAY(${property}) AND EXISTS(SELECT VALUE t FROM t IN ${property} WHERE t ${operator} ${name})`)})`;
+  };
+
+  const anyOf = (field: string, values: unknown[]): string => {
+    const property = path(field);
+    const clauses: string[] = [];
+    const concrete = values.filter(value => value !== null);
+
+    if (concrete.length > 0) {
+      const name = param(concrete);
+      clauses.push(leaf(`ARRAY_CONTAINS(${name}, ${property})`));
+      clauses.push(leaf(`IS_ARRAY(${property}) AND EXISTS(SELECT VALUE t FROM t IN ${property} WHERE ARRAY_CONTAINS(${name}, t))`));
+    }
+    if (concrete.length < values.length) {
+      clauses.push(equals(field, null));
+    }
+    return clauses.length > 0 ? `(${clauses.join(' OR ')})` : 'false';
+  };
+
+  const compileOperators = (field: string, condition: Condition): string => {
+    const clauses = Object.entries(condition).flatMap(([operator, value]): string[] => {
+      switch (operator) {
+        case '$eq':
+          return [equals(field, value)];
+        case '$ne':
+          return [`NOT ${equals(field, value)}`];
+        case '$gt':
+          return [comparison(field, '>', value)];
+        case '$gte':
+          return [comparison(field, '>=', value)];
+        case '$lt':
+          return [comparison(field, '<', value)];
+        case '$lte':
+          return [comparison(field, '<=', value)];
+        case '$in':
+          return [anyOf(field, requireArray(operator, value))];
+        case '$nin':
+          return [`NOT ${anyOf(field, requireArray(operator, value))}`];
+        case '$all': {
+          const property = path(field);
+          const values = requireArray(operator, value);
+          return [values.length > 0
+            ? `(${values.map(item => leaf(`IS_ARRAY(${property}) AND ARRAY_CONTAINS(${property}, ${param(item)})`)).join(' AND ')})`
+            : leaf(`IS_ARRAY(${property})`)];
+        }
+        case '$exists':
+          return [value ? `IS_DEFINED(${path(field)})` : `NOT IS_DEFINED(${path(field)})`];
+        case '$regex': {
+          const property = path(field);
+          const name = param(regexSource(value));
+          const options = regexOptions(condition);
+          return [`(${leaf(`RegexMatch(${property}, ${name}, '${options}')`)} OR ${leaf(`IS_ARRAY(${property}) AND EXISTS(SELECT VALUE t FROM t IN ${property} WHERE RegexMatch(t, ${name}, '${options}'))`)})`];
+        }
+        case '$options':
+          return [];
+        case '$not':
+          if (!isOperatorObject(value)) {
+            throw new MetadataFilterError('$not requires an operator object');
+          }
+          return [`NOT ${compileOperators(field, value)}`];
+        default:
+          throw new MetadataFilterError(`Unsupported filter operator: ${operator}`);
+      }
+    });
+    return clauses.length > 0 ? `(${clauses.join(' AND ')})` : 'true';
+  };
+
+  const compileCondition = (condition: Condition): string => {
+    const clauses = Object.entries(condition).map(([key, value]) => {
+      switch (key) {
+        case '$and':
+          return `(${requireArray(key, value).map(branch => compileCondition(branch as Condition)).join(' AND ') || 'true'})`;
+        case '$or':
+          return `(${requireArray(key, value).map(branch => compileCondition(branch as Condition)).join(' OR ') || 'false'})`;
+        case '$nor':
+          return `NOT (${requireArray(key, value).map(branch => compileCondition(branch as Condition)).join(' OR ') || 'false'})`;
+        case '$not':
+          if (!isPlainObject(value)) {
+            throw new MetadataFilterError('$not requires an object');
+          }
+          return `NOT ${compileCondition(value)}`;
+      }
+
+      if (key.startsWith('$')) {
+        throw new MetadataFilterError(`Unsupported filter operator: ${key}`);
+      }
+      if (isOperatorObject(value)) {
+        const unknown = Object.keys(value).find(operator => !FIELD_OPERATORS.has(operator));
+        if (unknown) {
+          throw new MetadataFilterError(`Unsupported filter operator: ${unknown}`);
+        }
+        return compileOperators(key, value);
+      }
+      return equals(key, value);
+    });
+    return clauses.length > 0 ? `(${clauses.join(' AND ')})` : 'true';
+  };
+
+  return { clause: compileCondition(filter as Condition), parameters };
+}
+
+// Throws a MetadataFilterError for malformed filters, before any search runs
+export function validateMetadataFilter(filter: MetadataFilter): void {
+  compileCosmosFilter(filter);
+}
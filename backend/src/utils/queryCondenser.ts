@@ -0,0 +1,37 @@
+import type { Message } from '../types/memory.types';
+
+// Openers and references that only make sense after an earlier question
+const FOLLOW_UP_PREFIX = /^\s*(?:and what about|and how about|what about|how about|same for|what if|and for|and if|and|also|but|so|then|ok(?:ay)?)\b[\s,:-]*/i;
+const REFERENCE = /\b(?:this|those|these|they|them|their|the same|above|former|latter)\b/i;
+// Case-sensitive, so "IT security policy" is not read as a pronoun
+const IT_REFERENCE = /\b[Ii]ts?\b/;
+
+// Short queries ("Tier 4 approval") are not follow-ups by length alone: they need an opener or a reference
+export function isFollowUp(query: string): boolean {
+  return FOLLOW_UP_PREFIX.test(query) || REFERENCE.test(query) || IT_REFERENCE.test(query);
+}
+
+/**
+ * Offline condensing: a follow-up ("and what about Tier 4?") is prefixed with the most
+ * recent standalone user question in the thread ("What are the budget approval tiers?"),
+ * so the search sees both the topic and the new detail. Standalone queries are unchanged.
+ */
+export function condenseWithHistory(query: string, history: Message[]): string {
+  const trimmed = query.trim();
+  const userTurns = history
+    .filter(message => message.role === 'user')
+    .map(message => message.content.trim())
+    .filter(content => content.length > 0);
+
+  // The chat route stores the question before retrieval runs, so the latest user turn is
+  // the one being answered (the search query may be the agent's rephrasing of it)
+  userTurns.pop();
+  if (!isFollowUp(trimmed) || userTurns.length === 0) return trimmed;
+
+  const earlier = userTurns.reverse();
+  const topic = earlier.find(content => !isFollowUp(content)) ?? earlier[0];
+  if (topic.toLowerCase().includes(trimmed.toLowerCase())) return trimmed;
+
+  const detail = trimmed.replace(FOLLOW_UP_PREFIX, '').trim();
+  return detail ? `${topic} ${detail}` : topic;
+}
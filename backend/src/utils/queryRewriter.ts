@@ -0,0 +1,157 @@
+export type QueryRewriteStrategy = 'original' | 'normalized' | 'vocabulary' | 'llm';
+
+export interface QueryRewrite {
+  query: string;
+  strategy: QueryRewriteStrategy;
+  changes: string[]; // e.g. "60k → $60,000", so a match can be traced back to the rewrite
+}
+
+// Handbook acronyms. Short ones that double as words or abbreviations ("ac", "pm", "etc")
+// are only expanded when written in capitals.
+const ACRONYMS: Record<string, string> = {
+  AC: 'actual cost',
+  BAC: 'budget at completion',
+  CAPEX: 'capital expenditure',
+  CCB: 'change control board',
+  CPI: 'cost performance index',
+  CR: 'change request',
+  CSAT: 'customer satisfaction',
+  CV: 'cost variance',
+  EAC: 'estimate at completion',
+  ETC: 'estimate to complete',
+  EV: 'earned value',
+  EVM: 'earned value management',
+  HR: 'human resources',
+  KPI: 'key performance indicator',
+  MTTR: 'mean time to recovery',
+  NPS: 'net promoter score',
+  OPEX: 'operating expenditure',
+  PM: 'project manager',
+  PMO: 'project management office',
+  PV: 'planned value',
+  QA: 'quality assurance',
+  RACI: 'responsible accountable consulted informed',
+  ROI: 'return on investment',
+  SLA: 'service level agreement',
+  SOW: 'statement of work',
+  SPI: 'schedule performance index',
+  SV: 'schedule variance',
+  TCPI: 'to-complete performance index',
+  UAT: 'user acceptance testing',
+  VP: 'vice president',
+  WBS: 'work breakdown structure',
+};
+
+const CAPITALS_ONLY = new Set(['AC', 'CR', 'CV', 'ETC', 'EV', 'PM', 'PV', 'SV']);
+
+// Colloquial phrasing mapped onto the terms the handbook uses, applied in order
+const VOCABULARY: Array<[RegExp, string]> = [
+  [/\bwho\s+(?:signs?|signed|signing)\s+off(?:\s+on)?\b/gi, 'who has approval authority for'],
+  [/\bwho\s+(?:approves|okays|oks|greenlights)\b/gi, 'who has approval authority for'],
+  [/\b(?:signs?|signed|signing)[\s-]+off(?:\s+on)?\b/gi, 'approves'],
+  [/\bsign[\s-]?offs?\b/gi, 'approval'],
+  [/\b(?:okays?|green[\s-]?lights?)\b/gi, 'approves'],
+  [/\b(?:thing|stuff|initiative|gig|piece of work)\b/gi, 'project'],
+  [/\b(?:spend|spending|money|cash|funding)\b/gi, 'budget'],
+  [/\bscope\s+creep\b/gi, 'scope change'],
+  [/\b(?:running\s+late|behind\s+schedule|slipping|slipped)\b/gi, 'schedule delay'],
+  [/\b(?:headcount|staffing|people)\b/gi, 'resource allocation'],
+  [/\bbugs?\b/gi, 'defects'],
+  [/\bkick[\s-]?off\b/gi, 'project initiation'],
+  [/\b(?:wrap(?:ping)?\s+up|close[\s-]?out)\b/gi, 'project closure'],
+  [/\bboss\b/gi, 'manager'],
+];
+
+const AMOUNT_PATTERN = /(\$\s*)?(\d+(?:[.,]\d+)*)\s*(k|thousand|grand|m|mm|mil|million|bn|billion)?\b(\s*(?:dollars|usd|bucks))?/gi;
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, grand: 1e3,
+  m: 1e6, mm: 1e6, mil: 1e6, million: 1e6,
+  bn: 1e9, billion: 1e9,
+};
+
+function formatAmount(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+/**
+ * Rewrites money in the handbook's "$50,000" form: "60k", "$60K", "60 grand", "1.5m",
+ * "60000 dollars". Plain numbers without a currency sign, unit or suffix are left alone.
+ */
+export function normalizeAmounts(query: string): { query: string; changes: string[] } {
+  const changes: string[] = [];
+
+  const rewritten = query.replace(AMOUNT_PATTERN, (match, dollar, digits, suffix, currency) => {
+    if (!dollar && !suffix && !currency) return match;
+
+    const value = Number(digits.replace(/,/g, '')) * (suffix ? MULTIPLIERS[suffix.toLowerCase()] : 1);
+    if (!Number.isFinite(value) || value <= 0) return match;
+
+    const formatted = formatAmount(value);
+    if (formatted !== match.trim()) {
+      changes.push(`${match.trim()} → ${formatted}`);
+    }
+    return match.endsWith(' ') ? `${formatted} ` : formatted;
+  });
+
+  return { query: rewritten, changes };
+}
+
+export function expandAcronyms(query: string): { query: string; changes: string[] } {
+  const changes: string[] = [];
+
+  const rewritten = query.replace(/\b[A-Za-z]{2,5}\b/g, word => {
+    const acronym = word.toUpperCase();
+    const expansion = ACRONYMS[acronym];
+    if (!expansion || (CAPITALS_ONLY.has(acronym) && word !== acronym)) return word;
+
+    changes.push(`${word} → ${expansion}`);
+    return `${expansion} (${acronym})`;
+  });
+
+  return { query: rewritten, changes };
+}
+
+export function applyVocabulary(query: string): { query: string; changes: string[] } {
+  const changes: string[] = [];
+  let rewritten = query;
+
+  for (const [pattern, replacement] of VOCABULARY) {
+    rewritten = rewritten.replace(pattern, match => {
+      changes.push(`${match} → ${replacement}`);
+      return replacement;
+    });
+  }
+
+  return { query: rewritten.replace(/\s+/g, ' ').trim(), changes };
+}
+
+/**
+ * Deterministic rewrites of a search query: the original, a normalized form (amounts and
+ * acronyms spelled the way the handbook writes them) and a vocabulary form that also swaps
+ * colloquial phrasing for handbook terms. Rewrites identical to an earlier one are dropped.
+ */
+export function rewriteQuery(query: string, maxRewrites: number = 3): QueryRewrite[] {
+  const original = query.trim();
+  const amounts = normalizeAmounts(original);
+  const acronyms = expandAcronyms(amounts.query);
+  const normalized = { query: acronyms.query, changes: [...amounts.changes, ...acronyms.changes] };
+  const vocabulary = applyVocabulary(normalized.query);
+
+  const rewrites: QueryRewrite[] = [
+    { query: original, strategy: 'original', changes: [] },
+    { query: normalized.query, strategy: 'normalized', changes: normalized.changes },
+    { query: vocabulary.query, strategy: 'vocabulary', changes: [...normalized.changes, ...vocabulary.changes] },
+  ];
+
+  return dedupeRewrites(rewrites).slice(0, Math.max(1, maxRewrites));
+}
+
+export function dedupeRewrites(rewrites: QueryRewrite[]): QueryRewrite[] {
+  const seen = new Set<string>();
+  return rewrites.filter(rewrite => {
+    const key = rewrite.query.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,30 @@
+export const RRF_K = 60;
+
+export interface FusedRank {
+  id: string;
+  score: number;
+  ranks: number[];
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) for every id it contains.
+ * Scores are normalised so an id ranked first in every list scores 1.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): FusedRank[] {
+  const fused = new Map<string, FusedRank>();
+
+  rankings.forEach((ids, listIdx) => {
+    ids.forEach((id, idx) => {
+      const entry = fused.get(id) || { id, score: 0, ranks: rankings.map(() => 0) };
+      entry.score += 1 / (k + idx + 1);
+      entry.ranks[listIdx] = idx + 1;
+      fused.set(id, entry);
+    });
+  });
+
+  const best = rankings.filter(ids => ids.length > 0).length / (k + 1) || 1;
+
+  return Array.from(fused.values())
+    .map(entry => ({ ...entry, score: entry.score / best }))
+    .sort((a, b) => b.score - a.score);
+}
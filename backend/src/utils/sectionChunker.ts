@@ -0,0 +1,272 @@
+export interface SectionChunk {
+  text: string;
+  metadata: Record<string, any>;
+}
+
+export interface SectionChunkOptions {
+  maxSize: number;
+  overlap: number;
+}
+
+interface Heading {
+  level: number;
+  number?: string;
+  title: string;
+}
+
+interface Block {
+  sectionIdx: number;
+  start: number;
+  end: number;
+  heading?: Heading;
+  chapter?: Heading;
+}
+
+interface Line {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const RULE_PATTERN = /^(={3,}|-{3,}|_{3,}|\*{3,})$/;
+const UNDERLINE_PATTERN = /^(={3,}|-{3,})$/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const NUMBERED_LINE = /^(\d{1,2}(?:\.\d{1,2})*)\.?\s+(\S.*)$/;
+// "A. Acronyms and Definitions" inside an unnumbered chapter such as an appendix
+const LETTERED_LINE = /^([A-Z])\.\s+([A-Z].*)$/;
+const TOC_TITLE = /^(table of contents|contents)$/i;
+// "2.1 Budget Approval ........ 7" or "2.1 Budget Approval    7"
+const TOC_PAGE_SUFFIX = /(\s*\.{2,}\s*|\s{2,})\d+$/;
+const MAX_HEADING_LENGTH = 100;
+
+// Input sections (e.g. PDF pages) are joined with this when a document is shown as one text
+export const SECTION_SEPARATOR = '\n\n';
+
+export function joinSections(sections: Array<{ text: string }>): string {
+  return sections.map(section => section.text).join(SECTION_SEPARATOR);
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf('\n', start);
+    const end = newline === -1 ? text.length : newline;
+    lines.push({ start, end, text: text.slice(start, end).trim() });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return lines;
+}
+
+function splitNumber(title: string): Omit<Heading, 'level'> {
+  const match = title.match(NUMBERED_LINE);
+  return match ? { number: match[1], title: match[2].trim() } : { title: title.trim() };
+}
+
+function depthOf(number: string): number {
+  return number.split('.').length;
+}
+
+function isAllCaps(title: string): boolean {
+  return /[A-Z]{2,}/.test(title) && !/[a-z]/.test(title);
+}
+
+/**
+ * Recognises, in order: Markdown "#" headings, lines underlined (or boxed) by "===" / "---"
+ * rules, and numbered headings such as "2.1 Budget Approval Guidelines". A bare "3. Title"
+ * only counts as a chapter when it is upper-case, so numbered lists stay body text, and
+ * "N.M" headings must belong to the current chapter so figures like "1.5 FTE" are ignored.
+ * Lettered sections ("A. Title") are only recognised under an unnumbered chapter.
+ */
+function detectHeading(lines: Line[], idx: number, chapter: Heading | undefined, inToc: boolean): Heading | null {
+  const line = lines[idx].text;
+  if (!line || RULE_PATTERN.test(line) || line.length > MAX_HEADING_LENGTH) return null;
+
+  const prev = idx > 0 ? lines[idx - 1].text : '';
+  if (prev && !RULE_PATTERN.test(prev)) return null;
+
+  const markdown = line.match(MARKDOWN_HEADING);
+  if (markdown) {
+    return { level: markdown[1].length, ...splitNumber(markdown[2]) };
+  }
+
+  const underline = (lines[idx + 1]?.text || '').match(UNDERLINE_PATTERN);
+  if (underline) {
+    const parsed = splitNumber(line);
+    return { level: parsed.number ? depthOf(parsed.number) : underline[1][0] === '=' ? 1 : 2, ...parsed };
+  }
+
+  if (inToc) return null;
+
+  const lettered = line.match(LETTERED_LINE);
+  if (lettered && chapter && !chapter.number && !/[.:;,]$/.test(lettered[2])) {
+    return { level: 2, number: lettered[1], title: lettered[2].trim() };
+  }
+
+  const numbered = splitNumber(line);
+  if (!numbered.number || !/^[A-Z]/.test(numbered.title) || /[.:;,]$/.test(numbered.title)) return null;
+
+  const depth = depthOf(numbered.number);
+  if (depth === 1) {
+    return isAllCaps(numbered.title) ? { level: 1, ...numbered } : null;
+  }
+  if (chapter?.number && numbered.number.split('.')[0] !== chapter.number) return null;
+
+  return { level: depth, ...numbered };
+}
+
+// Narrows [start, end) so it neither starts nor ends on blank or rule lines
+function trimRange(text: string, start: number, end: number): [number, number] {
+  let from = start;
+  while (from < end) {
+    const newline = text.indexOf('\n', from);
+    const lineEnd = newline === -1 || newline > end ? end : newline;
+    const line = text.slice(from, lineEnd).trim();
+    if (line && !RULE_PATTERN.test(line)) break;
+    from = lineEnd + 1;
+  }
+
+  let to = end;
+  while (to > from) {
+    const newline = text.lastIndexOf('\n', to - 1);
+    const lineStart = newline < from ? from : newline + 1;
+    const line = text.slice(lineStart, to).trim();
+    if (line && !RULE_PATTERN.test(line)) break;
+    to = Math.max(from, newline);
+  }
+
+  return from < to ? [from, text.slice(from, to).trimEnd().length + from] : [from, from];
+}
+
+// Splits an oversized section at paragraph, then line, then word boundaries
+function splitRange(text: string, start: number, end: number, maxSize: number, overlap: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let pos = start;
+
+  while (end - pos > maxSize) {
+    const window = text.slice(pos, pos + maxSize);
+    const minCut = Math.floor(maxSize / 2);
+    const boundary = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')]
+      .find(idx => idx >= minCut);
+    const cut = pos + (boundary ?? maxSize);
+    ranges.push([pos, cut]);
+
+    // Start the next piece at a line (or word) boundary inside the overlap window
+    const overlapStart = Math.max(pos + 1, cut - overlap);
+    const lineStart = text.indexOf('\n', overlapStart);
+    const wordStart = text.indexOf(' ', overlapStart);
+    let next = lineStart !== -1 && lineStart < cut ? lineStart + 1
+      : wordStart !== -1 && wordStart < cut ? wordStart + 1
+      : cut;
+    while (next < end && /\s/.test(text[next])) next++;
+    pos = next;
+  }
+
+  if (pos < end) ranges.push([pos, end]);
+  return ranges;
+}
+
+function stripUndefined(metadata: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Structure-aware chunker. Each numbered (sub)section becomes one chunk when it fits in
+ * maxSize and is split on paragraph boundaries (with overlap) when it does not, so chunks
+ * never straddle two sections. Chunk text is an exact slice of its input section, and the
+ * section number, title and parent chapter go into the metadata for citations, along with
+ * startOffset/endOffset into joinSections(sections). Heading state carries across input
+ * sections (e.g. PDF pages).
+ */
+export function chunkBySection(
+  sections: Array<{ text: string; metadata?: Record<string, any> }>,
+  options: SectionChunkOptions
+): SectionChunk[] {
+  const blocks: Block[] = [];
+  const tocTitles = new Map<string, string>();
+  let chapter: Heading | undefined;
+  let heading: Heading | undefined;
+  let inToc = false;
+
+  sections.forEach((section, sectionIdx) => {
+    const lines = splitLines(section.text);
+    let block: Block = { sectionIdx, start: 0, end: section.text.length, heading, chapter };
+
+    lines.forEach((line, idx) => {
+      const detected = detectHeading(lines, idx, chapter, inToc);
+
+      if (!detected) {
+        const entry = inToc ? line.text.replace(TOC_PAGE_SUFFIX, '').match(NUMBERED_LINE) : null;
+        if (entry) tocTitles.set(entry[1], entry[2].trim());
+        return;
+      }
+
+      block.end = line.start;
+      blocks.push(block);
+
+      inToc = TOC_TITLE.test(detected.title);
+      if (detected.level === 1 && !inToc) chapter = detected;
+      heading = detected;
+      block = { sectionIdx, start: line.start, end: section.text.length, heading, chapter };
+    });
+
+    blocks.push(block);
+  });
+
+  // Upper-case chapter headings read better with the table of contents' wording
+  const displayTitle = (entry: Heading) =>
+    entry.number && isAllCaps(entry.title) && tocTitles.has(entry.number) ? tocTitles.get(entry.number)! : entry.title;
+
+  const sectionOffsets: number[] = [];
+  sections.reduce((offset, section, idx) => {
+    sectionOffsets[idx] = offset;
+    return offset + section.text.length + SECTION_SEPARATOR.length;
+  }, 0);
+
+  const chunks: SectionChunk[] = [];
+  let carryStart: number | null = null;
+
+  blocks.forEach((block, idx) => {
+    const text = sections[block.sectionIdx].text;
+    const [start, end] = trimRange(text, carryStart ?? block.start, block.end);
+    carryStart = null;
+    if (start >= end) return;
+
+    // A heading with no body of its own (e.g. a chapter title) is folded into the next block
+    const next = blocks[idx + 1];
+    if (block.heading && !text.slice(start, end).includes('\n') && next && next.sectionIdx === block.sectionIdx) {
+      carryStart = start;
+      return;
+    }
+
+    const isToc = block.heading ? TOC_TITLE.test(block.heading.title) : false;
+    const sectionMetadata = stripUndefined({
+      sectionNumber: block.heading?.number,
+      sectionTitle: isToc ? 'Table of Contents' : block.heading && displayTitle(block.heading),
+      chapterNumber: isToc ? undefined : block.chapter?.number,
+      chapterTitle: isToc || !block.chapter ? undefined : displayTitle(block.chapter),
+    });
+
+    const ranges = end - start > options.maxSize
+      ? splitRange(text, start, end, options.maxSize, options.overlap)
+      : [[start, end] as [number, number]];
+
+    ranges.forEach(([from, to], part) => {
+      const chunkText = text.slice(from, to).trimEnd();
+      const startOffset = sectionOffsets[block.sectionIdx] + from;
+      chunks.push({
+        text: chunkText,
+        metadata: {
+          ...sections[block.sectionIdx].metadata,
+          ...sectionMetadata,
+          startOffset,
+          endOffset: startOffset + chunkText.length,
+          ...(ranges.length > 1 && { sectionPart: part + 1, sectionParts: ranges.length }),
+        },
+      });
+    });
+  });
+
+  return chunks;
+}
@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Employee, EmployeeFilter, EmployeeInput, EmployeeUpdate, Seniority, WeeklyAllocation } from '../types/team.types';
+
+export const SENIORITY_LEVELS: readonly Seniority[] = ['Junior', 'Mid', 'Senior', 'Lead', 'Principal'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface EmployeeImportPlan {
+  toCreate: EmployeeInput[];
+  toUpdate: Array<{ id: string; update: EmployeeInput }>;
+  toRemove: string[];
+}
+
+export function inferSeniority(role: string): Seniority {
+  if (/principal|staff|architect/i.test(role)) return 'Principal';
+  if (/\blead\b|head of|manager/i.test(role)) return 'Lead';
+  if (/senior|\bsr\.?\b/i.test(role)) return 'Senior';
+  if (/junior|\bjr\.?\b|intern|graduate/i.test(role)) return 'Junior';
+  return 'Mid';
+}
+
+/** Returns the ISO date (YYYY-MM-DD) of the Monday starting the week that contains `date` (UTC). */
+export function weekStartOf(date: Date): string {
+  const day = date.getUTCDay();
+  const offset = day === 0 ? 6 : day - 1;
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) - offset * MS_PER_DAY);
+  return monday.toISOString().slice(0, 10);
+}
+
+export function addWeeks(weekStart: string, weeks: number): string {
+  return new Date(Date.parse(`${weekStart}T00:00:00Z`) + weeks * 7 * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+export function allocatedHoursForWeek(employee: Employee, weekStart: string): number {
+  return employee.allocations
+    .filter(allocation => allocation.weekStart === weekStart)
+    .reduce((total, allocation) => total + allocation.hours, 0);
+}
+
+export function freeHoursForWeek(employee: Employee, weekStart: string): number {
+  return Math.max(0, employee.hoursAvailable - allocatedHoursForWeek(employee, weekStart));
+}
+
+function normaliseAllocations(allocations: WeeklyAllocation[] | undefined): WeeklyAllocation[] {
+  return (allocations || []).map(allocation => ({
+    ...allocation,
+    weekStart: weekStartOf(new Date(`${allocation.weekStart.slice(0, 10)}T00:00:00Z`))
+  }));
+}
+
+/** Fills in fields added after the original name/role/status/hours model so older records stay readable. */
+export function normaliseEmployee(raw: any): Employee {
+  return {
+    id: raw.id,
+    name: raw.name,
+    role: raw.role,
+    seniority: raw.seniority || inferSeniority(raw.role || ''),
+    skills: raw.skills || [],
+    ...(raw.location && { location: raw.location }),
+    ...(raw.timezone && { timezone: raw.timezone }),
+    status: raw.status,
+    hoursAvailable: raw.hoursAvailable,
+    allocations: normaliseAllocations(raw.allocations),
+    updatedAt: raw.updatedAt
+  };
+}
+
+export function createEmployeeRecord(input: EmployeeInput): Employee {
+  return normaliseEmployee({ ...input, id: uuidv4(), updatedAt: new Date().toISOString() });
+}
+
+export function matchesEmployeeFilter(employee: Employee, filter?: EmployeeFilter): boolean {
+  if (!filter) return true;
+
+  if (filter.status && employee.status !== filter.status) return false;
+  if (filter.search) {
+    const search = filter.search.toLowerCase();
+    if (!employee.role.toLowerCase().includes(search) && !employee.name.toLowerCase().includes(search)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function applyEmployeeUpdate(employee: Employee, update: EmployeeUpdate): Employee {
+  const updated: Employee = { ...employee, updatedAt: new Date().toISOString() };
+  for (const [key, value] of Object.entries(update)) {
+    if (value !== undefined) {
+      (updated as any)[key] = value;
+    }
+  }
+  return normaliseEmployee(updated);
+}
+
+/**
+ * Works out how a bulk import changes the directory. Rows are matched to existing
+ * employees by name (case-insensitive); 'replace' also removes everyone not in the import.
+ */
+export function planEmployeeImport(
+  existing: Employee[],
+  inputs: EmployeeInput[],
+  mode: 'merge' | 'replace'
+): EmployeeImportPlan {
+  const byName = new Map(existing.map(emp => [emp.name.trim().toLowerCase(), emp]));
+  const rows = new Map<string, EmployeeInput>();
+
+  // Later rows win when the same name appears twice
+  for (const input of inputs) {
+    rows.set(input.name.trim().toLowerCase(), input);
+  }
+
+  const plan: EmployeeImportPlan = { toCreate: [], toUpdate: [], toRemove: [] };
+
+  for (const [key, input] of rows) {
+    const match = byName.get(key);
+    if (match) {
+      plan.toUpdate.push({ id: match.id, update: input });
+    } else {
+      plan.toCreate.push(input);
+    }
+  }
+
+  if (mode === 'replace') {
+    plan.toRemove = existing
+      .filter(emp => !rows.has(emp.name.trim().toLowerCase()))
+      .map(emp => emp.id);
+  }
+
+  return plan;
+}
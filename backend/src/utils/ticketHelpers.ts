@@ -0,0 +1,71 @@
+import type { CreateTicketInput, ProjectTicket, TicketFilter, TicketNote, TicketUpdate } from '../types/ticket.types';
+
+export const TICKET_ID_PREFIX = 'PROJ-';
+
+export function formatTicketId(sequence: number): string {
+  return `${TICKET_ID_PREFIX}${sequence.toString().padStart(4, '0')}`;
+}
+
+export function requireTicketFields(input: CreateTicketInput): void {
+  if (!input.assignee?.trim() || !input.title?.trim()) {
+    throw new Error('A ticket needs both an assignee and a title');
+  }
+}
+
+export function reviveTicket(raw: any): ProjectTicket {
+  return {
+    ticketId: raw.ticketId,
+    title: raw.title,
+    assignee: raw.assignee,
+    projectName: raw.projectName,
+    description: raw.description,
+    status: raw.status,
+    resolution: raw.resolution,
+    notes: (raw.notes || []).map((note: TicketNote) => ({
+      ...note,
+      createdAt: new Date(note.createdAt)
+    })),
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+    ...(raw.closedAt && { closedAt: new Date(raw.closedAt) })
+  };
+}
+
+export function applyTicketUpdate(ticket: ProjectTicket, update: TicketUpdate): ProjectTicket {
+  const now = new Date();
+  const { note, ...fields } = update;
+
+  const updated: ProjectTicket = { ...ticket, updatedAt: now };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      (updated as any)[key] = value;
+    }
+  }
+
+  if (note) {
+    updated.notes = [...ticket.notes, { text: note, createdAt: now }];
+  }
+
+  return updated;
+}
+
+export function closeTicketRecord(ticket: ProjectTicket, resolution?: string): ProjectTicket {
+  const now = new Date();
+  return {
+    ...ticket,
+    status: 'closed',
+    resolution: resolution ?? ticket.resolution,
+    closedAt: now,
+    updatedAt: now
+  };
+}
+
+export function matchesTicketFilter(ticket: ProjectTicket, filter?: TicketFilter): boolean {
+  if (!filter) return true;
+
+  if (filter.status && ticket.status !== filter.status) return false;
+  if (filter.assignee && !(ticket.assignee || '').toLowerCase().includes(filter.assignee.toLowerCase())) return false;
+  if (filter.projectName && !(ticket.projectName || '').toLowerCase().includes(filter.projectName.toLowerCase())) return false;
+
+  return true;
+}
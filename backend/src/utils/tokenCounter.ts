@@ -0,0 +1,14 @@
+import { getEncoding, type Tiktoken } from 'js-tiktoken';
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Token count under cl100k_base, the tokenizer of OpenAI's embedding models. Other
+ * providers tokenize differently, so for them the count is an approximation.
+ */
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = getEncoding('cl100k_base');
+  }
+  return encoder.encode(text).length;
+}
@@ -1,4 +1,5 @@
-import type { ToolCall as MemoryToolCall } from '../types/memory.types';
+import type { ToolCall as MemoryToolCall, Citation } from '../types/memory.types';
+import type { EnhancedHandbookQueryResult } from '../mastra/tools/rag-tool';
 
 interface MastraToolCall {
   payload?: {
@@ -21,11 +22,69 @@ export function mapToolCallsForMemory(rawToolCalls: unknown[]): MemoryToolCall[]
   });
 }
 
+interface MastraToolResult {
+  payload?: {
+    toolName?: string;
+    result?: unknown;
+  };
+}
+
+/**
+ * Collects the document sources returned by handbook searches as numbered citations.
+ * A passage returned by several searches is cited once, under its first number.
+ */
+export function mapToolResultsToCitations(rawToolResults: unknown[]): Citation[] {
+  if (!Array.isArray(rawToolResults)) return [];
+
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+
+  for (const tr of rawToolResults as MastraToolResult[]) {
+    if (tr.payload?.toolName !== 'queryHandbookSmart') continue;
+
+    const sources = (tr.payload.result as Partial<EnhancedHandbookQueryResult> | undefined)?.sources || [];
+    for (const source of sources) {
+      if (!source.documentId) continue;
+
+      const key = `${source.documentId}:${source.version ?? ''}:${source.startOffset ?? source.chunkIndex}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      citations.push({
+        number: citations.length + 1,
+        documentId: source.documentId,
+        filename: source.filename || source.documentId,
+        collection: source.collection,
+        ...(source.version !== undefined && { version: source.version }),
+        ...(source.sectionNumber && { sectionNumber: source.sectionNumber }),
+        ...(source.sectionTitle && { sectionTitle: source.sectionTitle }),
+        ...(source.pageNumber !== undefined && { pageNumber: source.pageNumber }),
+        ...(source.startOffset !== undefined && source.endOffset !== undefined && {
+          startOffset: source.startOffset,
+          endOffset: source.endOffset
+        }),
+        text: source.text,
+        score: source.score,
+        ...(source.rerankScore !== undefined && { rerankScore: source.rerankScore })
+      });
+    }
+  }
+
+  return citations;
+}
+
 export function getToolDisplayName(toolName: string): string {
   const names: Record<string, string> = {
-    'queryHandbook': 'Query Handbook',
+    'queryHandbookSmart': 'Query Handbook',
+    'classifyBudgetApproval': 'Budget Approval',
     'getTeamDirectory': 'Team Directory',
-    'createProjectTicket': 'Create Ticket'
+    'createProjectTicket': 'Create Ticket',
+    'listTickets': 'List Tickets',
+    'updateTicket': 'Update Ticket',
+    'assessChangeImpact': 'Change Impact',
+    'submitChangeRequest': 'Submit Change Request',
+    'updateChangeRequest': 'Update Change Request',
+    'getChangeLog': 'Change Log'
   };
   return names[toolName] || toolName;
 }
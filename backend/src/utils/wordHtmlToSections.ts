@@ -0,0 +1,237 @@
+import type { DocumentSection } from '../services/DocumentParserService';
+
+interface ListState {
+  ordered: boolean;
+  counter: number;
+  pendingMarker: boolean;
+}
+
+interface HeadingEntry {
+  level: number;
+  text: string;
+}
+
+const TOKEN_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)[^>]*>|([^<]+)/g;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function normalise(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function renderTable(rows: string[][]): string[] {
+  const populated = rows.filter(row => row.some(cell => cell.length > 0));
+  if (populated.length === 0) return [];
+
+  const width = Math.max(...populated.map(row => row.length));
+  const renderRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, idx) => (row[idx] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+
+  return [
+    renderRow(populated[0]),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...populated.slice(1).map(renderRow),
+  ];
+}
+
+/**
+ * Converts the HTML produced by mammoth for a Word document into markdown-like
+ * sections, one per heading. Headings, numbered/bulleted lists and tables are
+ * kept as structured text and every section records its heading path.
+ */
+export function wordHtmlToSections(html: string): DocumentSection[] {
+  const sections: DocumentSection[] = [];
+  const headings: HeadingEntry[] = [];
+  const lists: ListState[] = [];
+  let lines: string[] = [];
+  let inline = '';
+
+  let tableDepth = 0;
+  let tableRows: string[][] = [];
+  let row: string[] | null = null;
+  let cell: string[] | null = null;
+
+  const takeInline = (): string => {
+    const text = normalise(inline);
+    inline = '';
+    return text;
+  };
+
+  const flushSection = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      sections.push({ text, metadata: { headingPath: headings.map(h => h.text) } });
+    }
+    lines = [];
+  };
+
+  const emitBlock = (text: string) => {
+    if (!text) return;
+    if (cell) {
+      cell.push(text);
+    } else {
+      lines.push(text, '');
+    }
+  };
+
+  const emitListItem = () => {
+    const text = takeInline();
+    const list = lists[lists.length - 1];
+    if (!text || !list) return;
+
+    if (cell) {
+      cell.push(text);
+      return;
+    }
+
+    const indent = '  '.repeat(lists.length - 1);
+    if (list.pendingMarker) {
+      const marker = list.ordered ? `${list.counter}.` : '-';
+      lines.push(`${indent}${marker} ${text}`);
+      list.pendingMarker = false;
+    } else {
+      lines.push(`${indent}   ${text}`);
+    }
+  };
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const [, closing, rawTag, text] = match;
+
+    if (text !== undefined) {
+      inline += decodeEntities(text);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = closing === '/';
+
+    if (/^h[1-6]$/.test(tag)) {
+      if (!isClosing) {
+        emitBlock(takeInline());
+        continue;
+      }
+      const headingText = takeInline();
+      if (!headingText) continue;
+      if (cell) {
+        cell.push(headingText);
+        continue;
+      }
+
+      const level = parseInt(tag[1], 10);
+      flushSection();
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: headingText });
+      lines.push(`${'#'.repeat(level)} ${headingText}`, '');
+      continue;
+    }
+
+    switch (tag) {
+      case 'p':
+        if (isClosing) {
+          if (lists.length > 0 && !cell) {
+            emitListItem();
+          } else {
+            emitBlock(takeInline());
+          }
+        }
+        break;
+
+      case 'br':
+        inline += ' ';
+        break;
+
+      case 'ol':
+      case 'ul':
+        if (!isClosing) {
+          if (lists.length > 0) emitListItem();
+          lists.push({ ordered: tag === 'ol', counter: 0, pendingMarker: false });
+        } else {
+          emitListItem();
+          lists.pop();
+          if (lists.length === 0 && !cell) lines.push('');
+        }
+        break;
+
+      case 'li': {
+        const list = lists[lists.length - 1];
+        if (!isClosing) {
+          if (list) {
+            list.counter++;
+            list.pendingMarker = true;
+          }
+        } else {
+          emitListItem();
+        }
+        break;
+      }
+
+      case 'table':
+        if (!isClosing) {
+          tableDepth++;
+          if (tableDepth === 1) {
+            emitBlock(takeInline());
+            tableRows = [];
+          }
+        } else {
+          tableDepth--;
+          if (tableDepth === 0) {
+            lines.push(...renderTable(tableRows), '');
+            tableRows = [];
+          }
+        }
+        break;
+
+      case 'tr':
+        if (tableDepth !== 1) break;
+        if (!isClosing) {
+          row = [];
+        } else if (row) {
+          tableRows.push(row);
+          row = null;
+        }
+        break;
+
+      case 'td':
+      case 'th':
+        if (tableDepth !== 1) break;
+        if (!isClosing) {
+          cell = [];
+        } else if (cell) {
+          const remainder = takeInline();
+          if (remainder) cell.push(remainder);
+          row?.push(cell.join(' '));
+          cell = null;
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  emitBlock(takeInline());
+  flushSection();
+
+  return sections;
+}
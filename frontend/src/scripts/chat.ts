@@ -1,5 +1,7 @@
 import { marked } from 'marked';
 import { ChatTemplates } from './templates';
+import { getDocumentText } from '../services/documentApi';
+import type { Citation } from '../types/chat';
 
 class ChatApp {
 	private messagesContainer: HTMLElement;
@@ -245,6 +247,10 @@ class ChatApp {
 									}
 								}
 
+								if (assistantMessageId && parsed.citations?.length) {
+									this.addCitations(assistantMessageId, parsed.citations);
+								}
+
 								if (parsed.usage) {
 									console.log('📊 Token usage:', parsed.usage);
 								}
@@ -355,6 +361,98 @@ class ChatApp {
 		});
 	}
 
+	private addCitations(messageId: string, citations: Citation[]): void {
+		const contentDiv = document.getElementById(messageId)?.querySelector('.message-content');
+		if (!contentDiv) return;
+
+		const footnotes = document.createElement('ol');
+		footnotes.className = 'message-citations';
+
+		citations.forEach((citation) => {
+			const item = document.createElement('li');
+			const link = document.createElement('button');
+			link.type = 'button';
+			link.className = 'citation-link';
+			link.textContent = `[${citation.number}] ${this.describeCitation(citation)}`;
+			link.title = citation.text.slice(0, 200);
+			link.addEventListener('click', () => this.openCitation(citation));
+			item.appendChild(link);
+			footnotes.appendChild(item);
+		});
+
+		contentDiv.appendChild(footnotes);
+		this.scrollToBottom();
+	}
+
+	private describeCitation(citation: Citation): string {
+		const parts = [citation.filename];
+		if (citation.sectionNumber) {
+			parts.push(`§${citation.sectionNumber}${citation.sectionTitle ? ` ${citation.sectionTitle}` : ''}`);
+		} else if (citation.sectionTitle) {
+			parts.push(citation.sectionTitle);
+		}
+		if (citation.pageNumber !== undefined) parts.push(`p. ${citation.pageNumber}`);
+		if (citation.version !== undefined && citation.version > 1) parts.push(`v${citation.version}`);
+		return parts.join(' · ');
+	}
+
+	// Shows the cited document version with the passage highlighted and scrolled into view
+	private async openCitation(citation: Citation): Promise<void> {
+		document.getElementById('citationViewer')?.remove();
+
+		const overlay = document.createElement('div');
+		overlay.className = 'citation-viewer';
+		overlay.id = 'citationViewer';
+		overlay.innerHTML = ChatTemplates.citationViewer();
+		(overlay.querySelector('.citation-viewer-title') as HTMLElement).textContent =
+			`[${citation.number}] ${this.describeCitation(citation)}`;
+		const note = overlay.querySelector('.citation-viewer-note') as HTMLElement;
+		const body = overlay.querySelector('.citation-viewer-body') as HTMLElement;
+
+		const onKeydown = (e: KeyboardEvent) => {
+			if (e.key === 'Escape') close();
+		};
+		const close = () => {
+			overlay.remove();
+			document.removeEventListener('keydown', onKeydown);
+		};
+		overlay.addEventListener('click', (e) => {
+			if (e.target === overlay) close();
+		});
+		overlay.querySelector('.citation-viewer-close')?.addEventListener('click', close);
+		document.addEventListener('keydown', onKeydown);
+
+		body.textContent = 'Loading document...';
+		document.body.appendChild(overlay);
+
+		let text = citation.text;
+		let start = 0;
+		let end = citation.text.length;
+		try {
+			const source = await getDocumentText(citation.documentId, citation.version);
+			// Fall back to searching for the passage if the offsets no longer line up
+			const offsetsMatch = citation.startOffset !== undefined && citation.endOffset !== undefined
+				&& source.text.slice(citation.startOffset, citation.endOffset) === citation.text;
+			const found = offsetsMatch ? citation.startOffset! : source.text.indexOf(citation.text);
+			if (found === -1) throw new Error('Cited passage not found in document text');
+
+			text = source.text;
+			start = found;
+			end = found + citation.text.length;
+		} catch (error) {
+			console.warn('Showing cited passage only:', error);
+			note.textContent = 'The full document is not available, showing the cited passage only.';
+		}
+
+		if (!overlay.isConnected) return;
+
+		const passage = document.createElement('mark');
+		passage.textContent = text.slice(start, end);
+		body.textContent = '';
+		body.append(text.slice(0, start), passage, text.slice(end));
+		passage.scrollIntoView({ block: 'center' });
+	}
+
 	private addTypingIndicator(): string {
 		const typingId = 'typing-indicator';
 		if (document.getElementById(typingId)) return typingId;
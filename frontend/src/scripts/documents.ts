@@ -1,12 +1,19 @@
 import {
   uploadDocument,
   listDocuments,
+  listCollections,
+  listDocumentChunks,
+  watchIngestionJob,
+  DuplicateDocumentError,
   downloadDocument,
   deleteDocument,
   formatFileSize,
   formatDate,
 } from '../services/documentApi';
-import type { Document, UploadProgress } from '../types/document';
+import type { Collection, Document, DocumentChunk, IngestionJob, UploadProgress } from '../types/document';
+
+const NEW_COLLECTION_VALUE = '__new__';
+const COLLECTION_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
 
 let uploadArea: HTMLElement;
 let fileInput: HTMLInputElement;
@@ -20,6 +27,8 @@ let documentsError: HTMLElement;
 let documentsGrid: HTMLElement;
 let documentsCount: HTMLElement;
 let retryBtn: HTMLButtonElement;
+let collectionSelect: HTMLSelectElement;
+let newCollectionInput: HTMLInputElement;
 
 let documents: Document[] = [];
 
@@ -38,6 +47,8 @@ export function initializeDocumentManagement() {
   documentsGrid = document.getElementById('documentsGrid') as HTMLElement;
   documentsCount = document.getElementById('documentsCount') as HTMLElement;
   retryBtn = document.getElementById('retryBtn') as HTMLButtonElement;
+  collectionSelect = document.getElementById('collectionSelect') as HTMLSelectElement;
+  newCollectionInput = document.getElementById('newCollectionInput') as HTMLInputElement;
   
   if (!uploadArea || !fileInput) {
     console.error('[DocumentManagement] Required elements not found');
@@ -46,7 +57,9 @@ export function initializeDocumentManagement() {
 
   setupUploadListeners();
   setupDocumentListeners();
+  setupCollectionListeners();
 
+  loadCollections();
   loadDocuments();
   
   console.log('[DocumentManagement] Initialized');
@@ -85,6 +98,52 @@ function setupUploadListeners() {
   });
 }
 
+function setupCollectionListeners() {
+  collectionSelect?.addEventListener('change', () => {
+    const creating = collectionSelect.value === NEW_COLLECTION_VALUE;
+    newCollectionInput.hidden = !creating;
+    if (creating) newCollectionInput.focus();
+  });
+
+  newCollectionInput?.addEventListener('input', () => {
+    newCollectionInput.value = newCollectionInput.value.toLowerCase().replace(/\s+/g, '-');
+  });
+}
+
+async function loadCollections(selected?: string) {
+  if (!collectionSelect) return;
+
+  try {
+    const { collections, defaultCollection } = await listCollections();
+    renderCollectionOptions(collections, selected || collectionSelect.value || defaultCollection);
+  } catch (error) {
+    console.error('[DocumentManagement] Error loading collections:', error);
+  }
+}
+
+function renderCollectionOptions(collections: Collection[], selected: string) {
+  const options = collections.map(collection => {
+    const count = `${collection.documentCount} doc${collection.documentCount === 1 ? '' : 's'}`;
+    return `<option value="${collection.name}">${collection.name} (${count})</option>`;
+  });
+  options.push(`<option value="${NEW_COLLECTION_VALUE}">+ New collection…</option>`);
+
+  collectionSelect.innerHTML = options.join('');
+  collectionSelect.value = collections.some(collection => collection.name === selected)
+    ? selected
+    : collections[0]?.name || NEW_COLLECTION_VALUE;
+  newCollectionInput.hidden = collectionSelect.value !== NEW_COLLECTION_VALUE;
+}
+
+// Returns the collection to upload into, or null when the new collection name is invalid
+function getSelectedCollection(): string | null | undefined {
+  if (!collectionSelect) return undefined;
+  if (collectionSelect.value !== NEW_COLLECTION_VALUE) return collectionSelect.value;
+
+  const name = newCollectionInput.value.trim();
+  return COLLECTION_NAME_PATTERN.test(name) ? name : null;
+}
+
 function setupDocumentListeners() {
   retryBtn?.addEventListener('click', () => {
     loadDocuments();
@@ -96,6 +155,14 @@ function setupDocumentListeners() {
     
     if (!button) return;
 
+    if (button.classList.contains('chunks-btn')) {
+      const documentId = button.dataset.documentId;
+      const originalName = button.dataset.originalName;
+      if (documentId && originalName) {
+        await openChunkViewer(documentId, originalName);
+      }
+    }
+
     if (button.classList.contains('download-btn')) {
       const filename = button.dataset.filename;
       const originalName = button.dataset.originalName;
@@ -114,16 +181,28 @@ function setupDocumentListeners() {
 }
 
 async function handleFiles(files: File[]) {
-  console.log('[DocumentManagement] Uploading', files.length, 'files');
+  const collection = getSelectedCollection();
+  if (collection === null) {
+    showUploadStatus('Enter a collection name using lowercase letters, digits or hyphens', true);
+    newCollectionInput.focus();
+    return;
+  }
+
+  console.log('[DocumentManagement] Uploading', files.length, 'files into', collection || 'default collection');
 
   uploadPlaceholder.style.display = 'none';
   uploadProgressList.style.display = 'block';
   uploadProgressList.innerHTML = '';
 
+  // Files are sent one after another; their ingestion jobs are then followed side by side
+  const ingestions: Promise<void>[] = [];
   for (const file of files) {
-    await uploadFile(file);
+    const { ingested } = await uploadFile(file, collection);
+    ingestions.push(ingested);
   }
+  await Promise.all(ingestions);
 
+  await loadCollections(collection);
   await loadDocuments();
 
   setTimeout(() => {
@@ -133,33 +212,100 @@ async function handleFiles(files: File[]) {
   }, 3000);
 }
 
-async function uploadFile(file: File) {
+// Resolves once the file is sent; `ingested` settles when its ingestion job does
+async function uploadFile(file: File, collection?: string): Promise<{ ingested: Promise<void> }> {
   const progressItem = createProgressItem(file.name);
   uploadProgressList.appendChild(progressItem);
   
   const progressBar = progressItem.querySelector('.upload-progress-fill') as HTMLElement;
   const progressText = progressItem.querySelector('.upload-percentage') as HTMLElement;
   const statusText = progressItem.querySelector('.upload-status-text') as HTMLElement;
-  
-  try {
-    await uploadDocument(file, (progress: UploadProgress) => {
-      progressBar.style.width = `${progress.percentage}%`;
-      progressText.textContent = `${progress.percentage}%`;
-    });
 
-    progressBar.style.width = '100%';
-    progressText.textContent = '100%';
-    statusText.textContent = 'Upload complete! Processing embeddings...';
-    statusText.classList.add('success');
-    
-    showUploadStatus(`Successfully uploaded ${file.name}`, false);
-    
-  } catch (error) {
+  const setProgress = (percentage: number) => {
+    progressBar.style.width = `${percentage}%`;
+    progressText.textContent = `${percentage}%`;
+  };
+
+  const showFailure = (error: unknown) => {
+    progressItem.classList.add('failed');
     statusText.textContent = `Error: ${error instanceof Error ? error.message : 'Upload failed'}`;
     statusText.classList.add('error');
     
-    showUploadStatus(`Failed to upload ${file.name}`, true);
+    showUploadStatus(`Failed to process ${file.name}`, true);
     console.error('[DocumentManagement] Upload error:', error);
+  };
+  
+  const send = (replace: boolean) => uploadDocument(file, (progress: UploadProgress) => {
+    setProgress(progress.percentage);
+    statusText.textContent = 'Uploading...';
+  }, collection, replace);
+
+  let jobId: string;
+  try {
+    jobId = (await send(false)).jobId;
+  } catch (error) {
+    if (!(error instanceof DuplicateDocumentError)) {
+      showFailure(error);
+      return { ingested: Promise.resolve() };
+    }
+
+    const existing = error.existingDocument;
+    statusText.textContent = `Already uploaded as ${existing.originalName} in ${existing.collection}${existing.version ? ` (v${existing.version})` : ''}.`;
+
+    if (existing.ingesting || !confirm(`${file.name} has the same content as ${existing.originalName}. Replace the existing document?`)) {
+      progressItem.classList.add('duplicate');
+      statusText.classList.add('error');
+      showUploadStatus(`Skipped ${file.name}: already uploaded`, true);
+      return { ingested: Promise.resolve() };
+    }
+
+    try {
+      jobId = (await send(true)).jobId;
+    } catch (retryError) {
+      showFailure(retryError);
+      return { ingested: Promise.resolve() };
+    }
+  }
+
+  // The bar restarts for the server-side stages: chunked → embedded → indexed
+  setProgress(0);
+  statusText.textContent = describeJobStatus(null);
+
+  const ingested = watchIngestionJob(jobId, (job) => {
+    setProgress(job.progress.percentage);
+    statusText.textContent = describeJobStatus(job);
+  })
+    .then((job) => {
+      const result = job.result;
+      if (result && result.failedChunks > 0) {
+        statusText.textContent = `Processed, but ${result.failedChunks} of ${result.chunks} chunks could not be embedded. Re-upload to retry.`;
+        statusText.classList.add('error');
+        showUploadStatus(`Partially processed ${file.name}`, true);
+      } else {
+        statusText.textContent = result && result.version > 1
+          ? `Indexed as version ${result.version}; the previous version was replaced in search.`
+          : `Indexed ${result?.chunks ?? 0} chunks${result?.cachedChunks ? ` (${result.cachedChunks} from cache)` : ''}.`;
+        statusText.classList.add('success');
+        showUploadStatus(`Successfully processed ${file.name}`, false);
+      }
+    })
+    .catch(showFailure);
+
+  return { ingested };
+}
+
+function describeJobStatus(job: IngestionJob | null): string {
+  switch (job?.status) {
+    case 'chunking':
+      return 'Chunking document...';
+    case 'embedding':
+      return job.progress.totalChunks
+        ? `Embedding chunks (${job.progress.embeddedChunks}/${job.progress.totalChunks})...`
+        : 'Embedding chunks...';
+    case 'indexing':
+      return 'Indexing...';
+    default:
+      return 'Queued for processing...';
   }
 }
 
@@ -263,10 +409,33 @@ function createDocumentCard(doc: Document): string {
           <span class="document-size">${formatFileSize(doc.size)}</span>
           <span class="document-separator">•</span>
           <span class="document-date">${formatDate(doc.uploadedAt)}</span>
+          ${doc.collection ? `
+          <span class="document-separator">•</span>
+          <span class="document-collection" title="Collection">
+            <i class="fas fa-layer-group"></i> ${doc.collection}
+          </span>` : ''}
+          ${doc.version ? `
+          <span class="document-separator">•</span>
+          <span class="document-version" title="${doc.versionCount || 1} version(s)">v${doc.version}</span>` : ''}
+          ${doc.ingestion ? `
+          <span class="document-separator">•</span>
+          <span class="document-ingestion ${doc.ingestion.status}" title="${doc.ingestion.error || 'Ingestion in progress'}">
+            ${doc.ingestion.status === 'failed' ? 'Ingestion failed' : 'Processing...'}
+          </span>` : ''}
         </div>
       </div>
       
       <div class="document-actions">
+        ${doc.documentId ? `
+        <button 
+          class="action-btn chunks-btn" 
+          data-document-id="${doc.documentId}"
+          data-original-name="${doc.originalName}"
+          title="View indexed chunks"
+          aria-label="View indexed chunks"
+        >
+          <i class="fas fa-th-list"></i>
+        </button>` : ''}
         <button 
           class="action-btn download-btn" 
           data-filename="${doc.filename}"
@@ -315,11 +484,122 @@ async function handleDownload(filename: string, originalName: string) {
   }
 }
 
+// Shows how the current version was chunked and what was embedded, to debug missed answers
+async function openChunkViewer(documentId: string, originalName: string) {
+  document.getElementById('chunkViewer')?.remove();
+
+  const overlay = document.createElement('div');
+  overlay.className = 'chunk-viewer';
+  overlay.id = 'chunkViewer';
+  overlay.innerHTML = `
+    <div class="chunk-viewer-dialog" role="dialog" aria-modal="true">
+      <div class="chunk-viewer-header">
+        <div class="chunk-viewer-heading">
+          <h3 class="chunk-viewer-title"></h3>
+          <div class="chunk-viewer-summary">Loading chunks...</div>
+        </div>
+        <button type="button" class="chunk-viewer-close" aria-label="Close">
+          <i class="fas fa-times"></i>
+        </button>
+      </div>
+      <input type="search" class="chunk-viewer-filter" placeholder="Filter chunks by text..." hidden />
+      <div class="chunk-viewer-list"></div>
+    </div>
+  `;
+
+  const title = overlay.querySelector('.chunk-viewer-title') as HTMLElement;
+  const summary = overlay.querySelector('.chunk-viewer-summary') as HTMLElement;
+  const filter = overlay.querySelector('.chunk-viewer-filter') as HTMLInputElement;
+  const list = overlay.querySelector('.chunk-viewer-list') as HTMLElement;
+  title.textContent = originalName;
+
+  const onKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') close();
+  };
+  const close = () => {
+    overlay.remove();
+    document.removeEventListener('keydown', onKeydown);
+  };
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) close();
+  });
+  overlay.querySelector('.chunk-viewer-close')?.addEventListener('click', close);
+  document.addEventListener('keydown', onKeydown);
+  document.body.appendChild(overlay);
+
+  try {
+    const data = await listDocumentChunks(documentId);
+    const embeddingModel = data.chunks.find(chunk => chunk.metadata.embeddingModel)?.metadata.embeddingModel;
+
+    summary.textContent = [
+      `v${data.version}`,
+      data.collection,
+      `${data.chunkCount} chunk${data.chunkCount === 1 ? '' : 's'}`,
+      `${data.totalTokens.toLocaleString()} tokens`,
+      ...(embeddingModel ? [embeddingModel] : []),
+      ...(data.missingChunkIds.length > 0 ? [`${data.missingChunkIds.length} missing from the index`] : []),
+    ].join(' · ');
+
+    const items = data.chunks.map(chunk => {
+      const item = createChunkItem(chunk);
+      list.appendChild(item);
+      return { item, text: chunk.text.toLowerCase() };
+    });
+
+    filter.hidden = items.length === 0;
+    filter.addEventListener('input', () => {
+      const term = filter.value.trim().toLowerCase();
+      items.forEach(({ item, text }) => {
+        item.hidden = term.length > 0 && !text.includes(term);
+      });
+    });
+  } catch (error) {
+    summary.textContent = `Failed to load chunks: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    summary.classList.add('error');
+  }
+}
+
+function createChunkItem(chunk: DocumentChunk): HTMLElement {
+  const { chunkIndex, sectionNumber, sectionTitle, pageNumber } = chunk.metadata;
+  const section = sectionNumber
+    ? `§${sectionNumber}${sectionTitle ? ` ${sectionTitle}` : ''}`
+    : sectionTitle;
+
+  const item = document.createElement('div');
+  item.className = 'chunk-item';
+
+  const header = document.createElement('div');
+  header.className = 'chunk-item-header';
+  header.textContent = [
+    `#${chunkIndex ?? '?'}`,
+    ...(section ? [section] : []),
+    ...(pageNumber !== undefined ? [`page ${pageNumber}`] : []),
+    `${chunk.tokenCount} tokens`,
+    `${chunk.text.length} chars`,
+  ].join(' · ');
+
+  const text = document.createElement('pre');
+  text.className = 'chunk-item-text';
+  text.textContent = chunk.text;
+
+  const details = document.createElement('details');
+  details.className = 'chunk-item-metadata';
+  const detailsSummary = document.createElement('summary');
+  detailsSummary.textContent = `Metadata (${chunk.id})`;
+  const metadata = document.createElement('pre');
+  metadata.textContent = JSON.stringify(chunk.metadata, null, 2);
+  details.append(detailsSummary, metadata);
+
+  item.append(header, text, details);
+  return item;
+}
+
 async function handleDelete(filename: string) {
   try {
     console.log('[DocumentManagement] Deleting:', filename);
     await deleteDocument(filename);
 
+    await loadCollections();
     await loadDocuments();
     
     showUploadStatus('Document deleted successfully', false);
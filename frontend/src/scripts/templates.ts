@@ -32,6 +32,22 @@ export class ChatTemplates {
 		`;
 	}
 
+	static citationViewer(): string {
+		return `
+			<div class="citation-viewer-dialog" role="dialog" aria-modal="true">
+				<div class="citation-viewer-header">
+					<i class="fas fa-file-alt"></i>
+					<span class="citation-viewer-title"></span>
+					<button type="button" class="citation-viewer-close" aria-label="Close">
+						<i class="fas fa-times"></i>
+					</button>
+				</div>
+				<div class="citation-viewer-note"></div>
+				<pre class="citation-viewer-body"></pre>
+			</div>
+		`;
+	}
+
 	static userAvatar(): string {
 		return '<i class="fas fa-user"></i>';
 	}
@@ -1,8 +1,16 @@
 import type {
+  CollectionListResponse,
   Document,
   DocumentUploadResponse,
   DocumentListResponse,
+  DocumentVersionListResponse,
+  DocumentTextResponse,
+  DocumentChunkListResponse,
+  IngestionJob,
+  IngestionJobResponse,
   DocumentDeleteResponse,
+  DuplicateDocument,
+  DuplicateDocumentResponse,
   UploadProgress,
 } from '../types/document';
 
@@ -10,11 +18,24 @@ const API_BASE_URL = import.meta.env.PUBLIC_BACKEND_URL
   ? `${import.meta.env.PUBLIC_BACKEND_URL}/api`
   : 'http://localhost:3001/api';
 
+// Rejected upload whose content is already stored; retry with replace to supersede the existing document
+export class DuplicateDocumentError extends Error {
+  constructor(message: string, public readonly existingDocument: DuplicateDocument) {
+    super(message);
+    this.name = 'DuplicateDocumentError';
+  }
+}
+
 export async function uploadDocument(
   file: File,
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  collection?: string,
+  replace = false
 ): Promise<DocumentUploadResponse> {
   const formData = new FormData();
+  if (collection) {
+    formData.append('collection', collection);
+  }
   formData.append('document', file);
 
   return new Promise((resolve, reject) => {
@@ -40,6 +61,13 @@ export async function uploadDocument(
         } catch (error) {
           reject(new Error('Invalid response format'));
         }
+      } else if (xhr.status === 409) {
+        try {
+          const duplicate: DuplicateDocumentResponse = JSON.parse(xhr.responseText);
+          reject(new DuplicateDocumentError(duplicate.details || duplicate.error, duplicate.existingDocument));
+        } catch {
+          reject(new Error('Duplicate document'));
+        }
       } else {
         try {
           const error = JSON.parse(xhr.responseText);
@@ -58,11 +86,62 @@ export async function uploadDocument(
       reject(new Error('Upload cancelled'));
     });
 
-    xhr.open('POST', `${API_BASE_URL}/documents/upload`);
+    xhr.open('POST', `${API_BASE_URL}/documents/upload${replace ? '?replace=true' : ''}`);
     xhr.send(formData);
   });
 }
 
+export async function getIngestionJob(jobId: string): Promise<IngestionJob> {
+  const response = await fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`);
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ingestion job: ${response.statusText}`);
+  }
+  
+  const data: IngestionJobResponse = await response.json();
+  return data.job;
+}
+
+/**
+ * Follows an ingestion job over SSE until it completes (resolves) or fails (rejects).
+ * If the stream drops, the job is polled once so a finished job is not missed while
+ * EventSource reconnects.
+ */
+export function watchIngestionJob(
+  jobId: string,
+  onProgress?: (job: IngestionJob) => void
+): Promise<IngestionJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`);
+
+    const finish = (job: IngestionJob) => {
+      source.close();
+      onProgress?.(job);
+      if (job.status === 'completed') {
+        resolve(job);
+      } else {
+        reject(new Error(job.error || 'Ingestion failed'));
+      }
+    };
+
+    source.addEventListener('progress', (e) => {
+      onProgress?.(JSON.parse((e as MessageEvent).data));
+    });
+    source.addEventListener('complete', (e) => finish(JSON.parse((e as MessageEvent).data)));
+    source.addEventListener('failed', (e) => finish(JSON.parse((e as MessageEvent).data)));
+
+    source.addEventListener('error', async () => {
+      try {
+        const job = await getIngestionJob(jobId);
+        if (job.status === 'completed' || job.status === 'failed') finish(job);
+      } catch (error) {
+        source.close();
+        reject(error);
+      }
+    });
+  });
+}
+
 export async function listDocuments(): Promise<Document[]> {
   try {
     const response = await fetch(`${API_BASE_URL}/documents`);
@@ -84,6 +163,91 @@ export async function listDocuments(): Promise<Document[]> {
   }
 }
 
+export async function listCollections(): Promise<CollectionListResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/collections`);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch collections: ${response.statusText}`);
+    }
+    
+    const data: CollectionListResponse = await response.json();
+    
+    if (!data.success) {
+      throw new Error('Failed to fetch collections');
+    }
+    
+    return data;
+  } catch (error) {
+    console.error('[DocumentAPI] Error listing collections:', error);
+    throw error;
+  }
+}
+
+export async function listDocumentVersions(documentId: string): Promise<DocumentVersionListResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${encodeURIComponent(documentId)}/versions`);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch document versions: ${response.statusText}`);
+    }
+    
+    const data: DocumentVersionListResponse = await response.json();
+    
+    if (!data.success) {
+      throw new Error('Failed to fetch document versions');
+    }
+    
+    return data;
+  } catch (error) {
+    console.error('[DocumentAPI] Error listing document versions:', error);
+    throw error;
+  }
+}
+
+export async function listDocumentChunks(documentId: string): Promise<DocumentChunkListResponse> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${encodeURIComponent(documentId)}/chunks`);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch document chunks: ${response.statusText}`);
+    }
+    
+    const data: DocumentChunkListResponse = await response.json();
+    
+    if (!data.success) {
+      throw new Error('Failed to fetch document chunks');
+    }
+    
+    return data;
+  } catch (error) {
+    console.error('[DocumentAPI] Error listing document chunks:', error);
+    throw error;
+  }
+}
+
+export async function getDocumentText(documentId: string, version?: number): Promise<DocumentTextResponse> {
+  try {
+    const query = version !== undefined ? `?version=${version}` : '';
+    const response = await fetch(`${API_BASE_URL}/documents/${encodeURIComponent(documentId)}/text${query}`);
+    
+    if (!response.ok) {
+      throw new Error(`Failed to fetch document text: ${response.statusText}`);
+    }
+    
+    const data: DocumentTextResponse = await response.json();
+    
+    if (!data.success) {
+      throw new Error('Failed to fetch document text');
+    }
+    
+    return data;
+  } catch (error) {
+    console.error('[DocumentAPI] Error fetching document text:', error);
+    throw error;
+  }
+}
+
 export async function downloadDocument(filename: string, originalName: string): Promise<void> {
   try {
     const response = await fetch(`${API_BASE_URL}/documents/${encodeURIComponent(filename)}`);
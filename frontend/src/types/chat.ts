@@ -0,0 +1,15 @@
+export interface Citation {
+  number: number;
+  documentId: string;
+  filename: string;
+  collection: string;
+  version?: number;
+  sectionNumber?: string;
+  sectionTitle?: string;
+  pageNumber?: number;
+  startOffset?: number;
+  endOffset?: number;
+  text: string;
+  score: number;
+  rerankScore?: number;
+}
@@ -6,18 +6,140 @@ export interface Document {
   size: number;
   uploadedAt: string;
   url: string;
+  contentHash?: string;
+  collection?: string;
+  documentId?: string;
+  version?: number;
+  versionCount?: number;
+  ingestion?: {
+    jobId: string;
+    status: IngestionJobStatus;
+    error?: string;
+  };
 }
 
-export interface DocumentUploadResponse {
+export interface Collection {
+  name: string;
+  documentCount: number;
+  chunkCount: number;
+}
+
+export interface CollectionListResponse {
   success: boolean;
-  document: Document;
-  processing?: {
+  collections: Collection[];
+  defaultCollection: string;
+}
+
+export type IngestionJobStatus = 'queued' | 'chunking' | 'embedding' | 'indexing' | 'completed' | 'failed';
+
+export interface IngestionJob {
+  jobId: string;
+  documentId: string;
+  collection: string;
+  file: {
+    fileId: string;
+    originalName: string;
+    mimeType: string;
+    size: number;
+    uploadedAt: string;
+  };
+  status: IngestionJobStatus;
+  progress: {
+    percentage: number;
+    totalChunks?: number;
+    embeddedChunks: number;
+    cachedChunks?: number;
+  };
+  result?: {
+    version: number;
     chunks: number;
     embeddings: number;
     processingTime: number;
+    pages?: number;
+    batches: number;
+    retries: number;
+    failedChunks: number;
+    cachedChunks: number;
+    errors?: string[];
+  };
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface DocumentUploadResponse {
+  success: boolean;
+  jobId: string;
+  job: IngestionJob;
+  document: Document;
+  replacedDocumentId?: string;
+  statusUrl: string;
+  eventsUrl: string;
+}
+
+export interface IngestionJobResponse {
+  success: boolean;
+  job: IngestionJob;
+}
+
+export interface DocumentVersion {
+  version: number;
+  fileId?: string;
+  originalName: string;
+  size?: number;
+  mimeType?: string;
+  uploadedAt: string;
+  chunkCount: number;
+  embeddingCount: number;
+  current: boolean;
+  downloadUrl?: string;
+}
+
+export interface DocumentVersionListResponse {
+  success: boolean;
+  documentId: string;
+  originalName: string;
+  collection: string;
+  currentVersion: number;
+  versions: DocumentVersion[];
+}
+
+export interface DocumentChunk {
+  id: string;
+  text: string;
+  tokenCount: number;
+  metadata: Record<string, unknown> & {
+    chunkIndex?: number;
+    sectionNumber?: string;
+    sectionTitle?: string;
+    pageNumber?: number;
+    embeddingModel?: string;
   };
 }
 
+export interface DocumentChunkListResponse {
+  success: boolean;
+  documentId: string;
+  originalName: string;
+  collection: string;
+  version: number;
+  chunkCount: number;
+  totalTokens: number;
+  missingChunkIds: string[];
+  chunks: DocumentChunk[];
+}
+
+export interface DocumentTextResponse {
+  success: boolean;
+  documentId: string;
+  originalName: string;
+  collection: string;
+  version: number;
+  text: string;
+}
+
 export interface DocumentListResponse {
   success: boolean;
   documents: Document[];
@@ -39,3 +161,12 @@ export interface DocumentError {
   error: string;
   details?: string;
 }
+
+export interface DuplicateDocument extends Document {
+  contentHash: string;
+  ingesting: boolean;
+}
+
+export interface DuplicateDocumentResponse extends DocumentError {
+  existingDocument: DuplicateDocument;
+}